@@ -8,4 +8,6 @@ dependency to this list of esModules, so that it will be transformed into ESM
 module.exports = {
   preset: 'ts-jest/presets/js-with-ts-esm',
   transformIgnorePatterns: [`/node_modules/(?!${esModules})`],
+  // Newer versions of node define a read-only global `performance`, which jest 28's fake timers can not replace
+  fakeTimers: { doNotFake: ['performance'] },
 };
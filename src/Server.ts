@@ -6,6 +6,12 @@ import swaggerUi from 'swagger-ui-express';
 import { ValidateError } from 'tsoa';
 import fs from 'fs/promises';
 import { Server as SocketServer } from 'socket.io';
+import FileChatLogStore from './lib/FileChatLogStore';
+import FileTownsStore from './lib/FileTownsStore';
+import InMemoryTownsStore from './lib/InMemoryTownsStore';
+import MapLibrary, { InvalidMapError, MAX_MAP_SIZE_BYTES } from './lib/MapLibrary';
+import MediaPolicy from './lib/MediaPolicy';
+import OEmbedMetadataResolver from './lib/OEmbedMetadataResolver';
 import TownsStore from './lib/TownsStore';
 import { ClientToServerEvents, ServerToClientEvents } from './types/CoveyTownSocket';
 import { TownsController } from './town/TownsController';
@@ -19,8 +25,24 @@ const socketServer = new SocketServer<ClientToServerEvents, ServerToClientEvents
   cors: { origin: '*' },
 });
 
-// Initialize the towns store with a factory that creates a broadcast emitter for a town
-TownsStore.initializeTownsStore((townID: string) => socketServer.to(townID));
+// Initialize the towns store with a factory that creates a broadcast emitter for a town.
+// If $TOWNS_STORE_FILE is set, towns are persisted to that file and survive a restart.
+// If $MAP_LIBRARY_DIR is set, uploaded maps are stored in that directory and survive a restart.
+// If $MEDIA_ALLOWED_HOSTS is set (as a comma-separated list), viewing areas may only play videos from
+// those hosts, rather than from the default hosts
+// If $CHAT_LOG_DIR is set, the chat log of each town is stored in that directory and survives a restart
+TownsStore.initializeTownsStore(
+  (townID: string) => socketServer.to(townID),
+  process.env.TOWNS_STORE_FILE
+    ? new FileTownsStore(process.env.TOWNS_STORE_FILE)
+    : new InMemoryTownsStore(),
+  new MapLibrary(process.env.MAP_LIBRARY_DIR),
+  new MediaPolicy({
+    allowedHosts: process.env.MEDIA_ALLOWED_HOSTS?.split(','),
+    resolver: new OEmbedMetadataResolver(),
+  }),
+  process.env.CHAT_LOG_DIR ? new FileChatLogStore(process.env.CHAT_LOG_DIR) : undefined,
+);
 
 // Connect the socket server to the TownsController. We use here the same pattern as tsoa
 // (the library that we use for REST), which creates a new controller instance for each request
@@ -28,8 +50,9 @@ socketServer.on('connection', socket => {
   new TownsController().joinTown(socket);
 });
 
-// Set the default content-type to JSON
-app.use(Express.json());
+// Set the default content-type to JSON. Request bodies may contain an uploaded map, whose size MapLibrary
+// checks without counting whitespace, so allow bodies up to twice the size of the largest map
+app.use(Express.json({ limit: MAX_MAP_SIZE_BYTES * 2 }));
 
 // Add a /docs endpoint that will display swagger auto-generated documentation
 app.use('/docs', swaggerUi.serve, async (_req: Express.Request, res: Express.Response) => {
@@ -51,6 +74,19 @@ app.use(
         details: err?.fields,
       });
     }
+    if (err instanceof InvalidMapError) {
+      return res.status(err.status).json({
+        message: err.message,
+        issues: err.issues,
+      });
+    }
+    // Errors raised by Express itself, such as for a request body that is too large
+    const { status } = err as { status?: number };
+    if (err instanceof Error && status !== undefined && status >= 400 && status < 500) {
+      return res.status(status).json({
+        message: err.message,
+      });
+    }
     if (err instanceof Error) {
       logError(err);
       return res.status(500).json({
@@ -62,12 +98,27 @@ app.use(
   },
 );
 
-// Start the configured server, defaulting to port 8081 if $PORT is not set
-server.listen(process.env.PORT || 8081, () => {
-  const address = server.address() as AddressInfo;
-  // eslint-disable-next-line no-console
-  console.log(`Listening on ${address.port}`);
-  if (process.env.DEMO_TOWN_ID) {
-    TownsStore.getInstance().createTown(process.env.DEMO_TOWN_ID, false);
-  }
-});
+// Restore any persisted towns, and then start the configured server, defaulting to port 8081 if $PORT is not set.
+// If the towns cannot be restored, exit rather than start without them
+TownsStore.getInstance()
+  .rehydrateTowns()
+  .then(restoredTowns => {
+    // eslint-disable-next-line no-console
+    console.log(`Restored ${restoredTowns.length} towns`);
+    server.listen(process.env.PORT || 8081, () => {
+      const address = server.address() as AddressInfo;
+      // eslint-disable-next-line no-console
+      console.log(`Listening on ${address.port}`);
+      const demoTownID = process.env.DEMO_TOWN_ID;
+      if (demoTownID && !TownsStore.getInstance().getTownByID(demoTownID)) {
+        TownsStore.getInstance().createTown(demoTownID, false);
+      }
+    });
+  })
+  .catch(err => {
+    // Starting with no towns would overwrite the towns that could not be read once a town is saved
+    // eslint-disable-next-line no-console
+    console.error(`Could not restore towns from ${process.env.TOWNS_STORE_FILE}; not starting`);
+    logError(err);
+    process.exit(1);
+  });
@@ -43,6 +43,13 @@ export function createConversationForTesting(params?: {
   };
 }
 
+/**
+ * @returns the URL of a random video, which the default media policy allows (and does not change)
+ */
+export function createVideoURLForTesting(): string {
+  return `https://www.youtube.com/watch?v=${nanoid(11)}`;
+}
+
 export function defaultLocation(): PlayerLocation {
   return { x: 0, y: 0, moving: false, rotation: 'front', interactableID: undefined };
 }
@@ -1,3 +1,5 @@
+import { ChatMessage, PlayerRole, TownPermission } from '../types/CoveyTownSocket';
+
 /**
  * The public-facing model that represents a town. More information about the town
  * is available for users who join it.
@@ -51,10 +53,153 @@ export interface TownCreateParams {
   isPubliclyListed: boolean;
 
   /**
-   * Reserved for future use, currently only used for testing: this parameter can be
-   * specified to control which Tiled map file is used for initializing the set of interactable areas
-   *
-   * Not currently used on frontend
+   * The ID of a map in the map library (as returned by uploading the map) to create the town from
+   */
+  mapID?: string;
+
+  /**
+   * The map to create the town from: either the contents of a Tiled JSON map file, or the contents of
+   * a Tiled TMX (XML) map file as a string. The map is validated and added to the map library. At
+   * most one of map and mapID may be specified; if neither is, the town is created from the default
+   * map.
+   */
+  map?: unknown;
+
+  /**
+   * The maximum number of players that may be in the town at once. Players who try to join a town that is full
+   * are placed on a waitlist. Defaults to 50.
+   * @isInt
+   * @minimum 1
+   */
+  capacity?: number;
+}
+
+/**
+ * Request body that specifies the new map of a running town. Exactly one of map and mapID must be
+ * specified.
+ */
+export interface TownMapUpdateParams {
+  /**
+   * The ID of a map in the map library to switch the town to
+   */
+  mapID?: string;
+
+  /**
+   * The map to switch the town to, as for TownCreateParams.map. The map is validated and added to the
+   * map library.
+   */
+  map?: unknown;
+}
+
+/**
+ * Request body that specifies why a player is being kicked or banned from a town
+ */
+export interface ModerationRequest {
+  /**
+   * An explanation that is shown to the player and to the rest of the town
+   */
+  reason?: string;
+}
+
+/**
+ * Request body that specifies how long a player should be muted for
+ */
+export interface MuteRequest extends ModerationRequest {
+  /**
+   * How long the player's chat messages will be rejected for. A duration of 0 lifts an existing mute.
+   * @minimum 0
+   */
+  durationSec: number;
+}
+
+/**
+ * Request body that specifies the role to give a player
+ */
+export interface RoleAssignmentRequest {
+  role: PlayerRole;
+}
+
+/**
+ * Request body that specifies the set of permissions to grant to a role
+ */
+export interface RolePermissionsRequest {
+  permissions: TownPermission[];
+}
+
+/**
+ * How many chat messages a town keeps, and for how long
+ */
+export interface ChatRetention {
+  /**
+   * The most messages that the town keeps; once it has this many, the oldest are forgotten
+   * @isInt
+   * @minimum 1
+   * @maximum 10000
+   */
+  maxMessages: number;
+  /**
+   * How long messages are kept for, if they should be forgotten after a while
+   * @isInt
+   * @minimum 1
+   */
+  maxAgeSec?: number;
+}
+
+/**
+ * A page of a town's chat history
+ */
+export interface ChatHistoryPage {
+  /**
+   * The messages in this page, oldest first
+   */
+  messages: ChatMessage[];
+  /**
+   * The cursor to pass as `before` to get the page of older messages, absent if there are none
+   */
+  nextCursor?: string;
+}
+
+/**
+ * Payload that is sent back to a client upon uploading a map to the map library
+ */
+export interface MapUploadResponse {
+  /**
+   * The ID of the map, which is a hash of its contents. Towns can be created from the map with this ID.
+   */
+  mapID: string;
+}
+
+/**
+ * A single problem found in a map by the map validator
+ */
+export interface MapValidationIssue {
+  /**
+   * Errors prevent a town from being created from the map, or break it for players once created.
+   * Warnings point out content that the server ignores.
+   */
+  severity: 'error' | 'warning';
+  /**
+   * A description of the problem
+   */
+  message: string;
+  /**
+   * The name of the map object that has the problem, if the problem is with a particular object
+   */
+  objectName?: string;
+  /**
+   * The coordinates of the map object or point that has the problem, if any
+   */
+  x?: number;
+  y?: number;
+}
+
+/**
+ * The result of validating a map: every problem found in it, not only the first
+ */
+export interface MapValidationResult {
+  /**
+   * True if there are no errors in the map (it may still have warnings)
    */
-  mapFile?: string;
+  isValid: boolean;
+  issues: MapValidationIssue[];
 }
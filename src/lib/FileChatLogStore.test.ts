@@ -0,0 +1,58 @@
+import * as fs from 'fs/promises';
+import { nanoid } from 'nanoid';
+import * as os from 'os';
+import * as path from 'path';
+import { ChatLogEntry } from '../town/ChatLog';
+import FileChatLogStore from './FileChatLogStore';
+
+function createEntryForTesting(recipients?: string[]): ChatLogEntry {
+  const id = nanoid();
+  const message = { id, sid: id, author: nanoid(), body: nanoid(), dateCreated: new Date() };
+  return recipients ? { message, recipients } : { message };
+}
+
+describe('FileChatLogStore', () => {
+  let tmpDir: string;
+  let directory: string;
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'chat-'));
+    directory = path.join(tmpDir, 'nested');
+  });
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+  it('Returns an empty log for a town that has none saved', async () => {
+    expect(await new FileChatLogStore(directory).getChatLog(nanoid())).toEqual([]);
+  });
+  it('Persists the log of each town so that a new store instance sees it, with its dates', async () => {
+    const townID = nanoid();
+    const entries = [createEntryForTesting(), createEntryForTesting([nanoid()])];
+    const otherEntries = [createEntryForTesting()];
+    const store = new FileChatLogStore(directory);
+    await store.putChatLog(townID, entries);
+    await store.putChatLog('Other Town/1', otherEntries);
+
+    const reopened = new FileChatLogStore(directory);
+    expect(await reopened.getChatLog(townID)).toEqual(entries);
+    expect(await reopened.getChatLog('Other Town/1')).toEqual(otherEntries);
+  });
+  it('Saves the newest log when several are waiting to be written', async () => {
+    const townID = nanoid();
+    const store = new FileChatLogStore(directory);
+    const entries = [createEntryForTesting(), createEntryForTesting()];
+    await Promise.all([
+      store.putChatLog(townID, []),
+      store.putChatLog(townID, entries.slice(0, 1)),
+      store.putChatLog(townID, entries),
+    ]);
+    expect(await new FileChatLogStore(directory).getChatLog(townID)).toEqual(entries);
+  });
+  it('Removes deleted logs', async () => {
+    const townID = nanoid();
+    const store = new FileChatLogStore(directory);
+    await store.putChatLog(townID, [createEntryForTesting()]);
+    await store.deleteChatLog(townID);
+    expect(await store.getChatLog(townID)).toEqual([]);
+    await expect(store.deleteChatLog(townID)).resolves.toBeUndefined();
+  });
+});
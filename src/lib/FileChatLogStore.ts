@@ -0,0 +1,88 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ChatLogEntry } from '../town/ChatLog';
+import IChatLogStore from './IChatLogStore';
+
+/**
+ * A chat log store that keeps the chat log of each town in its own JSON file in a directory, so that
+ * chat history survives a restart of the server.
+ *
+ * As in FileTownsStore, each file is rewritten in full on every change, writes are serialized, and
+ * each write is atomic. Chat logs change often, so a write that is waiting behind another is skipped
+ * if a newer log for the same town is waiting too.
+ */
+export default class FileChatLogStore implements IChatLogStore {
+  private readonly _directory: string;
+
+  private _pendingWrite: Promise<void> = Promise.resolve();
+
+  /** The newest log of each town that is waiting to be written */
+  private _waiting: Map<string, ChatLogEntry[] | undefined> = new Map();
+
+  /**
+   * Creates a new FileChatLogStore
+   *
+   * @param directory the directory to store chat logs in, which will be created upon the first write
+   *  if it does not yet exist
+   */
+  public constructor(directory: string) {
+    this._directory = directory;
+  }
+
+  async getChatLog(townID: string): Promise<ChatLogEntry[]> {
+    await this._pendingWrite;
+    let contents: string;
+    try {
+      contents = await fs.readFile(this._filePath(townID), 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+    return (JSON.parse(contents) as ChatLogEntry[]).map(eachEntry => ({
+      ...eachEntry,
+      message: { ...eachEntry.message, dateCreated: new Date(eachEntry.message.dateCreated) },
+    }));
+  }
+
+  async putChatLog(townID: string, entries: ChatLogEntry[]): Promise<void> {
+    return this._update(townID, entries);
+  }
+
+  async deleteChatLog(townID: string): Promise<void> {
+    return this._update(townID, undefined);
+  }
+
+  private _filePath(townID: string): string {
+    return path.join(this._directory, `${encodeURIComponent(townID)}.json`);
+  }
+
+  /**
+   * Writes (or, given no entries, deletes) the chat log of a town once the writes before it finish
+   */
+  private _update(townID: string, entries: ChatLogEntry[] | undefined): Promise<void> {
+    const isWaiting = this._waiting.has(townID);
+    this._waiting.set(townID, entries);
+    if (isWaiting) {
+      // The write that is already waiting for this town will write these entries instead
+      return this._pendingWrite;
+    }
+    const write = this._pendingWrite.then(async () => {
+      const latest = this._waiting.get(townID);
+      this._waiting.delete(townID);
+      const filePath = this._filePath(townID);
+      if (!latest) {
+        await fs.rm(filePath, { force: true });
+        return;
+      }
+      const tmpPath = `${filePath}.tmp`;
+      await fs.mkdir(this._directory, { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(latest), 'utf-8');
+      await fs.rename(tmpPath, filePath);
+    });
+    // A failed write should not prevent later writes from being attempted
+    this._pendingWrite = write.catch(() => {});
+    return write;
+  }
+}
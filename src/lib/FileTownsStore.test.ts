@@ -0,0 +1,67 @@
+import * as fs from 'fs/promises';
+import { nanoid } from 'nanoid';
+import * as os from 'os';
+import * as path from 'path';
+import FileTownsStore from './FileTownsStore';
+import { TownRecord } from './ITownsStore';
+
+function createTownRecordForTesting(): TownRecord {
+  return {
+    townID: nanoid(),
+    friendlyName: nanoid(),
+    isPubliclyListed: true,
+    townUpdatePasswordHash: nanoid(),
+    mapFile: 'testData/indoors.json',
+  };
+}
+
+describe('FileTownsStore', () => {
+  let tmpDir: string;
+  let filePath: string;
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'towns-'));
+    filePath = path.join(tmpDir, 'nested', 'towns.json');
+  });
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+  it('Returns no towns if the file does not exist yet', async () => {
+    const store = new FileTownsStore(filePath);
+    expect(await store.getAllTowns()).toEqual([]);
+  });
+  it('Persists towns so that a new store instance reading the same file sees them', async () => {
+    const town1 = createTownRecordForTesting();
+    const town2 = createTownRecordForTesting();
+    const store = new FileTownsStore(filePath);
+    await store.putTown(town1);
+    await store.putTown(town2);
+
+    const reopened = new FileTownsStore(filePath);
+    const towns = await reopened.getAllTowns();
+    expect(towns).toHaveLength(2);
+    expect(towns).toContainEqual(town1);
+    expect(towns).toContainEqual(town2);
+  });
+  it('Replaces an existing record with the same townID', async () => {
+    const town = createTownRecordForTesting();
+    const store = new FileTownsStore(filePath);
+    await store.putTown(town);
+    await store.putTown({ ...town, friendlyName: 'renamed' });
+    expect(await store.getAllTowns()).toEqual([{ ...town, friendlyName: 'renamed' }]);
+  });
+  it('Removes deleted towns', async () => {
+    const town1 = createTownRecordForTesting();
+    const town2 = createTownRecordForTesting();
+    const store = new FileTownsStore(filePath);
+    await store.putTown(town1);
+    await store.putTown(town2);
+    await store.deleteTown(town1.townID);
+    expect(await store.getAllTowns()).toEqual([town2]);
+  });
+  it('Does not lose any writes when they are issued concurrently', async () => {
+    const towns = [...Array(10)].map(() => createTownRecordForTesting());
+    const store = new FileTownsStore(filePath);
+    await Promise.all(towns.map(town => store.putTown(town)));
+    expect(await new FileTownsStore(filePath).getAllTowns()).toHaveLength(towns.length);
+  });
+});
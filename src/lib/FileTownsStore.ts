@@ -0,0 +1,72 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import ITownsStore, { TownRecord } from './ITownsStore';
+
+type TownsFile = {
+  towns: TownRecord[];
+};
+
+/**
+ * A towns store that persists all town records to a single JSON file, so that towns survive
+ * a restart of the server.
+ *
+ * The file is rewritten in full on every change. Writes are serialized (so that concurrent
+ * updates can not interleave) and are atomic: the new contents are written to a temporary file
+ * which is then renamed over the old file.
+ */
+export default class FileTownsStore implements ITownsStore {
+  private readonly _filePath: string;
+
+  private _pendingWrite: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new FileTownsStore
+   *
+   * @param filePath the JSON file to store towns in. The file (and its directory) will be created
+   *  upon the first write if it does not yet exist
+   */
+  public constructor(filePath: string) {
+    this._filePath = filePath;
+  }
+
+  async getAllTowns(): Promise<TownRecord[]> {
+    await this._pendingWrite;
+    return this._readTowns();
+  }
+
+  async putTown(town: TownRecord): Promise<void> {
+    return this._update(towns => towns.filter(each => each.townID !== town.townID).concat(town));
+  }
+
+  async deleteTown(townID: string): Promise<void> {
+    return this._update(towns => towns.filter(each => each.townID !== townID));
+  }
+
+  private async _readTowns(): Promise<TownRecord[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this._filePath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw err;
+    }
+    const parsed = JSON.parse(contents) as TownsFile;
+    return parsed.towns;
+  }
+
+  private _update(updater: (towns: TownRecord[]) => TownRecord[]): Promise<void> {
+    const write = this._pendingWrite.then(async () => {
+      const towns = updater(await this._readTowns());
+      const contents: TownsFile = { towns };
+      const tmpPath = `${this._filePath}.tmp`;
+      await fs.mkdir(path.dirname(this._filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(contents, null, 2), 'utf-8');
+      await fs.rename(tmpPath, this._filePath);
+    });
+    // A failed write should not prevent later writes from being attempted
+    this._pendingWrite = write.catch(() => {});
+    return write;
+  }
+}
@@ -0,0 +1,30 @@
+import { ChatLogEntry } from '../town/ChatLog';
+
+/**
+ * An abstraction for a storage backend that keeps the chat log of each town, so that chat history
+ * survives a restart of the server
+ */
+export default interface IChatLogStore {
+  /**
+   * Retrieve the chat log of a town, oldest message first
+   *
+   * @param townID the ID of the town
+   * @returns the town's chat log, empty if none has been saved
+   */
+  getChatLog(townID: string): Promise<ChatLogEntry[]>;
+
+  /**
+   * Save the chat log of a town, replacing any that was saved before
+   *
+   * @param townID the ID of the town
+   * @param entries every message in the town's chat log, oldest first
+   */
+  putChatLog(townID: string, entries: ChatLogEntry[]): Promise<void>;
+
+  /**
+   * Remove the chat log of a town. Does nothing if there is none.
+   *
+   * @param townID the ID of the town
+   */
+  deleteChatLog(townID: string): Promise<void>;
+}
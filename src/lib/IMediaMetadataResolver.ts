@@ -0,0 +1,14 @@
+import { MediaMetadata } from '../types/CoveyTownSocket';
+
+/**
+ * Looks up what is known about a video, such as its title and length, so that clients can show what
+ * is playing in a viewing area. The server asks the services that host the videos; tests can use a
+ * local stub instead.
+ */
+export default interface IMediaMetadataResolver {
+  /**
+   * @param url the normalized URL of a video from an allowed host
+   * @returns whatever could be found out about the video. May reject if the lookup fails.
+   */
+  resolve(url: string): Promise<MediaMetadata>;
+}
@@ -1,14 +1,52 @@
-import Town from '../town/Town';
+import { ChatRetention } from '../api/Model';
+import { PlayerRole, TownPermission } from '../types/CoveyTownSocket';
 
 /**
- * An abstraction for a class that will track all of the towns
+ * The durable metadata for a town: everything that is needed to re-create the town after
+ * the server restarts. Transient state (players, interactable occupants) is not included.
+ */
+export interface TownRecord {
+  townID: string;
+  friendlyName: string;
+  isPubliclyListed: boolean;
+  /** A hash of the town update password, @see hashPassword */
+  townUpdatePasswordHash: string;
+  /**
+   * The Tiled map file on the server that the town's interactables were created from, absent for
+   * towns that were created from a map in the map library
+   */
+  mapFile?: string;
+  /** The ID of the map in the map library that the town was created from, @see MapLibrary */
+  mapID?: string;
+  /** The maximum number of players in the town, absent for towns that use the default capacity */
+  capacity?: number;
+  /** The permissions granted to each role, absent for roles that use the default permissions */
+  rolePermissions?: Partial<Record<PlayerRole, TownPermission[]>>;
+  /** How many chat messages the town keeps, and for how long, absent for towns that use the default */
+  chatRetention?: ChatRetention;
+}
+
+/**
+ * An abstraction for a storage backend that will track all of the towns, so that
+ * they can be restored when the server restarts
  */
 export default interface ITownsStore {
   /**
-   * Retrieve the Town for a given town ID. If no town exists,
-   * this method should create one.
+   * Retrieve all of the towns that have been saved in this store
+   */
+  getAllTowns(): Promise<TownRecord[]>;
+
+  /**
+   * Save a town to this store, replacing any existing record with the same townID
+   *
+   * @param town the town to save
+   */
+  putTown(town: TownRecord): Promise<void>;
+
+  /**
+   * Remove a town from this store. Does nothing if there is no such town.
    *
-   * @param townID the ID of the requested town
+   * @param townID the ID of the town to remove
    */
-  getTownByID(townID: string): Town;
+  deleteTown(townID: string): Promise<void>;
 }
@@ -0,0 +1,21 @@
+import ITownsStore, { TownRecord } from './ITownsStore';
+
+/**
+ * A towns store that keeps all town records in memory. Towns stored here do not survive a
+ * restart of the server.
+ */
+export default class InMemoryTownsStore implements ITownsStore {
+  private _towns: Map<string, TownRecord> = new Map();
+
+  async getAllTowns(): Promise<TownRecord[]> {
+    return [...this._towns.values()].map(town => ({ ...town }));
+  }
+
+  async putTown(town: TownRecord): Promise<void> {
+    this._towns.set(town.townID, { ...town });
+  }
+
+  async deleteTown(townID: string): Promise<void> {
+    this._towns.delete(townID);
+  }
+}
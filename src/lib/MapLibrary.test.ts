@@ -0,0 +1,100 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { MAX_MAP_TILES } from '../town/CollisionGrid';
+import MapLibrary, { InvalidMapError, MAX_MAP_SIZE_BYTES } from './MapLibrary';
+
+/** A small valid map, with a single conversation area */
+function createMapForTesting(name = 'Conversation', width = 20, height = 10) {
+  return {
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilewidth: 32,
+    width,
+    height,
+    tilesets: [],
+    type: 'map',
+    layers: [
+      {
+        id: 1,
+        name: 'Objects',
+        type: 'objectgroup',
+        objects: [
+          { id: 1, name: 'Spawn Point', type: '', x: 10, y: 10, width: 0, height: 0 },
+          { id: 2, name, type: 'ConversationArea', x: 100, y: 100, width: 100, height: 100 },
+        ].map(eachObject => ({ rotation: 0, visible: true, ...eachObject })),
+        opacity: 1,
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+  };
+}
+
+describe('MapLibrary', () => {
+  let tmpDir: string;
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'maps-'));
+  });
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true });
+  });
+  it('Identifies maps by their contents', async () => {
+    const library = new MapLibrary();
+    const mapID = await library.addMap(createMapForTesting());
+    expect(mapID).toMatch(/^[0-9a-f]{64}$/);
+    expect(await library.addMap(createMapForTesting())).toEqual(mapID);
+    expect(await library.addMap(createMapForTesting('Other'))).not.toEqual(mapID);
+    const map = await library.getMap(mapID);
+    expect(map?.layers[0].name).toEqual('Objects');
+  });
+  it('Converts TMX maps to JSON before storing them', async () => {
+    const library = new MapLibrary(tmpDir);
+    const tmxMapID = await library.addMap(await fs.readFile('testData/indoors.tmx', 'utf-8'));
+    const jsonMapID = await library.addMap(
+      JSON.parse(await fs.readFile('testData/indoors.json', 'utf-8')),
+    );
+    expect(await new MapLibrary(tmpDir).getMap(tmxMapID)).toEqual(await library.getMap(jsonMapID));
+    await expect(library.addMap('<map><layer></map>')).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringMatching(/Malformed TMX/),
+    });
+  });
+  it('Returns undefined for maps that are not in the library', async () => {
+    const library = new MapLibrary(tmpDir);
+    expect(await library.getMap('a'.repeat(64))).toBeUndefined();
+    expect(await library.getMap('../towns')).toBeUndefined();
+  });
+  it('Stores maps in its directory, so that they survive a restart', async () => {
+    const directory = path.join(tmpDir, 'nested');
+    const mapID = await new MapLibrary(directory).addMap(createMapForTesting());
+    expect(await fs.readdir(directory)).toEqual([`${mapID}.json`]);
+    const reopened = new MapLibrary(directory);
+    expect(await reopened.getMap(mapID)).toBeDefined();
+    expect(await new MapLibrary().getMap(mapID)).toBeUndefined();
+  });
+  it('Rejects invalid maps with the problems found in them', async () => {
+    const library = new MapLibrary(tmpDir);
+    const map = createMapForTesting();
+    map.layers[0].objects.push({ ...map.layers[0].objects[1], id: 3, x: 150 });
+    const promise = library.addMap(map);
+    await expect(promise).rejects.toThrow(InvalidMapError);
+    await expect(promise).rejects.toMatchObject({
+      status: 400,
+      issues: [
+        expect.objectContaining({ message: expect.stringMatching(/Duplicate area name/) }),
+        expect.objectContaining({ message: expect.stringMatching(/overlaps/) }),
+      ],
+    });
+    await expect(library.addMap(undefined)).rejects.toThrow(InvalidMapError);
+    expect(await fs.readdir(tmpDir)).toEqual([]);
+  });
+  it('Rejects maps that are too large', async () => {
+    const library = new MapLibrary();
+    const tooManyBytes = createMapForTesting('x'.repeat(MAX_MAP_SIZE_BYTES));
+    await expect(library.addMap(tooManyBytes)).rejects.toMatchObject({ status: 413 });
+    const tooManyTiles = createMapForTesting('Conversation', MAX_MAP_TILES, 2);
+    await expect(library.addMap(tooManyTiles)).rejects.toMatchObject({ status: 413 });
+  });
+});
@@ -0,0 +1,139 @@
+import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MapValidationIssue } from '../api/Model';
+import { MAX_MAP_TILES } from '../town/CollisionGrid';
+import validateMap from '../town/MapValidator';
+import { tmxToJson } from '../town/TmxParser';
+import InvalidParametersError from './InvalidParametersError';
+
+/** The largest map (in bytes of JSON) that may be uploaded */
+export const MAX_MAP_SIZE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * @throws InvalidMapError if the contents of a map are larger than MAX_MAP_SIZE_BYTES
+ */
+function checkSize(contents: string) {
+  if (Buffer.byteLength(contents, 'utf-8') > MAX_MAP_SIZE_BYTES) {
+    throw new InvalidMapError(`Map must be at most ${MAX_MAP_SIZE_BYTES} bytes`, [], 413);
+  }
+}
+
+/** Map IDs are the hex-encoded SHA-256 hash of the map's contents */
+const MAP_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Thrown when an uploaded map is rejected. Carries the HTTP status to respond with, and the
+ * problems that the map validator found in the map (if any).
+ */
+export class InvalidMapError extends InvalidParametersError {
+  public readonly status: number;
+
+  public readonly issues: MapValidationIssue[];
+
+  public constructor(message: string, issues: MapValidationIssue[] = [], status = 400) {
+    super(message);
+    this.status = status;
+    this.issues = issues;
+  }
+}
+
+/**
+ * A library of Tiled maps that have been uploaded by town creators, from which towns can be created.
+ *
+ * Maps are validated when they are added, and are identified by a hash of their contents, so adding
+ * the same map twice results in the same map ID (and only one copy of the map). If a directory is
+ * given, each map is stored there as `<mapID>.json`, so that the library survives a restart of the
+ * server; otherwise maps are only kept in memory.
+ */
+export default class MapLibrary {
+  private readonly _directory?: string;
+
+  private _maps: Map<string, ITiledMap> = new Map();
+
+  /**
+   * @param directory the directory to store maps in, which is created when the first map is added
+   *  if it does not yet exist. If not given, maps do not survive a restart.
+   */
+  public constructor(directory?: string) {
+    this._directory = directory;
+  }
+
+  /**
+   * Validates a map and adds it to this library
+   *
+   * @param data the parsed contents of a JSON map file, or the contents of a TMX (XML) map file. TMX
+   *  maps are converted to JSON, and stored (and identified) as JSON.
+   * @returns the ID of the map, with which towns can be created from it
+   * @throws InvalidMapError if the map is too large, or is not a valid map
+   */
+  async addMap(data: unknown): Promise<string> {
+    let mapData = data;
+    if (typeof data === 'string') {
+      checkSize(data);
+      try {
+        mapData = tmxToJson(data);
+      } catch (e) {
+        throw new InvalidMapError((e as Error).message);
+      }
+    }
+    const contents = JSON.stringify(mapData);
+    if (contents === undefined) {
+      throw new InvalidMapError('No map specified');
+    }
+    checkSize(contents);
+    const mapID = createHash('sha256').update(contents).digest('hex');
+    if (await this.getMap(mapID)) {
+      return mapID;
+    }
+    // Reject maps with too many tiles before building their collision grids to validate them
+    const parsed = ITiledMap.safeParse(mapData);
+    if (parsed.success && (parsed.data.width ?? 0) * (parsed.data.height ?? 0) > MAX_MAP_TILES) {
+      throw new InvalidMapError(`Map must have at most ${MAX_MAP_TILES} tiles`, [], 413);
+    }
+    const { isValid, issues } = validateMap(mapData);
+    if (!isValid || !parsed.success) {
+      throw new InvalidMapError(
+        'Map is not valid',
+        issues.filter(eachIssue => eachIssue.severity === 'error'),
+      );
+    }
+    const map = parsed.data;
+    if (this._directory) {
+      await fs.mkdir(this._directory, { recursive: true });
+      await fs.writeFile(this._mapPath(mapID), contents, 'utf-8');
+    }
+    this._maps.set(mapID, map);
+    return mapID;
+  }
+
+  /**
+   * @returns the map with the given ID, or undefined if there is no such map in this library
+   */
+  async getMap(mapID: string): Promise<ITiledMap | undefined> {
+    if (!MAP_ID_PATTERN.test(mapID)) {
+      return undefined;
+    }
+    const cached = this._maps.get(mapID);
+    if (cached || !this._directory) {
+      return cached;
+    }
+    let contents: string;
+    try {
+      contents = await fs.readFile(this._mapPath(mapID), 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw err;
+    }
+    const map = ITiledMap.parse(JSON.parse(contents));
+    this._maps.set(mapID, map);
+    return map;
+  }
+
+  private _mapPath(mapID: string): string {
+    return path.join(this._directory ?? '', `${mapID}.json`);
+  }
+}
@@ -0,0 +1,141 @@
+import { MediaMetadata } from '../types/CoveyTownSocket';
+import { logError } from '../Utils';
+import IMediaMetadataResolver from './IMediaMetadataResolver';
+import InvalidParametersError from './InvalidParametersError';
+
+/** The hosts that videos may be played from, unless configured otherwise */
+export const DEFAULT_ALLOWED_HOSTS = ['youtube.com', 'youtu.be', 'vimeo.com'];
+
+/** The longest title that is shown for a video; longer titles are truncated */
+export const MAX_TITLE_LENGTH = 200;
+
+/** The paths of YouTube URLs that end with the ID of a video, other than /watch?v= */
+const YOUTUBE_VIDEO_PATH = /^\/(?:shorts|embed|live|v)\/([\w-]{11})\/?$/;
+
+const YOUTUBE_VIDEO_ID = /^[\w-]{11}$/;
+
+export type MediaPolicyOptions = {
+  /** Videos may be played from these hosts, and from their subdomains */
+  allowedHosts?: string[];
+  /** Looks up the title and length of videos. Without a resolver, videos have no metadata. */
+  resolver?: IMediaMetadataResolver;
+};
+
+/**
+ * @returns the ID of the video that a YouTube URL links to, or undefined if it is not a link to a
+ *  single video
+ */
+function youTubeVideoID(url: URL, hostname: string): string | undefined {
+  if (hostname === 'youtu.be') {
+    const id = url.pathname.slice(1);
+    return YOUTUBE_VIDEO_ID.test(id) ? id : undefined;
+  }
+  if (hostname !== 'youtube.com' && !hostname.endsWith('.youtube.com')) {
+    return undefined;
+  }
+  if (url.pathname === '/watch') {
+    const id = url.searchParams.get('v') ?? '';
+    return YOUTUBE_VIDEO_ID.test(id) ? id : undefined;
+  }
+  return YOUTUBE_VIDEO_PATH.exec(url.pathname)?.[1];
+}
+
+/**
+ * Decides which videos may be played in viewing areas, and normalizes their URLs, so that the same
+ * video is identified by the same URL however a player pasted it. Also resolves the metadata (title
+ * and length) of videos through a pluggable resolver.
+ */
+export default class MediaPolicy {
+  private readonly _allowedHosts: string[];
+
+  private readonly _resolver?: IMediaMetadataResolver;
+
+  public constructor({ allowedHosts = DEFAULT_ALLOWED_HOSTS, resolver }: MediaPolicyOptions = {}) {
+    this._allowedHosts = allowedHosts
+      .map(eachHost => eachHost.trim().toLowerCase())
+      .filter(eachHost => eachHost.length > 0);
+    this._resolver = resolver;
+  }
+
+  get allowedHosts(): string[] {
+    return this._allowedHosts;
+  }
+
+  /**
+   * @returns true if videos may be played from the host: it is an allowed host, or a subdomain of one
+   */
+  public isAllowedHost(hostname: string): boolean {
+    return this._allowedHosts.some(
+      eachHost => hostname === eachHost || hostname.endsWith(`.${eachHost}`),
+    );
+  }
+
+  /**
+   * Checks that a video may be played, and normalizes its URL. Links to YouTube videos (including
+   * youtu.be, shorts and embed links) become https://www.youtube.com/watch?v=<id>; other URLs are
+   * changed to https, and lose any credentials, port, fragment and utm_ tracking parameters.
+   *
+   * @param video the URL of the video, as given by a player
+   * @returns the normalized URL
+   * @throws InvalidParametersError if the video is not an http or https URL, or is not from an
+   *  allowed host
+   */
+  public normalizeURL(video: string): string {
+    let url: URL;
+    try {
+      url = new URL(video.trim());
+    } catch (err) {
+      throw new InvalidParametersError('Video must be a URL');
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new InvalidParametersError('Video must be an http or https URL');
+    }
+    const hostname = url.hostname.replace(/\.$/, '');
+    if (!this.isAllowedHost(hostname)) {
+      throw new InvalidParametersError(`Videos from ${hostname} are not allowed`);
+    }
+    const youTubeID = youTubeVideoID(url, hostname);
+    if (youTubeID) {
+      return `https://www.youtube.com/watch?v=${youTubeID}`;
+    }
+    url.protocol = 'https:';
+    url.hostname = hostname;
+    url.username = '';
+    url.password = '';
+    url.port = '';
+    url.hash = '';
+    [...url.searchParams.keys()]
+      .filter(eachKey => eachKey.startsWith('utm_'))
+      .forEach(eachKey => url.searchParams.delete(eachKey));
+    return url.toString();
+  }
+
+  /**
+   * Looks up the title and length of a video. Metadata that the resolver could not find, or that is
+   * not sensible (such as a negative length), is left out, and titles are trimmed to MAX_TITLE_LENGTH.
+   *
+   * @param url the normalized URL of the video
+   * @returns the metadata of the video, which is empty if there is no resolver or the lookup failed
+   */
+  public async resolveMetadata(url: string): Promise<MediaMetadata> {
+    if (!this._resolver) {
+      return {};
+    }
+    let metadata: MediaMetadata;
+    try {
+      metadata = await this._resolver.resolve(url);
+    } catch (err) {
+      logError(err);
+      return {};
+    }
+    const title = typeof metadata.title === 'string' ? metadata.title.trim() : '';
+    const { durationSec } = metadata;
+    return {
+      title: title ? title.slice(0, MAX_TITLE_LENGTH) : undefined,
+      durationSec:
+        typeof durationSec === 'number' && Number.isFinite(durationSec) && durationSec > 0
+          ? durationSec
+          : undefined,
+    };
+  }
+}
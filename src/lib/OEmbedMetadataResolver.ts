@@ -0,0 +1,66 @@
+import * as https from 'https';
+import { MediaMetadata } from '../types/CoveyTownSocket';
+import IMediaMetadataResolver from './IMediaMetadataResolver';
+
+/** How long to wait for a video host to describe a video before giving up */
+const REQUEST_TIMEOUT_MS = 5000;
+
+/** The largest response (in bytes) that is accepted from an oEmbed endpoint */
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+/** The oEmbed endpoint of each video host that has one, by hostname (without www.) */
+const OEMBED_ENDPOINTS: Record<string, string> = {
+  'youtube.com': 'https://www.youtube.com/oembed',
+  'youtu.be': 'https://www.youtube.com/oembed',
+  'vimeo.com': 'https://vimeo.com/api/oembed.json',
+};
+
+function getJSON(url: string): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const request = https.get(url, { timeout: REQUEST_TIMEOUT_MS }, response => {
+      if (response.statusCode !== 200) {
+        response.resume();
+        reject(new Error(`${url} responded with status ${response.statusCode}`));
+        return;
+      }
+      let body = '';
+      response.setEncoding('utf-8');
+      response.on('data', (chunk: string) => {
+        body += chunk;
+        if (body.length > MAX_RESPONSE_BYTES) {
+          request.destroy(new Error(`${url} responded with too much data`));
+        }
+      });
+      response.on('end', () => {
+        try {
+          resolve(JSON.parse(body));
+        } catch (err) {
+          reject(err);
+        }
+      });
+    });
+    request.on('timeout', () => request.destroy(new Error(`${url} timed out`)));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Resolves the metadata of videos by asking the oEmbed endpoint (https://oembed.com) of the host of
+ * each video. YouTube provides only titles; Vimeo also provides durations. Videos from other hosts
+ * have no metadata.
+ */
+export default class OEmbedMetadataResolver implements IMediaMetadataResolver {
+  async resolve(url: string): Promise<MediaMetadata> {
+    const endpoint = OEMBED_ENDPOINTS[new URL(url).hostname.replace(/^www\./, '')];
+    if (!endpoint) {
+      return {};
+    }
+    const { title, duration } = (await getJSON(
+      `${endpoint}?format=json&url=${encodeURIComponent(url)}`,
+    )) as { title?: unknown; duration?: unknown };
+    return {
+      title: typeof title === 'string' ? title : undefined,
+      durationSec: typeof duration === 'number' ? duration : undefined,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 32;
+
+/**
+ * Hashes a secret (e.g. a town update password) so that it can be stored without retaining the
+ * plaintext. The returned string contains both the random salt and the derived key.
+ *
+ * @param password the plaintext secret to hash
+ * @returns a string of the form `salt:key`, both hex-encoded
+ */
+export function hashPassword(password: string): string {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  const key = scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `${salt}:${key}`;
+}
+
+/**
+ * Checks a plaintext secret against a hash that was produced by hashPassword
+ *
+ * @param password the plaintext secret provided by a client
+ * @param passwordHash the stored hash to compare against
+ * @returns true if the password matches the hash, false otherwise (including if the hash is malformed)
+ */
+export function verifyPassword(password: string, passwordHash: string): boolean {
+  const [salt, key] = passwordHash.split(':');
+  if (!salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'hex');
+  const actual = scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,162 @@
+import { PayloadIssue } from '../types/CoveyTownSocket';
+
+/**
+ * A runtime check that an untrusted value (e.g. the payload of a socket event) has the shape of type T.
+ *
+ * Returns the list of problems with the value, which is empty if the value is valid. The (never populated)
+ * _type property exists only so that the compiler can check that a validator matches the type it is meant to
+ * check: a Validator<string> is not assignable to a Validator<number>, or to a Validator<string | undefined>.
+ */
+export interface Validator<T> {
+  (value: unknown, path: string): PayloadIssue[];
+  readonly _type?: (value: T) => T;
+}
+
+function issue(path: string, message: string): PayloadIssue[] {
+  return [{ path, message }];
+}
+
+function typeName(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Runs a validator against a value, starting at the root of the value
+ *
+ * @returns the list of problems found, empty if the value is valid
+ */
+export function validate<T>(validator: Validator<T>, value: unknown): PayloadIssue[] {
+  return validator(value, '');
+}
+
+export function string(): Validator<string> {
+  return (value, path) =>
+    typeof value === 'string' ? [] : issue(path, `Expected a string, got ${typeName(value)}`);
+}
+
+export function boolean(): Validator<boolean> {
+  return (value, path) =>
+    typeof value === 'boolean' ? [] : issue(path, `Expected a boolean, got ${typeName(value)}`);
+}
+
+/**
+ * A number that is neither NaN nor infinite
+ */
+export function finiteNumber(): Validator<number> {
+  return (value, path) =>
+    typeof value === 'number' && Number.isFinite(value)
+      ? []
+      : issue(path, `Expected a finite number, got ${typeName(value)}`);
+}
+
+/**
+ * An integer between min and max (inclusive). Use for numeric literal unions such as 0 | 1 | 2.
+ */
+export function integerBetween<T extends number>(min: T, max: T): Validator<T> {
+  return (value, path) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+      ? []
+      : issue(path, `Expected an integer between ${min} and ${max}`);
+}
+
+/**
+ * One of the members of a string literal union. The members are given as the keys of a record so that the
+ * compiler checks that every member of the union (and nothing else) is listed.
+ */
+export function oneOf<T extends string>(members: Record<T, true>): Validator<T> {
+  const allowed = Object.keys(members);
+  return (value, path) =>
+    typeof value === 'string' && allowed.includes(value)
+      ? []
+      : issue(path, `Expected one of ${allowed.map(each => `'${each}'`).join(', ')}`);
+}
+
+/**
+ * Accepts undefined in addition to any value accepted by the given validator
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, path) => (value === undefined ? [] : validator(value, path));
+}
+
+export function arrayOf<T>(validator: Validator<T>): Validator<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return issue(path, `Expected an array, got ${typeName(value)}`);
+    }
+    return value.flatMap((eachValue, index) => validator(eachValue, `${path}[${index}]`));
+  };
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * An object with (at least) the given properties. Every property of T must have a validator.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> {
+  return (value, path) => {
+    if (!isRecord(value)) {
+      return issue(path, `Expected an object, got ${typeName(value)}`);
+    }
+    return (Object.keys(shape) as (keyof T & string)[]).flatMap(key =>
+      shape[key](value[key], joinPath(path, key)),
+    );
+  };
+}
+
+/**
+ * A union of object types that are distinguished by the value of a discriminant property. Every member
+ * of the union must have a validator, keyed by its value for the discriminant.
+ */
+export function discriminated<T extends Record<D, string>, D extends keyof T & string>(
+  discriminant: D,
+  members: { [K in T[D]]: Validator<Extract<T, Record<D, K>>> },
+): Validator<T> {
+  const discriminantValidator = oneOf(
+    Object.fromEntries(Object.keys(members).map(key => [key, true])) as Record<T[D], true>,
+  );
+  return (value, path) => {
+    if (!isRecord(value)) {
+      return issue(path, `Expected an object, got ${typeName(value)}`);
+    }
+    const discriminantIssues = discriminantValidator(
+      value[discriminant],
+      joinPath(path, discriminant),
+    );
+    if (discriminantIssues.length > 0) {
+      return discriminantIssues;
+    }
+    return members[value[discriminant] as T[D]](value, path);
+  };
+}
+
+/**
+ * A value that is accepted by any one of the given validators. If none of them accept it, the problems
+ * reported by the validator that found the fewest problems are returned.
+ */
+export function anyOf<T extends unknown[]>(
+  ...validators: { [K in keyof T]: Validator<T[K]> }
+): Validator<T[number]> {
+  return (value, path) => {
+    const results = validators.map(validator => validator(value, path));
+    return results.reduce((best, each) => (each.length < best.length ? each : best));
+  };
+}
+
+/**
+ * Combines validators that must all accept the value, e.g. to check the properties of an intersection type
+ */
+export function allOf<A, B>(first: Validator<A>, second: Validator<B>): Validator<A & B> {
+  return (value, path) => first(value, path).concat(second(value, path));
+}
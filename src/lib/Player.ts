@@ -1,5 +1,15 @@
 import { nanoid } from 'nanoid';
-import { Player as PlayerModel, PlayerLocation, TownEmitter } from '../types/CoveyTownSocket';
+import {
+  Player as PlayerModel,
+  PlayerLocation,
+  PlayerRole,
+  TownEmitter,
+} from '../types/CoveyTownSocket';
+
+/**
+ * The role that players are given when they join a town, unless they join as its owner
+ */
+export const DEFAULT_PLAYER_ROLE: PlayerRole = 'member';
 
 /**
  * Each user who is connected to a town is represented by a Player object
@@ -20,20 +30,29 @@ export default class Player {
   /** The secret token that allows this client to access our video resources for this town * */
   private _videoToken?: string;
 
+  /** The player's role in the town, which determines what they are permitted to do * */
+  private _role: PlayerRole;
+
   /** A special town emitter that will emit events to the entire town BUT NOT to this player */
-  public readonly townEmitter: TownEmitter;
+  private _townEmitter: TownEmitter;
 
-  constructor(userName: string, townEmitter: TownEmitter) {
+  constructor(
+    userName: string,
+    townEmitter: TownEmitter,
+    role: PlayerRole = DEFAULT_PLAYER_ROLE,
+    spawnPoint: { x: number; y: number } = { x: 0, y: 0 },
+  ) {
     this.location = {
-      x: 0,
-      y: 0,
+      x: spawnPoint.x,
+      y: spawnPoint.y,
       moving: false,
       rotation: 'front',
     };
     this._userName = userName;
     this._id = nanoid();
     this._sessionToken = nanoid();
-    this.townEmitter = townEmitter;
+    this._townEmitter = townEmitter;
+    this._role = role;
   }
 
   get userName(): string {
@@ -44,6 +63,14 @@ export default class Player {
     return this._id;
   }
 
+  set role(value: PlayerRole) {
+    this._role = value;
+  }
+
+  get role(): PlayerRole {
+    return this._role;
+  }
+
   set videoToken(value: string | undefined) {
     this._videoToken = value;
   }
@@ -52,6 +79,18 @@ export default class Player {
     return this._videoToken;
   }
 
+  /**
+   * The emitter is bound to the player's socket, so it is replaced when the player resumes their
+   * session on a new socket
+   */
+  set townEmitter(value: TownEmitter) {
+    this._townEmitter = value;
+  }
+
+  get townEmitter(): TownEmitter {
+    return this._townEmitter;
+  }
+
   get sessionToken(): string {
     return this._sessionToken;
   }
@@ -61,6 +100,7 @@ export default class Player {
       id: this._id,
       location: this.location,
       userName: this._userName,
+      role: this._role,
     };
   }
 }
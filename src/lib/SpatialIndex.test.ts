@@ -0,0 +1,118 @@
+import { BoundingBox } from '../types/CoveyTownSocket';
+import SpatialIndex from './SpatialIndex';
+
+function intersectsForTesting(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height
+  );
+}
+
+describe('SpatialIndex', () => {
+  let index: SpatialIndex<string>;
+  beforeEach(() => {
+    index = new SpatialIndex(100);
+  });
+  it('Finds items whose bounding boxes intersect the region', () => {
+    index.insert('small', { x: 10, y: 10, width: 10, height: 10 });
+    index.insert('large', { x: 50, y: 50, width: 500, height: 300 });
+    index.insert('far', { x: 1000, y: 1000, width: 10, height: 10 });
+    expect(index.search({ x: 0, y: 0, width: 60, height: 60 }).sort()).toEqual(['large', 'small']);
+    expect(index.search({ x: 400, y: 300, width: 10, height: 10 })).toEqual(['large']);
+    expect(index.search({ x: 600, y: 600, width: 10, height: 10 })).toEqual([]);
+  });
+  it('Finds items whose bounding boxes contain a point, including at their edges', () => {
+    index.insert('box', { x: 10, y: 10, width: 10, height: 10 });
+    expect(index.searchPoint(15, 15)).toEqual(['box']);
+    expect(index.searchPoint(20, 10)).toEqual(['box']);
+    expect(index.searchPoint(21, 10)).toEqual([]);
+  });
+  it('Handles items and regions at negative coordinates', () => {
+    index.insert('box', { x: -150, y: -150, width: 100, height: 100 });
+    expect(index.searchPoint(-100, -100)).toEqual(['box']);
+    expect(index.searchPoint(100, 100)).toEqual([]);
+  });
+  it('Moves an item that is inserted again', () => {
+    index.insert('item', { x: 10, y: 10, width: 0, height: 0 });
+    index.insert('item', { x: 500, y: 500, width: 0, height: 0 });
+    expect(index.size).toBe(1);
+    expect(index.searchPoint(10, 10)).toEqual([]);
+    expect(index.searchPoint(500, 500)).toEqual(['item']);
+  });
+  it('Removes items', () => {
+    index.insert('item', { x: 10, y: 10, width: 300, height: 300 });
+    index.remove('item');
+    index.remove('not in the index');
+    expect(index.size).toBe(0);
+    expect(index.search({ x: 0, y: 0, width: 1000, height: 1000 })).toEqual([]);
+  });
+  it('Rejects a cell size that is not positive', () => {
+    expect(() => new SpatialIndex(0)).toThrowError();
+  });
+  describe('Benchmark', () => {
+    // A campus-sized map (400 x 400 tiles) with thousands of areas and players
+    const mapSize = 400 * 32;
+    const numAreas = 5000;
+    const numPlayers = 5000;
+    let nextRandom = 1;
+    // A deterministic pseudo-random number generator, so that the benchmark is repeatable
+    const random = () => {
+      nextRandom = (nextRandom * 16807) % 2147483647;
+      return nextRandom / 2147483647;
+    };
+    const areas: BoundingBox[] = Array.from({ length: numAreas }, () => ({
+      x: random() * mapSize,
+      y: random() * mapSize,
+      width: 32 + random() * 200,
+      height: 32 + random() * 200,
+    }));
+    const players: BoundingBox[] = Array.from({ length: numPlayers }, () => ({
+      x: random() * mapSize,
+      y: random() * mapSize,
+      width: 0,
+      height: 0,
+    }));
+    it('Finds the same areas as a linear scan, testing far fewer of them', () => {
+      const areaIndex = new SpatialIndex<BoundingBox>();
+      areas.forEach(area => areaIndex.insert(area, area));
+
+      const linearResults = players.map(player =>
+        areas.filter(area => intersectsForTesting(area, player)),
+      );
+      const indexedResults = players.map(player => areaIndex.searchPoint(player.x, player.y));
+      indexedResults.forEach((result, i) =>
+        expect(new Set(result)).toEqual(new Set(linearResults[i])),
+      );
+
+      // A linear scan tests every area for every player
+      const candidates = players.reduce(
+        (total, player) => total + areaIndex.candidates(player).length,
+        0,
+      );
+      expect(candidates).toBeLessThan((numAreas * numPlayers) / 100);
+    });
+    it('Keeps finding nearby players as every player moves', () => {
+      const playerIndex = new SpatialIndex<BoundingBox>();
+      players.forEach(player => playerIndex.insert(player, player));
+      for (let step = 0; step < 10; step++) {
+        players.forEach(player => {
+          player.x = Math.min(Math.max(player.x + (random() - 0.5) * 64, 0), mapSize);
+          player.y = Math.min(Math.max(player.y + (random() - 0.5) * 64, 0), mapSize);
+          playerIndex.insert(player, player);
+        });
+      }
+      expect(playerIndex.size).toBe(numPlayers);
+      const searchedAreas = areas.slice(0, 100);
+      searchedAreas.forEach(area =>
+        expect(new Set(playerIndex.search(area))).toEqual(
+          new Set(players.filter(player => intersectsForTesting(area, player))),
+        ),
+      );
+      // Players are only recorded in the cells that they are in now, not those they moved through
+      const candidates = searchedAreas.reduce(
+        (total, area) => total + playerIndex.candidates(area).length,
+        0,
+      );
+      expect(candidates).toBeLessThan((searchedAreas.length * numPlayers) / 100);
+    });
+  });
+});
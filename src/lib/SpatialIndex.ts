@@ -0,0 +1,135 @@
+import { BoundingBox } from '../types/CoveyTownSocket';
+
+/** The width and height (in pixels) of each cell of a SpatialIndex, unless configured otherwise */
+export const DEFAULT_CELL_SIZE = 256;
+
+/**
+ * @returns true if the two boxes intersect, including if they only touch at their edges
+ */
+function intersects(a: BoundingBox, b: BoundingBox): boolean {
+  return (
+    a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height
+  );
+}
+
+/**
+ * An index of items by their location on the map, which finds the items whose bounding boxes
+ * intersect a region without examining every item.
+ *
+ * The map is divided into a uniform grid of square cells, and each item is recorded in every cell that
+ * its bounding box touches. A search only examines the items in the cells that the searched region
+ * touches. Searches return every item whose bounding box intersects the region (including those
+ * that only touch it), so callers that need a stricter test should apply it to the results.
+ */
+export default class SpatialIndex<T> {
+  private readonly _cellSize: number;
+
+  /** The items in each cell, keyed by the cell's column and row */
+  private _cells: Map<string, Set<T>> = new Map();
+
+  private _boundingBoxes: Map<T, BoundingBox> = new Map();
+
+  /** The number of items in this index */
+  public get size(): number {
+    return this._boundingBoxes.size;
+  }
+
+  public constructor(cellSize = DEFAULT_CELL_SIZE) {
+    if (!(cellSize > 0)) {
+      throw new Error('Cell size must be positive');
+    }
+    this._cellSize = cellSize;
+  }
+
+  /**
+   * Adds an item to this index, or moves it if it is already in this index
+   *
+   * @param item the item to add
+   * @param boundingBox the region that the item occupies. A point can be given as a box with no width
+   *  or height.
+   */
+  public insert(item: T, boundingBox: BoundingBox): void {
+    this.remove(item);
+    this._boundingBoxes.set(item, { ...boundingBox });
+    this._cellKeys(boundingBox).forEach(key => {
+      let cell = this._cells.get(key);
+      if (!cell) {
+        cell = new Set();
+        this._cells.set(key, cell);
+      }
+      cell.add(item);
+    });
+  }
+
+  /**
+   * Removes an item from this index. Does nothing if the item is not in this index.
+   */
+  public remove(item: T): void {
+    const boundingBox = this._boundingBoxes.get(item);
+    if (!boundingBox) {
+      return;
+    }
+    this._boundingBoxes.delete(item);
+    this._cellKeys(boundingBox).forEach(key => {
+      const cell = this._cells.get(key);
+      cell?.delete(item);
+      if (cell?.size === 0) {
+        this._cells.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Removes every item from this index
+   */
+  public clear(): void {
+    this._cells.clear();
+    this._boundingBoxes.clear();
+  }
+
+  /**
+   * @returns every item whose bounding box intersects the region, each exactly once
+   */
+  public search(region: BoundingBox): T[] {
+    return this.candidates(region).filter(item => {
+      const boundingBox = this._boundingBoxes.get(item);
+      return boundingBox !== undefined && intersects(boundingBox, region);
+    });
+  }
+
+  /**
+   * @returns every item in the cells that the region touches, each exactly once: the items that a
+   *  search of the region tests for intersection with it
+   */
+  public candidates(region: BoundingBox): T[] {
+    const found = new Set<T>();
+    this._cellKeys(region).forEach(key => {
+      this._cells.get(key)?.forEach(item => found.add(item));
+    });
+    return [...found];
+  }
+
+  /**
+   * @returns every item whose bounding box contains the point
+   */
+  public searchPoint(x: number, y: number): T[] {
+    return this.search({ x, y, width: 0, height: 0 });
+  }
+
+  /**
+   * @returns the keys of the cells that a region touches
+   */
+  private _cellKeys({ x, y, width, height }: BoundingBox): string[] {
+    const firstColumn = Math.floor(x / this._cellSize);
+    const lastColumn = Math.floor((x + width) / this._cellSize);
+    const firstRow = Math.floor(y / this._cellSize);
+    const lastRow = Math.floor((y + height) / this._cellSize);
+    const keys: string[] = [];
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      for (let row = firstRow; row <= lastRow; row++) {
+        keys.push(`${column},${row}`);
+      }
+    }
+    return keys;
+  }
+}
@@ -1,11 +1,26 @@
+import assert from 'assert';
 import { ITiledMap } from '@jonbell/tiled-map-type-guard';
 import * as fs from 'fs/promises';
-import { customAlphabet } from 'nanoid';
+import { customAlphabet, nanoid } from 'nanoid';
+import { ChatRetention } from '../api/Model';
+import ChatLog from '../town/ChatLog';
+import RolePermissions from '../town/RolePermissions';
+import parseTmx, { TMX_EXTENSION } from '../town/TmxParser';
 import Town from '../town/Town';
-import { TownEmitterFactory } from '../types/CoveyTownSocket';
+import { PlayerRole, TownEmitterFactory, TownPermission } from '../types/CoveyTownSocket';
+import { logError } from '../Utils';
+import IChatLogStore from './IChatLogStore';
+import InMemoryTownsStore from './InMemoryTownsStore';
+import InvalidParametersError from './InvalidParametersError';
+import ITownsStore, { TownRecord } from './ITownsStore';
+import MapLibrary from './MapLibrary';
+import MediaPolicy from './MediaPolicy';
+import { hashPassword, verifyPassword } from './PasswordHash';
 
-function passwordMatches(provided: string, expected: string): boolean {
-  if (provided === expected) {
+export const DEFAULT_MAP_FILE = '../frontend/public/assets/tilemaps/indoors.json';
+
+function passwordMatches(provided: string, expectedHash: string): boolean {
+  if (verifyPassword(provided, expectedHash)) {
     return true;
   }
   if (process.env.MASTER_TOWN_PASSWORD && process.env.MASTER_TOWN_PASWORD === provided) {
@@ -14,8 +29,15 @@ function passwordMatches(provided: string, expected: string): boolean {
   return false;
 }
 
+function isValidCapacity(capacity: number): boolean {
+  return Number.isInteger(capacity) && capacity >= 1;
+}
+
 const friendlyNanoID = customAlphabet('1234567890ABCDEF', 8);
 
+/** Where the map of a town was loaded from */
+type TownMapSource = Pick<TownRecord, 'mapFile' | 'mapID'>;
+
 export type TownList = {
   friendlyName: string;
   townID: string;
@@ -28,10 +50,51 @@ export default class TownsStore {
 
   private _towns: Town[] = [];
 
+  /** The map that each town was created from, needed to persist the town * */
+  private _mapSources: Map<string, TownMapSource> = new Map();
+
   private _emitterFactory: TownEmitterFactory;
 
-  static initializeTownsStore(emitterFactory: TownEmitterFactory) {
-    TownsStore._instance = new TownsStore(emitterFactory);
+  private _backingStore: ITownsStore;
+
+  private _mapLibrary: MapLibrary;
+
+  private _mediaPolicy: MediaPolicy;
+
+  private _chatLogStore?: IChatLogStore;
+
+  /** The library of uploaded maps that towns can be created from */
+  get mapLibrary(): MapLibrary {
+    return this._mapLibrary;
+  }
+
+  /**
+   * Initializes the singleton TownsStore
+   *
+   * @param emitterFactory factory that creates a broadcast emitter for a town
+   * @param backingStore storage backend that towns are persisted to, defaults to an in-memory store
+   *  (which does not survive a restart)
+   * @param mapLibrary library of uploaded maps, defaults to one that keeps maps in memory (and so
+   *  does not survive a restart)
+   * @param mediaPolicy the videos that may be played in the viewing areas of every town, defaults to
+   *  those from DEFAULT_ALLOWED_HOSTS, without metadata
+   * @param chatLogStore storage backend that the chat log of each town is saved to. If not specified,
+   *  chat logs are kept only in memory (and so do not survive a restart)
+   */
+  static initializeTownsStore(
+    emitterFactory: TownEmitterFactory,
+    backingStore: ITownsStore = new InMemoryTownsStore(),
+    mapLibrary: MapLibrary = new MapLibrary(),
+    mediaPolicy: MediaPolicy = new MediaPolicy(),
+    chatLogStore?: IChatLogStore,
+  ) {
+    TownsStore._instance = new TownsStore(
+      emitterFactory,
+      backingStore,
+      mapLibrary,
+      mediaPolicy,
+      chatLogStore,
+    );
   }
 
   /**
@@ -46,8 +109,40 @@ export default class TownsStore {
     return TownsStore._instance;
   }
 
-  private constructor(emitterFactory: TownEmitterFactory) {
+  private constructor(
+    emitterFactory: TownEmitterFactory,
+    backingStore: ITownsStore,
+    mapLibrary: MapLibrary,
+    mediaPolicy: MediaPolicy,
+    chatLogStore?: IChatLogStore,
+  ) {
     this._emitterFactory = emitterFactory;
+    this._backingStore = backingStore;
+    this._mapLibrary = mapLibrary;
+    this._mediaPolicy = mediaPolicy;
+    this._chatLogStore = chatLogStore;
+  }
+
+  /**
+   * Re-creates every town that was saved in the backing store, so that towns (and their IDs and
+   * update passwords) survive a restart of the server. Towns whose map can no longer be loaded are
+   * logged and skipped.
+   *
+   * @returns the towns that were restored
+   */
+  async rehydrateTowns(): Promise<Town[]> {
+    const records = (await this._backingStore.getAllTowns()).filter(
+      record => !this.getTownByID(record.townID),
+    );
+    const restored = await Promise.all(
+      records.map(record =>
+        this._instantiateTown(record).catch(err => {
+          logError(err);
+          return undefined;
+        }),
+      ),
+    );
+    return restored.filter((town): town is Town => town !== undefined);
   }
 
   /**
@@ -76,25 +171,43 @@ export default class TownsStore {
 
   /**
    * Creates a new town, registering it in the Town Store, and returning that new town
+   * along with the (plaintext) password that is needed to update or delete it. Only a hash of the
+   * password is retained.
    * @param friendlyName
    * @param isPubliclyListed
-   * @returns the new town controller
+   * @param mapID the ID of the map in the map library to create the town from. If not specified, the
+   *  town is created from the default map (DEFAULT_MAP_FILE)
+   * @param capacity the maximum number of players in the town, defaults to DEFAULT_TOWN_CAPACITY
+   * @returns the new town controller and its update password
+   * @throws InvalidParametersError if there is no map with the given ID in the map library
    */
   async createTown(
     friendlyName: string,
     isPubliclyListed: boolean,
-    mapFile = '../frontend/public/assets/tilemaps/indoors.json',
-  ): Promise<Town> {
+    mapID?: string,
+    capacity?: number,
+  ): Promise<{ town: Town; townUpdatePassword: string }> {
     if (friendlyName.length === 0) {
       throw new Error('FriendlyName must be specified');
     }
+    if (capacity !== undefined && !isValidCapacity(capacity)) {
+      throw new Error('Capacity must be a positive integer');
+    }
+    if (mapID !== undefined && !(await this._mapLibrary.getMap(mapID))) {
+      throw new InvalidParametersError(`No map with ID ${mapID} in the map library`);
+    }
     const townID = process.env.DEMO_TOWN_ID === friendlyName ? friendlyName : friendlyNanoID();
-    const newTown = new Town(friendlyName, isPubliclyListed, townID, this._emitterFactory(townID));
-    const data = JSON.parse(await fs.readFile(mapFile, 'utf-8'));
-    const map = ITiledMap.parse(data);
-    newTown.initializeFromMap(map);
-    this._towns.push(newTown);
-    return newTown;
+    const townUpdatePassword = nanoid(24);
+    const newTown = await this._instantiateTown({
+      townID,
+      friendlyName,
+      isPubliclyListed,
+      townUpdatePasswordHash: hashPassword(townUpdatePassword),
+      ...(mapID !== undefined ? { mapID } : { mapFile: DEFAULT_MAP_FILE }),
+      capacity,
+    });
+    await this._persistTown(newTown);
+    return { town: newTown, townUpdatePassword };
   }
 
   /**
@@ -103,30 +216,68 @@ export default class TownsStore {
    * @param townUpdatePassword
    * @param friendlyName
    * @param makePublic
+   * @param capacity
    * @returns true upon success, or false otherwise
    */
-  updateTown(
+  async updateTown(
     townID: string,
     townUpdatePassword: string,
     friendlyName?: string,
     makePublic?: boolean,
-  ): boolean {
+    capacity?: number,
+  ): Promise<boolean> {
     const existingTown = this.getTownByID(townID);
-    if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePassword)) {
+    if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePasswordHash)) {
+      if (friendlyName !== undefined && friendlyName.length === 0) {
+        return false;
+      }
+      if (capacity !== undefined && !isValidCapacity(capacity)) {
+        return false;
+      }
       if (friendlyName !== undefined) {
-        if (friendlyName.length === 0) {
-          return false;
-        }
         existingTown.friendlyName = friendlyName;
       }
       if (makePublic !== undefined) {
         existingTown.isPubliclyListed = makePublic;
       }
+      if (capacity !== undefined) {
+        existingTown.capacity = capacity;
+      }
+      await this._persistTown(existingTown);
       return true;
     }
     return false;
   }
 
+  /**
+   * Replaces the map of a running town with a map from the map library, without disconnecting its
+   * players (see Town.replaceMap). Validates that the provided password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param mapID the ID of the new map in the map library
+   * @returns true upon success, or false if the password is invalid or there is no such town
+   * @throws InvalidParametersError if there is no map with the given ID in the map library, or if
+   *  the town can not be created from it
+   */
+  async updateTownMap(townID: string, townUpdatePassword: string, mapID: string): Promise<boolean> {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    if (!town) {
+      return false;
+    }
+    const map = await this._mapLibrary.getMap(mapID);
+    if (!map) {
+      throw new InvalidParametersError(`No map with ID ${mapID} in the map library`);
+    }
+    try {
+      town.replaceMap(map, mapID);
+    } catch (err) {
+      throw new InvalidParametersError((err as Error).message);
+    }
+    this._mapSources.set(townID, { mapID });
+    await this._persistTown(town);
+    return true;
+  }
+
   /**
    * Deletes a given town from this towns store, destroying the town controller in the process.
    * Checks that the password is valid before deletion
@@ -134,13 +285,245 @@ export default class TownsStore {
    * @param townUpdatePassword
    * @returns true if the town exists and is successfully deleted, false otherwise
    */
-  deleteTown(townID: string, townUpdatePassword: string): boolean {
+  async deleteTown(townID: string, townUpdatePassword: string): Promise<boolean> {
     const existingTown = this.getTownByID(townID);
-    if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePassword)) {
+    if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePasswordHash)) {
       this._towns = this._towns.filter(town => town !== existingTown);
+      this._mapSources.delete(townID);
       existingTown.disconnectAllPlayers();
+      await this._backingStore.deleteTown(townID);
+      await this._chatLogStore?.deleteChatLog(townID);
       return true;
     }
     return false;
   }
+
+  /**
+   * Kicks a player out of a town. Validates that the provided password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param playerID
+   * @param reason
+   * @returns true upon success, or false if the password is invalid or there is no such town or player
+   */
+  kickPlayer(
+    townID: string,
+    townUpdatePassword: string,
+    playerID: string,
+    reason?: string,
+  ): boolean {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    return town !== undefined && town.kickPlayer(playerID, reason);
+  }
+
+  /**
+   * Bans a player from a town. Validates that the provided password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param playerID
+   * @param reason
+   * @returns true upon success, or false if the password is invalid or there is no such town or player
+   */
+  banPlayer(
+    townID: string,
+    townUpdatePassword: string,
+    playerID: string,
+    reason?: string,
+  ): boolean {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    return town !== undefined && town.banPlayer(playerID, reason);
+  }
+
+  /**
+   * Mutes a player in a town. Validates that the provided password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param playerID
+   * @param durationSec
+   * @param reason
+   * @returns true upon success, or false if the password or duration is invalid, or there is no such
+   *  town or player
+   */
+  mutePlayer(
+    townID: string,
+    townUpdatePassword: string,
+    playerID: string,
+    durationSec: number,
+    reason?: string,
+  ): boolean {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    return town !== undefined && town.mutePlayer(playerID, durationSec, reason);
+  }
+
+  /**
+   * Changes the role of a player in a town. Validates that the provided password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param playerID
+   * @param role
+   * @returns true upon success, or false if the password is invalid or there is no such town or player
+   */
+  setPlayerRole(
+    townID: string,
+    townUpdatePassword: string,
+    playerID: string,
+    role: PlayerRole,
+  ): boolean {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    return town !== undefined && town.setPlayerRole(playerID, role);
+  }
+
+  /**
+   * Replaces the permissions that are granted to a role in a town. Validates that the provided
+   * password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param role
+   * @param permissions
+   * @returns true upon success, or false if the password is invalid, there is no such town, or the
+   *  role is 'owner' (whose permissions can not be changed)
+   */
+  async setRolePermissions(
+    townID: string,
+    townUpdatePassword: string,
+    role: PlayerRole,
+    permissions: TownPermission[],
+  ): Promise<boolean> {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    if (!town || role === 'owner') {
+      return false;
+    }
+    town.rolePermissions.setPermissions(role, permissions);
+    await this._persistTown(town);
+    return true;
+  }
+
+  /**
+   * Changes how many chat messages a town keeps, and for how long. Validates that the provided
+   * password is valid
+   * @param townID
+   * @param townUpdatePassword
+   * @param retention
+   * @returns true upon success, or false if the password is invalid or there is no such town
+   * @throws InvalidParametersError if the retention limits are invalid
+   */
+  async setChatRetention(
+    townID: string,
+    townUpdatePassword: string,
+    retention: ChatRetention,
+  ): Promise<boolean> {
+    const town = this._getTownWithPassword(townID, townUpdatePassword);
+    if (!town) {
+      return false;
+    }
+    try {
+      town.chatLog.retention = retention;
+    } catch (err) {
+      throw new InvalidParametersError((err as Error).message);
+    }
+    await this._persistTown(town);
+    return true;
+  }
+
+  /**
+   * @returns true if the password is the update password of the given town
+   */
+  isTownUpdatePassword(townID: string, townUpdatePassword: string): boolean {
+    return this._getTownWithPassword(townID, townUpdatePassword) !== undefined;
+  }
+
+  private _getTownWithPassword(townID: string, townUpdatePassword: string): Town | undefined {
+    const existingTown = this.getTownByID(townID);
+    if (existingTown && passwordMatches(townUpdatePassword, existingTown.townUpdatePasswordHash)) {
+      return existingTown;
+    }
+    return undefined;
+  }
+
+  /**
+   * Creates a Town from its durable record, initializes its interactables from its map and
+   * registers it in this store
+   */
+  private async _instantiateTown(record: TownRecord): Promise<Town> {
+    const newTown = new Town(
+      record.friendlyName,
+      record.isPubliclyListed,
+      record.townID,
+      this._emitterFactory(record.townID),
+      record.townUpdatePasswordHash,
+      record.capacity,
+    );
+    newTown.rolePermissions = new RolePermissions(record.rolePermissions);
+    newTown.mediaPolicy = this._mediaPolicy;
+    newTown.chatLog = await this._createChatLog(record);
+    newTown.initializeFromMap(await this._loadMap(record));
+    this._towns.push(newTown);
+    this._mapSources.set(
+      record.townID,
+      record.mapID !== undefined ? { mapID: record.mapID } : { mapFile: record.mapFile },
+    );
+    return newTown;
+  }
+
+  /**
+   * Loads the map that a town was created from: either a map in the map library, or a map file on
+   * the server, which may be in JSON or TMX format
+   *
+   * @throws Error if the map can not be found or is malformed
+   */
+  private async _loadMap({ mapID, mapFile }: TownMapSource): Promise<ITiledMap> {
+    if (mapID !== undefined) {
+      const map = await this._mapLibrary.getMap(mapID);
+      if (!map) {
+        throw new Error(`No map with ID ${mapID} in the map library`);
+      }
+      return map;
+    }
+    const file = mapFile ?? DEFAULT_MAP_FILE;
+    const contents = await fs.readFile(file, 'utf-8');
+    if (file.endsWith(TMX_EXTENSION)) {
+      return parseTmx(contents);
+    }
+    return ITiledMap.parse(JSON.parse(contents));
+  }
+
+  /**
+   * Saves the current metadata of a town to the backing store
+   */
+  private async _persistTown(town: Town): Promise<void> {
+    const mapSource = this._mapSources.get(town.townID);
+    assert(mapSource, `No map recorded for town ${town.townID}`);
+    await this._backingStore.putTown({
+      townID: town.townID,
+      friendlyName: town.friendlyName,
+      isPubliclyListed: town.isPubliclyListed,
+      townUpdatePasswordHash: town.townUpdatePasswordHash,
+      ...mapSource,
+      capacity: town.capacity,
+      rolePermissions: town.rolePermissions.toRecord(),
+      chatRetention: town.chatLog.retention,
+    });
+  }
+
+  /**
+   * Creates the chat log of a town, with the messages that were saved in the chat log store (if
+   * any), and saving each change to it. A chat log that can not be loaded is logged, and replaced by
+   * an empty one rather than keeping the town from being restored.
+   */
+  private async _createChatLog(record: TownRecord): Promise<ChatLog> {
+    const chatLogStore = this._chatLogStore;
+    if (!chatLogStore) {
+      return new ChatLog({ retention: record.chatRetention });
+    }
+    return new ChatLog({
+      retention: record.chatRetention,
+      entries: await chatLogStore.getChatLog(record.townID).catch(err => {
+        logError(err);
+        return [];
+      }),
+      onChange: entries => {
+        chatLogStore.putChatLog(record.townID, entries).catch(logError);
+      },
+    });
+  }
 }
@@ -0,0 +1,47 @@
+import fs from 'fs/promises';
+import validateMap from '../town/MapValidator';
+import { TMX_EXTENSION } from '../town/TmxParser';
+
+/**
+ * Validates one or more Tiled map files (in JSON or TMX format), printing every problem found in each
+ * of them.
+ * Exits with a non-zero status if any map has errors.
+ *
+ * Usage: npm run validate-map -- <mapFile> [<mapFile> ...]
+ */
+async function main(mapFiles: string[]): Promise<number> {
+  if (mapFiles.length === 0) {
+    // eslint-disable-next-line no-console
+    console.error('Usage: npm run validate-map -- <mapFile> [<mapFile> ...]');
+    return 2;
+  }
+  let exitCode = 0;
+  for (const mapFile of mapFiles) {
+    let data: unknown;
+    try {
+      const contents = await fs.readFile(mapFile, 'utf-8');
+      data = mapFile.endsWith(TMX_EXTENSION) ? contents : JSON.parse(contents);
+    } catch (e) {
+      // eslint-disable-next-line no-console
+      console.error(`${mapFile}: unable to read map: ${(e as Error).message}`);
+      exitCode = 1;
+      continue;
+    }
+    const { isValid, issues } = validateMap(data);
+    issues.forEach(({ severity, message, x, y }) => {
+      const location = x !== undefined && y !== undefined ? ` at (${x}, ${y})` : '';
+      // eslint-disable-next-line no-console
+      console.log(`${mapFile}: ${severity}${location}: ${message}`);
+    });
+    // eslint-disable-next-line no-console
+    console.log(`${mapFile}: ${isValid ? 'valid' : 'invalid'} (${issues.length} issues)`);
+    if (!isValid) {
+      exitCode = 1;
+    }
+  }
+  return exitCode;
+}
+
+main(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,97 @@
+import { areaGeometryFromMapObject, areasAreWithin, AreaGeometry, RECTANGLE } from './AreaGeometry';
+
+const mapObject = { id: 1, name: 'area', visible: true, x: 100, y: 50 };
+
+describe('areaGeometryFromMapObject', () => {
+  it('Reads rectangles and ellipses', () => {
+    expect(areaGeometryFromMapObject({ ...mapObject, width: 20, height: 10 })).toEqual({
+      boundingBox: { x: 100, y: 50, width: 20, height: 10 },
+      shape: RECTANGLE,
+    });
+    expect(
+      areaGeometryFromMapObject({ ...mapObject, width: 20, height: 10, ellipse: true }),
+    ).toEqual({
+      boundingBox: { x: 100, y: 50, width: 20, height: 10 },
+      shape: { type: 'ellipse' },
+    });
+  });
+  it('Reads polygons, whose points are relative to the object', () => {
+    const geometry = areaGeometryFromMapObject({
+      ...mapObject,
+      polygon: [
+        { x: 0, y: 0 },
+        { x: 40, y: -10 },
+        { x: 20, y: 30 },
+      ],
+    });
+    expect(geometry).toEqual({
+      boundingBox: { x: 100, y: 40, width: 40, height: 40 },
+      shape: {
+        type: 'polygon',
+        points: [
+          { x: 100, y: 50 },
+          { x: 140, y: 40 },
+          { x: 120, y: 80 },
+        ],
+      },
+    });
+  });
+  it('Returns undefined for objects with no area', () => {
+    expect(areaGeometryFromMapObject({ ...mapObject, width: 20 })).toBeUndefined();
+    expect(areaGeometryFromMapObject({ ...mapObject, ellipse: true })).toBeUndefined();
+    expect(
+      areaGeometryFromMapObject({
+        ...mapObject,
+        polygon: [
+          { x: 0, y: 0 },
+          { x: 10, y: 10 },
+        ],
+      }),
+    ).toBeUndefined();
+    expect(
+      areaGeometryFromMapObject({
+        ...mapObject,
+        polygon: [
+          { x: 0, y: 0 },
+          { x: 10, y: 0 },
+          { x: 20, y: 0 },
+        ],
+      }),
+    ).toBeUndefined();
+  });
+});
+
+describe('areasAreWithin', () => {
+  const distance = { width: 10, height: 20 };
+  const triangle: AreaGeometry = {
+    boundingBox: { x: 0, y: 0, width: 100, height: 100 },
+    shape: {
+      type: 'polygon',
+      points: [
+        { x: 0, y: 0 },
+        { x: 100, y: 0 },
+        { x: 0, y: 100 },
+      ],
+    },
+  };
+  function square(x: number, y: number, size = 10): AreaGeometry {
+    return { boundingBox: { x, y, width: size, height: size }, shape: RECTANGLE };
+  }
+  it('Finds areas that intersect or contain one another', () => {
+    expect(areasAreWithin(triangle, square(10, 10), distance)).toBe(true);
+    expect(areasAreWithin(square(10, 10), triangle, distance)).toBe(true);
+    expect(areasAreWithin(triangle, square(-50, -50, 200), distance)).toBe(true);
+    expect(areasAreWithin(triangle, square(40, 40, 30), distance)).toBe(true);
+  });
+  it('Measures the distance between the shapes, not their bounding boxes', () => {
+    // Beyond the diagonal edge of the triangle: the nearest point of the triangle is (50, 50)
+    expect(areasAreWithin(triangle, square(65, 65), distance)).toBe(false);
+    expect(areasAreWithin(triangle, square(59, 51), distance)).toBe(true);
+  });
+  it('Is within the distance only if both the horizontal and the vertical distance are', () => {
+    expect(areasAreWithin(triangle, square(-19, 20), distance)).toBe(true);
+    expect(areasAreWithin(triangle, square(-20, 20), distance)).toBe(false);
+    expect(areasAreWithin(triangle, square(20, -29), distance)).toBe(true);
+    expect(areasAreWithin(triangle, square(20, -30), distance)).toBe(false);
+  });
+});
@@ -0,0 +1,249 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { BoundingBox } from '../types/CoveyTownSocket';
+
+type Point = { x: number; y: number };
+
+/**
+ * The outline of an area within its bounding box. Rectangles and ellipses fill their bounding box;
+ * the points of a polygon are in map coordinates, in order around its edge.
+ */
+export type AreaShape =
+  | { type: 'rectangle' }
+  | { type: 'ellipse' }
+  | { type: 'polygon'; points: Point[] };
+
+/** Where an area is on the map: its bounding box, and its shape within that box */
+export type AreaGeometry = { boundingBox: BoundingBox; shape: AreaShape };
+
+export const RECTANGLE: AreaShape = { type: 'rectangle' };
+
+/** The number of sides of the polygons that stand in for ellipses when testing for overlaps */
+const ELLIPSE_SIDES = 32;
+
+/**
+ * Reads the geometry of a rectangle, ellipse or polygon object on a Tiled map. As elsewhere, the
+ * rotation of the object is ignored.
+ *
+ * @returns the geometry of the object, or undefined if it has no area: a rectangle or ellipse with no
+ *  width or height, or a polygon with fewer than 3 points
+ */
+export function areaGeometryFromMapObject(mapObject: ITiledMapObject): AreaGeometry | undefined {
+  const { x, y, width, height, polygon } = mapObject;
+  if (polygon) {
+    if (polygon.length < 3) {
+      return undefined;
+    }
+    const points = polygon.map(eachPoint => ({ x: x + eachPoint.x, y: y + eachPoint.y }));
+    const xs = points.map(eachPoint => eachPoint.x);
+    const ys = points.map(eachPoint => eachPoint.y);
+    const boundingBox = {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys),
+    };
+    if (!boundingBox.width || !boundingBox.height) {
+      return undefined;
+    }
+    return { boundingBox, shape: { type: 'polygon', points } };
+  }
+  if (!width || !height) {
+    return undefined;
+  }
+  return {
+    boundingBox: { x, y, width, height },
+    shape: mapObject.ellipse ? { type: 'ellipse' } : RECTANGLE,
+  };
+}
+
+function isStrictlyInside(point: Point, rect: BoundingBox): boolean {
+  return (
+    point.x > rect.x &&
+    point.x < rect.x + rect.width &&
+    point.y > rect.y &&
+    point.y < rect.y + rect.height
+  );
+}
+
+/**
+ * @returns true if the point is inside the polygon, by counting the edges that a ray from the point
+ *  crosses
+ */
+function isInPolygon(point: Point, points: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i, i += 1) {
+    const a = points[i];
+    const b = points[j];
+    if (a.y > point.y !== b.y > point.y) {
+      const crossingX = a.x + ((point.y - a.y) * (b.x - a.x)) / (b.y - a.y);
+      if (point.x < crossingX) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * @returns true if any part of the line segment from a to b is strictly inside the rectangle (that
+ *  is, not only on its edge), found by clipping the segment to the rectangle
+ */
+function segmentIntersectsRect(a: Point, b: Point, rect: BoundingBox): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const edges = [
+    { p: -dx, q: a.x - rect.x },
+    { p: dx, q: rect.x + rect.width - a.x },
+    { p: -dy, q: a.y - rect.y },
+    { p: dy, q: rect.y + rect.height - a.y },
+  ];
+  let start = 0;
+  let end = 1;
+  for (const { p, q } of edges) {
+    if (p === 0) {
+      if (q < 0) {
+        return false;
+      }
+    } else if (p < 0) {
+      start = Math.max(start, q / p);
+    } else {
+      end = Math.min(end, q / p);
+    }
+  }
+  if (start > end) {
+    return false;
+  }
+  // The clipped segment is convex, so if any of it is strictly inside the rectangle, its middle is
+  const middle = (start + end) / 2;
+  return isStrictlyInside({ x: a.x + middle * dx, y: a.y + middle * dy }, rect);
+}
+
+/**
+ * @returns true if the polygon and the inside of the rectangle have any point in common: either an
+ *  edge of the polygon passes through the rectangle, or the rectangle is within the polygon
+ */
+function polygonIntersectsRect(points: Point[], rect: BoundingBox): boolean {
+  const center = { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+  return (
+    isInPolygon(center, points) ||
+    points.some((eachPoint, i) =>
+      segmentIntersectsRect(eachPoint, points[(i + 1) % points.length], rect),
+    )
+  );
+}
+
+/**
+ * @returns the outline of an area as a polygon. Ellipses are approximated by a polygon that encloses
+ *  them, so that areas that are close to an ellipse are found to overlap it rather than missed.
+ */
+function toPolygon({ boundingBox, shape }: AreaGeometry): Point[] {
+  const { x, y, width, height } = boundingBox;
+  if (shape.type === 'polygon') {
+    return shape.points;
+  }
+  if (shape.type === 'rectangle') {
+    return [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height },
+    ];
+  }
+  const scale = 1 / Math.cos(Math.PI / ELLIPSE_SIDES);
+  return Array.from({ length: ELLIPSE_SIDES }, (_, i) => {
+    const angle = (2 * Math.PI * i) / ELLIPSE_SIDES;
+    return {
+      x: x + (width / 2) * (1 + scale * Math.cos(angle)),
+      y: y + (height / 2) * (1 + scale * Math.sin(angle)),
+    };
+  });
+}
+
+/**
+ * Tests if any part of an area is strictly inside a rectangle, such as the rectangle covered by a
+ * player's sprite
+ *
+ * @param geometry the area
+ * @param rect the rectangle
+ * @returns true if the area and the inside of the rectangle have any point in common
+ */
+export function areaIntersectsRect(
+  { boundingBox, shape }: AreaGeometry,
+  rect: BoundingBox,
+): boolean {
+  const { x, y, width, height } = boundingBox;
+  if (shape.type === 'rectangle') {
+    return (
+      rect.x + rect.width > x &&
+      rect.x < x + width &&
+      rect.y + rect.height > y &&
+      rect.y < y + height
+    );
+  }
+  if (shape.type === 'ellipse') {
+    // The point of the rectangle that is closest to the center of the ellipse, scaled so that the
+    // ellipse is a unit circle
+    const rx = width / 2;
+    const ry = height / 2;
+    const cx = x + rx;
+    const cy = y + ry;
+    const nearestX = Math.min(Math.max(cx, rect.x), rect.x + rect.width);
+    const nearestY = Math.min(Math.max(cy, rect.y), rect.y + rect.height);
+    return ((nearestX - cx) / rx) ** 2 + ((nearestY - cy) / ry) ** 2 < 1;
+  }
+  return polygonIntersectsRect(shape.points, rect);
+}
+
+/**
+ * Tests if two areas come within a given distance of each other: if there is a point in each area
+ * such that the two points are less than the given width apart horizontally, and less than the given
+ * height apart vertically. For a player's sprite size, this is whether one player could touch both
+ * areas at once.
+ *
+ * @param first one area
+ * @param second the other area
+ * @param distance the width and height within which the areas must come
+ * @returns true if the areas come within the distance of each other
+ */
+export function areasAreWithin(
+  first: AreaGeometry,
+  second: AreaGeometry,
+  distance: { width: number; height: number },
+): boolean {
+  const { width, height } = distance;
+  if (first.shape.type === 'rectangle' && second.shape.type === 'rectangle') {
+    const a = first.boundingBox;
+    const b = second.boundingBox;
+    return (
+      a.x < b.x + b.width + width &&
+      b.x < a.x + a.width + width &&
+      a.y < b.y + b.height + height &&
+      b.y < a.y + a.height + height
+    );
+  }
+  const firstPoints = toPolygon(first);
+  const secondPoints = toPolygon(second);
+  if (isInPolygon(firstPoints[0], secondPoints) || isInPolygon(secondPoints[0], firstPoints)) {
+    return true;
+  }
+  // Otherwise, the closest points of the two areas are on their edges. For each pair of edges, the
+  // differences between their points form a parallelogram, which must reach into the rectangle of
+  // differences that are within the distance.
+  const withinDistance = { x: -width, y: -height, width: 2 * width, height: 2 * height };
+  const edgesOf = (points: Point[]) =>
+    points.map((eachPoint, i) => [eachPoint, points[(i + 1) % points.length]]);
+  const secondEdges = edgesOf(secondPoints);
+  return edgesOf(firstPoints).some(([a1, a2]) =>
+    secondEdges.some(([b1, b2]) =>
+      polygonIntersectsRect(
+        [
+          { x: a1.x - b1.x, y: a1.y - b1.y },
+          { x: a2.x - b1.x, y: a2.y - b1.y },
+          { x: a2.x - b2.x, y: a2.y - b2.y },
+          { x: a1.x - b2.x, y: a1.y - b2.y },
+        ],
+        withinDistance,
+      ),
+    ),
+  );
+}
@@ -0,0 +1,214 @@
+import InvalidParametersError, { PERMISSION_DENIED_MESSAGE } from '../lib/InvalidParametersError';
+import Player from '../lib/Player';
+import { ChatCommand, CHAT_COMMAND_PREFIX } from './ChatCommandRegistry';
+import ConversationArea from './ConversationArea';
+import Town from './Town';
+
+/** The most dice that may be rolled at once with /roll */
+export const MAX_DICE = 20;
+
+/** The most sides that each die rolled with /roll may have */
+export const MAX_DICE_SIDES = 1000;
+
+/** How long /mute mutes a player for, unless told otherwise */
+export const DEFAULT_MUTE_DURATION_SEC = 300;
+
+/**
+ * Finds the player that a command refers to, by their ID or (ignoring case) their user name
+ *
+ * @throws InvalidParametersError if there is no such player, or more than one player has the name
+ */
+function findPlayer(town: Town, nameOrID: string): Player {
+  const byID = town.players.find(eachPlayer => eachPlayer.id === nameOrID);
+  if (byID) {
+    return byID;
+  }
+  const byName = town.players.filter(
+    eachPlayer => eachPlayer.userName.toLowerCase() === nameOrID.toLowerCase(),
+  );
+  if (byName.length === 0) {
+    throw new InvalidParametersError(`No player named ${nameOrID}`);
+  }
+  if (byName.length > 1) {
+    throw new InvalidParametersError(`More than one player is named ${nameOrID}; use their ID`);
+  }
+  return byName[0];
+}
+
+/**
+ * Finds the player that a moderation command refers to, who may not be the town's owner
+ *
+ * @throws InvalidParametersError if there is no such player, or they own the town
+ */
+function findModeratedPlayer(town: Town, nameOrID: string): Player {
+  const target = findPlayer(town, nameOrID);
+  if (target.role === 'owner') {
+    throw new InvalidParametersError(PERMISSION_DENIED_MESSAGE);
+  }
+  return target;
+}
+
+/**
+ * @returns the conversation area that the player is in, or (if nobody is talking there yet) whose
+ *  bounds they are standing within
+ */
+function findConversationArea(town: Town, player: Player): ConversationArea | undefined {
+  const areas = town.interactables.filter(
+    (eachArea): eachArea is ConversationArea => eachArea instanceof ConversationArea,
+  );
+  return (
+    areas.find(eachArea => eachArea.id === player.location.interactableID) ??
+    areas.find(eachArea => !eachArea.isActive && eachArea.contains(player.location))
+  );
+}
+
+const help: ChatCommand = {
+  name: 'help',
+  usage: '/help [command]',
+  description: 'Lists the commands that you can use, or explains one of them',
+  maxArgs: 1,
+  execute({ town, player, args, registry }) {
+    if (args.length === 1) {
+      const command = registry.get(args[0].replace(CHAT_COMMAND_PREFIX, ''));
+      if (!command || !registry.canRun(town, player, command)) {
+        throw new InvalidParametersError(`Unknown command ${args[0]}`);
+      }
+      return { body: `${command.usage}: ${command.description}`, audience: 'issuer' };
+    }
+    const lines = registry.commands
+      .filter(eachCommand => registry.canRun(town, player, eachCommand))
+      .map(eachCommand => `${eachCommand.usage}: ${eachCommand.description}`);
+    return { body: lines.join('\n'), audience: 'issuer' };
+  },
+};
+
+const me: ChatCommand = {
+  name: 'me',
+  usage: '/me <action>',
+  description: 'Describes something that you are doing',
+  minArgs: 1,
+  execute({ player, argText }) {
+    return { body: `* ${player.userName} ${argText}`, audience: 'town' };
+  },
+};
+
+const roll: ChatCommand = {
+  name: 'roll',
+  usage: '/roll [dice]',
+  description: `Rolls dice, written like 2d6 (by default, one six-sided die)`,
+  maxArgs: 1,
+  execute({ player, args }) {
+    const dice = args[0] ?? '1d6';
+    const match = /^(\d*)d(\d+)$/i.exec(dice);
+    if (!match) {
+      throw new InvalidParametersError('Dice must be written like 2d6');
+    }
+    const count = match[1] ? parseInt(match[1], 10) : 1;
+    const sides = parseInt(match[2], 10);
+    if (count < 1 || count > MAX_DICE) {
+      throw new InvalidParametersError(`You may roll between 1 and ${MAX_DICE} dice`);
+    }
+    if (sides < 2 || sides > MAX_DICE_SIDES) {
+      throw new InvalidParametersError(`Dice must have between 2 and ${MAX_DICE_SIDES} sides`);
+    }
+    const rolls = Array.from({ length: count }, () => Math.floor(Math.random() * sides) + 1);
+    const total = rolls.reduce((sum, eachRoll) => sum + eachRoll, 0);
+    const result = count === 1 ? `${total}` : `${rolls.join(' + ')} = ${total}`;
+    return { body: `${player.userName} rolled ${count}d${sides}: ${result}`, audience: 'town' };
+  },
+};
+
+const topic: ChatCommand = {
+  name: 'topic',
+  usage: '/topic <text>',
+  description: 'Sets the topic of the conversation area that you are in',
+  permission: 'setConversationTopic',
+  minArgs: 1,
+  execute({ town, player, argText }) {
+    const area = findConversationArea(town, player);
+    if (!area) {
+      throw new InvalidParametersError('You are not in a conversation area');
+    }
+    town.handleInteractableCommand(player, area, { type: 'SetConversationTopic', topic: argText });
+    return { body: `The topic is now "${area.topic}"`, audience: 'issuer' };
+  },
+};
+
+const who: ChatCommand = {
+  name: 'who',
+  usage: '/who',
+  description: 'Lists the players in the area that you are in',
+  maxArgs: 0,
+  execute({ town, player }) {
+    const area = town.interactables.find(
+      eachArea => eachArea.id === player.location.interactableID,
+    );
+    if (!area) {
+      throw new InvalidParametersError('You are not in an area');
+    }
+    const names = area.occupants.map(eachOccupant => eachOccupant.userName);
+    return { body: `In ${area.id}: ${names.join(', ')}`, audience: 'issuer' };
+  },
+};
+
+const tp: ChatCommand = {
+  name: 'tp',
+  usage: '/tp <player>',
+  description: 'Moves you to where another player is',
+  permission: 'moderate',
+  minArgs: 1,
+  maxArgs: 1,
+  execute({ town, player, args }) {
+    const target = findPlayer(town, args[0]);
+    if (target === player) {
+      throw new InvalidParametersError('You cannot teleport to yourself');
+    }
+    town.teleportPlayer(player, target.location);
+    return { body: `Teleported to ${target.userName}`, audience: 'issuer' };
+  },
+};
+
+const mute: ChatCommand = {
+  name: 'mute',
+  usage: '/mute <player> [seconds] [reason]',
+  description: `Stops a player from chatting for a while (by default, ${DEFAULT_MUTE_DURATION_SEC} seconds; 0 lifts a mute)`,
+  permission: 'moderate',
+  minArgs: 1,
+  execute({ town, args }) {
+    const target = findModeratedPlayer(town, args[0]);
+    let durationSec = DEFAULT_MUTE_DURATION_SEC;
+    if (args.length > 1) {
+      if (!/^\d+$/.test(args[1])) {
+        throw new InvalidParametersError('The duration of a mute must be a number of seconds');
+      }
+      durationSec = parseInt(args[1], 10);
+    }
+    const reason = args.slice(2).join(' ') || undefined;
+    town.mutePlayer(target.id, durationSec, reason);
+    return {
+      body:
+        durationSec === 0
+          ? `Unmuted ${target.userName}`
+          : `Muted ${target.userName} for ${durationSec} seconds`,
+      audience: 'issuer',
+    };
+  },
+};
+
+const kick: ChatCommand = {
+  name: 'kick',
+  usage: '/kick <player> [reason]',
+  description: 'Removes a player from the town',
+  permission: 'moderate',
+  minArgs: 1,
+  execute({ town, args }) {
+    const target = findModeratedPlayer(town, args[0]);
+    town.kickPlayer(target.id, args.slice(1).join(' ') || undefined);
+    return { body: `Kicked ${target.userName}`, audience: 'issuer' };
+  },
+};
+
+/**
+ * The chat commands that every town starts with
+ */
+export const BUILT_IN_CHAT_COMMANDS: ChatCommand[] = [help, me, roll, topic, who, tp, mute, kick];
@@ -0,0 +1,85 @@
+import { mock } from 'jest-mock-extended';
+import { nanoid } from 'nanoid';
+import InvalidParametersError, { PERMISSION_DENIED_MESSAGE } from '../lib/InvalidParametersError';
+import Player from '../lib/Player';
+import { TownEmitter } from '../types/CoveyTownSocket';
+import ChatCommandRegistry, { ChatCommand, parseChatCommand } from './ChatCommandRegistry';
+import Town from './Town';
+
+describe('ChatCommandRegistry', () => {
+  describe('parseChatCommand', () => {
+    it('Returns undefined for messages that are not commands', () => {
+      expect(parseChatCommand('hello /there')).toBeUndefined();
+    });
+    it('Splits the arguments on whitespace, keeping quoted text together', () => {
+      expect(parseChatCommand('  /Mute "Jane Doe"  60 being  rude ')).toEqual({
+        name: 'mute',
+        args: ['Jane Doe', '60', 'being', 'rude'],
+        argText: '"Jane Doe"  60 being  rude',
+      });
+      expect(parseChatCommand('/who')).toEqual({ name: 'who', args: [], argText: '' });
+    });
+  });
+  describe('register', () => {
+    it('Rejects invalid and duplicate names', () => {
+      const registry = new ChatCommandRegistry();
+      const command = { name: 'echo', usage: '/echo', description: 'Echoes', execute: jest.fn() };
+      registry.register(command);
+      expect(() => registry.register(command)).toThrowError();
+      expect(() => registry.register({ ...command, name: 'Bad name' })).toThrowError();
+      expect(registry.unregister('echo')).toBe(true);
+      expect(registry.get('echo')).toBeUndefined();
+      expect(registry.unregister('echo')).toBe(false);
+    });
+  });
+  describe('execute', () => {
+    let town: Town;
+    let player: Player;
+    let execute: jest.MockedFunction<ChatCommand['execute']>;
+    let registry: ChatCommandRegistry;
+    beforeEach(() => {
+      town = mock<Town>();
+      player = new Player(nanoid(), mock<TownEmitter>());
+      execute = jest.fn().mockReturnValue({ body: 'done', audience: 'issuer' });
+      registry = new ChatCommandRegistry([
+        {
+          name: 'echo',
+          usage: '/echo <text> [more]',
+          description: 'Echoes',
+          permission: 'moderate',
+          minArgs: 1,
+          maxArgs: 2,
+          execute,
+        },
+      ]);
+    });
+    it('Runs the command with its arguments, ignoring the case of its name', () => {
+      jest.mocked(town.hasPermission).mockReturnValue(true);
+      expect(registry.execute(town, player, '/ECHO hi there')).toEqual({
+        body: 'done',
+        audience: 'issuer',
+      });
+      expect(execute).toBeCalledWith({
+        town,
+        player,
+        args: ['hi', 'there'],
+        argText: 'hi there',
+        registry,
+      });
+      expect(town.hasPermission).toBeCalledWith(player, 'moderate');
+    });
+    it('Rejects unknown commands, players without permission, and the wrong number of arguments', () => {
+      expect(() => registry.execute(town, player, '/nope')).toThrow(InvalidParametersError);
+      jest.mocked(town.hasPermission).mockReturnValue(false);
+      expect(() => registry.execute(town, player, '/echo hi')).toThrow(
+        new InvalidParametersError(PERMISSION_DENIED_MESSAGE),
+      );
+      jest.mocked(town.hasPermission).mockReturnValue(true);
+      expect(() => registry.execute(town, player, '/echo')).toThrow(
+        new InvalidParametersError('Usage: /echo <text> [more]'),
+      );
+      expect(() => registry.execute(town, player, '/echo a b c')).toThrow(InvalidParametersError);
+      expect(execute).not.toBeCalled();
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import InvalidParametersError, { PERMISSION_DENIED_MESSAGE } from '../lib/InvalidParametersError';
+import Player from '../lib/Player';
+import { TownPermission } from '../types/CoveyTownSocket';
+import Town from './Town';
+
+/** The character that chat messages that are commands start with */
+export const CHAT_COMMAND_PREFIX = '/';
+
+/**
+ * Who the output of a chat command is sent to: only the player who issued it, or the players who
+ * would have received the message (the whole town, or the area that it was sent to)
+ */
+export type ChatCommandAudience = 'issuer' | 'town';
+
+export type ChatCommandResult = {
+  body: string;
+  audience: ChatCommandAudience;
+};
+
+export type ChatCommandContext = {
+  town: Town;
+  /** The player who issued the command */
+  player: Player;
+  /** The arguments to the command, split on whitespace except within double quotes */
+  args: string[];
+  /** Everything after the command's name, trimmed but otherwise as the player typed it */
+  argText: string;
+  /** The registry that the command was found in */
+  registry: ChatCommandRegistry;
+};
+
+/**
+ * A command that players can run by sending a chat message that starts with its name, for example
+ * "/roll 2d6"
+ */
+export interface ChatCommand {
+  /** The name of the command, without its prefix; lowercase letters, digits and dashes */
+  name: string;
+  /** How to use the command, for example "/roll [dice]" */
+  usage: string;
+  /** What the command does, shown by /help */
+  description: string;
+  /** The permission that a player needs to run the command, if any */
+  permission?: TownPermission;
+  /** The fewest arguments that the command accepts (default 0) */
+  minArgs?: number;
+  /** The most arguments that the command accepts (default unlimited) */
+  maxArgs?: number;
+  /**
+   * Runs the command
+   *
+   * @returns the output of the command, or undefined if it has none
+   * @throws InvalidParametersError if the command cannot be run with these arguments
+   */
+  execute(context: ChatCommandContext): ChatCommandResult | undefined;
+}
+
+export type ParsedChatCommand = {
+  name: string;
+  args: string[];
+  argText: string;
+};
+
+const COMMAND_NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+/**
+ * Splits the arguments to a chat command on whitespace, keeping text in double quotes together
+ */
+export function tokenizeChatCommandArgs(argText: string): string[] {
+  return Array.from(
+    argText.matchAll(/"([^"]*)"|(\S+)/g),
+    eachMatch => eachMatch[1] ?? eachMatch[2],
+  );
+}
+
+/**
+ * @returns the name and arguments of the command in a chat message, or undefined if the message is
+ *  not a command
+ */
+export function parseChatCommand(body: string): ParsedChatCommand | undefined {
+  const trimmed = body.trim();
+  if (!trimmed.startsWith(CHAT_COMMAND_PREFIX)) {
+    return undefined;
+  }
+  const [, name, argText] =
+    /^(\S*)\s*([\s\S]*)$/.exec(trimmed.slice(CHAT_COMMAND_PREFIX.length)) ?? [];
+  return { name: name.toLowerCase(), args: tokenizeChatCommandArgs(argText), argText };
+}
+
+/**
+ * The chat commands that players in a town can run. Commands are registered by name, and each
+ * declares the permission that it needs and how many arguments it takes, which the registry checks
+ * before running it.
+ */
+export default class ChatCommandRegistry {
+  private _commands: Map<string, ChatCommand> = new Map();
+
+  public constructor(commands: ChatCommand[] = []) {
+    commands.forEach(eachCommand => this.register(eachCommand));
+  }
+
+  /** Every registered command, by name */
+  get commands(): ChatCommand[] {
+    return [...this._commands.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * @throws Error if the command's name is invalid, or a command with that name is already
+   *  registered
+   */
+  public register(command: ChatCommand): void {
+    if (!COMMAND_NAME_PATTERN.test(command.name)) {
+      throw new Error(`Invalid chat command name: ${command.name}`);
+    }
+    if (this._commands.has(command.name)) {
+      throw new Error(`A chat command named ${command.name} is already registered`);
+    }
+    this._commands.set(command.name, command);
+  }
+
+  /**
+   * @returns false if there was no command with this name
+   */
+  public unregister(name: string): boolean {
+    return this._commands.delete(name);
+  }
+
+  public get(name: string): ChatCommand | undefined {
+    return this._commands.get(name.toLowerCase());
+  }
+
+  /**
+   * @returns true if the player has the permission (if any) that the command needs
+   */
+  public canRun(town: Town, player: Player, command: ChatCommand): boolean {
+    return !command.permission || town.hasPermission(player, command.permission);
+  }
+
+  /**
+   * Runs the command in a chat message
+   *
+   * @param town the town that the message was sent in
+   * @param player the player who sent the message
+   * @param body the message, which must start with CHAT_COMMAND_PREFIX
+   * @returns the output of the command, or undefined if it has none
+   * @throws InvalidParametersError if there is no such command, the player may not run it, or the
+   *  command cannot be run with the arguments given
+   */
+  public execute(town: Town, player: Player, body: string): ChatCommandResult | undefined {
+    const parsed = parseChatCommand(body);
+    if (!parsed) {
+      throw new InvalidParametersError('Not a chat command');
+    }
+    const command = this.get(parsed.name);
+    if (!command) {
+      throw new InvalidParametersError(
+        `Unknown command ${CHAT_COMMAND_PREFIX}${parsed.name}; use ${CHAT_COMMAND_PREFIX}help to list commands`,
+      );
+    }
+    if (!this.canRun(town, player, command)) {
+      throw new InvalidParametersError(PERMISSION_DENIED_MESSAGE);
+    }
+    const { minArgs = 0, maxArgs = Infinity } = command;
+    if (parsed.args.length < minArgs || parsed.args.length > maxArgs) {
+      throw new InvalidParametersError(`Usage: ${command.usage}`);
+    }
+    return command.execute({
+      town,
+      player,
+      args: parsed.args,
+      argText: parsed.argText,
+      registry: this,
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { nanoid } from 'nanoid';
+import InvalidParametersError from '../lib/InvalidParametersError';
+import { ChatMessage } from '../types/CoveyTownSocket';
+import ChatLog, { DEFAULT_CHAT_PAGE_SIZE, MAX_CHAT_PAGE_SIZE } from './ChatLog';
+
+describe('ChatLog', () => {
+  const player = nanoid();
+  const otherPlayer = nanoid();
+  function createMessage(body = nanoid()): ChatMessage {
+    const id = nanoid();
+    return { id, sid: id, author: otherPlayer, body, dateCreated: new Date() };
+  }
+  function addMessages(chatLog: ChatLog, count: number): ChatMessage[] {
+    const messages = Array.from({ length: count }, () => createMessage());
+    messages.forEach(eachMessage => chatLog.add(eachMessage));
+    return messages;
+  }
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+  describe('retention', () => {
+    it('Keeps only the most recent maxMessages messages', () => {
+      const chatLog = new ChatLog({ retention: { maxMessages: 3 } });
+      const messages = addMessages(chatLog, 5);
+      expect(chatLog.entries.map(eachEntry => eachEntry.message)).toEqual(messages.slice(2));
+    });
+    it('Forgets messages once they are older than maxAgeSec', () => {
+      jest.useFakeTimers();
+      const chatLog = new ChatLog({ retention: { maxMessages: 10, maxAgeSec: 60 } });
+      addMessages(chatLog, 2);
+      jest.advanceTimersByTime(30000);
+      const recent = addMessages(chatLog, 1);
+      jest.advanceTimersByTime(31000);
+      expect(chatLog.entries.map(eachEntry => eachEntry.message)).toEqual(recent);
+    });
+    it('Applies new retention limits immediately, and reports the change', () => {
+      const onChange = jest.fn();
+      const chatLog = new ChatLog({ onChange });
+      const messages = addMessages(chatLog, 4);
+      onChange.mockClear();
+      chatLog.retention = { maxMessages: 2 };
+      expect(chatLog.retention).toEqual({ maxMessages: 2 });
+      expect(onChange).toHaveBeenCalledWith(
+        messages.slice(2).map(eachMessage => ({ message: eachMessage })),
+      );
+    });
+    it.each([
+      { maxMessages: 0 },
+      { maxMessages: 1.5 },
+      { maxMessages: 100000 },
+      {
+        maxMessages: 10,
+        maxAgeSec: 0,
+      },
+    ])('Rejects invalid retention limits (%p)', retention => {
+      expect(() => new ChatLog({ retention })).toThrowError();
+      expect(() => {
+        new ChatLog().retention = retention;
+      }).toThrowError();
+    });
+  });
+  describe('add', () => {
+    it('Reports every entry in the log after each change', () => {
+      const onChange = jest.fn();
+      const chatLog = new ChatLog({ onChange });
+      const townMessage = createMessage();
+      const areaMessage = createMessage();
+      chatLog.add(townMessage);
+      chatLog.add(areaMessage, [player]);
+      expect(onChange).toHaveBeenLastCalledWith([
+        { message: townMessage },
+        { message: areaMessage, recipients: [player] },
+      ]);
+    });
+    it('Does not change the entries that it was created with', () => {
+      const entries = [{ message: createMessage() }];
+      const chatLog = new ChatLog({ entries });
+      chatLog.add(createMessage());
+      expect(entries).toHaveLength(1);
+      expect(chatLog.entries).toHaveLength(2);
+    });
+  });
+  describe('page', () => {
+    it('Includes messages to areas only for the players who received them', () => {
+      const chatLog = new ChatLog();
+      const townMessage = createMessage();
+      const areaMessage = createMessage();
+      chatLog.add(townMessage);
+      chatLog.add(areaMessage, [otherPlayer]);
+      expect(chatLog.recent(player)).toEqual([townMessage]);
+      expect(chatLog.recent(otherPlayer)).toEqual([townMessage, areaMessage]);
+    });
+    it('Pages backwards from the most recent messages, oldest first within each page', () => {
+      const chatLog = new ChatLog();
+      const messages = addMessages(chatLog, 5);
+      const first = chatLog.page(player, { limit: 2 });
+      expect(first).toEqual({ messages: messages.slice(3), nextCursor: messages[3].id });
+      const second = chatLog.page(player, { before: first.nextCursor, limit: 2 });
+      expect(second).toEqual({ messages: messages.slice(1, 3), nextCursor: messages[1].id });
+      expect(chatLog.page(player, { before: second.nextCursor, limit: 2 })).toEqual({
+        messages: messages.slice(0, 1),
+      });
+    });
+    it('Returns at most MAX_CHAT_PAGE_SIZE messages, and DEFAULT_CHAT_PAGE_SIZE by default', () => {
+      const chatLog = new ChatLog();
+      addMessages(chatLog, MAX_CHAT_PAGE_SIZE + 1);
+      expect(chatLog.page(player).messages).toHaveLength(DEFAULT_CHAT_PAGE_SIZE);
+      expect(chatLog.page(player, { limit: MAX_CHAT_PAGE_SIZE + 1 }).messages).toHaveLength(
+        MAX_CHAT_PAGE_SIZE,
+      );
+    });
+    it('Rejects unknown cursors and invalid limits', () => {
+      const chatLog = new ChatLog();
+      const areaMessage = createMessage();
+      chatLog.add(areaMessage, [otherPlayer]);
+      expect(() => chatLog.page(player, { before: nanoid() })).toThrow(
+        new InvalidParametersError('Unknown cursor'),
+      );
+      expect(() => chatLog.page(player, { before: areaMessage.id })).toThrow(
+        InvalidParametersError,
+      );
+      expect(() => chatLog.page(player, { limit: 0 })).toThrow(InvalidParametersError);
+    });
+  });
+});
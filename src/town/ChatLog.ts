@@ -0,0 +1,171 @@
+import { ChatHistoryPage, ChatRetention } from '../api/Model';
+import InvalidParametersError from '../lib/InvalidParametersError';
+import { ChatMessage, ChatMessageID, PlayerID } from '../types/CoveyTownSocket';
+
+/** How many chat messages a town keeps, unless configured otherwise */
+export const DEFAULT_CHAT_RETENTION: ChatRetention = { maxMessages: 1000 };
+
+/** The most chat messages that a town may be configured to keep */
+export const MAX_CHAT_RETENTION_MESSAGES = 10000;
+
+/** The number of messages in a page of chat history, and sent to players when they join */
+export const DEFAULT_CHAT_PAGE_SIZE = 50;
+
+/** The most messages that may be requested in one page of chat history */
+export const MAX_CHAT_PAGE_SIZE = 200;
+
+/**
+ * A chat message in a town's chat log. Messages that were sent to an area also record the players
+ * who received them, since only those players may see them again.
+ */
+export type ChatLogEntry = {
+  message: ChatMessage;
+  /** The occupants of the area when the message was sent, absent for messages to the whole town */
+  recipients?: PlayerID[];
+};
+
+export type ChatLogOptions = {
+  /** Defaults to DEFAULT_CHAT_RETENTION */
+  retention?: ChatRetention;
+  /** The messages already in the log (for example, loaded from storage), oldest first */
+  entries?: ChatLogEntry[];
+  /** Called with every entry in the log whenever it changes, for example to save them */
+  onChange?: (entries: ChatLogEntry[]) => void;
+};
+
+/**
+ * @throws Error if the retention limits are not positive integers, or would keep too many messages
+ */
+function checkRetention({ maxMessages, maxAgeSec }: ChatRetention): void {
+  if (!Number.isInteger(maxMessages) || maxMessages < 1) {
+    throw new Error('The number of chat messages kept must be a positive integer');
+  }
+  if (maxMessages > MAX_CHAT_RETENTION_MESSAGES) {
+    throw new Error(`At most ${MAX_CHAT_RETENTION_MESSAGES} chat messages may be kept`);
+  }
+  if (maxAgeSec !== undefined && (!Number.isInteger(maxAgeSec) || maxAgeSec < 1)) {
+    throw new Error('The age of chat messages kept must be a positive integer');
+  }
+}
+
+/**
+ * The chat messages that have been sent in a town, both to the whole town and to its areas, so that
+ * players can see the conversation that they joined. The log keeps at most its retention's
+ * maxMessages, and (if it has a maxAgeSec) forgets messages once they are that old.
+ */
+export default class ChatLog {
+  private _entries: ChatLogEntry[];
+
+  private _retention: ChatRetention;
+
+  private _onChange?: (entries: ChatLogEntry[]) => void;
+
+  /**
+   * @throws Error if the retention limits are invalid
+   */
+  public constructor({
+    retention = DEFAULT_CHAT_RETENTION,
+    entries = [],
+    onChange,
+  }: ChatLogOptions = {}) {
+    checkRetention(retention);
+    this._retention = retention;
+    this._entries = [...entries];
+    this._onChange = onChange;
+    this._prune();
+  }
+
+  get retention(): ChatRetention {
+    return this._retention;
+  }
+
+  /**
+   * Changes how many messages are kept, immediately forgetting any that are beyond the new limits
+   *
+   * @throws Error if the retention limits are invalid
+   */
+  set retention(retention: ChatRetention) {
+    checkRetention(retention);
+    this._retention = retention;
+    if (this._prune()) {
+      this._onChange?.([...this._entries]);
+    }
+  }
+
+  /** Every message in the log, oldest first */
+  get entries(): ChatLogEntry[] {
+    this._prune();
+    return this._entries;
+  }
+
+  /**
+   * Adds a message to the log, forgetting the oldest messages if the log is full
+   *
+   * @param message the message
+   * @param recipients the players who received the message, if it was sent to an area
+   */
+  public add(message: ChatMessage, recipients?: PlayerID[]): void {
+    this._entries.push(recipients ? { message, recipients } : { message });
+    this._prune();
+    this._onChange?.([...this._entries]);
+  }
+
+  /**
+   * @returns the most recent messages that a player may see, oldest first
+   */
+  public recent(playerID: PlayerID, count: number = DEFAULT_CHAT_PAGE_SIZE): ChatMessage[] {
+    return this.page(playerID, { limit: count }).messages;
+  }
+
+  /**
+   * Gets a page of the messages that a player may see: the messages to the whole town, and the
+   * messages to areas that the player received. Pages go backwards through the log, from the most
+   * recent messages.
+   *
+   * @param playerID the player reading the log
+   * @param before the cursor returned with the previous (more recent) page, if any
+   * @param limit the most messages in the page, at most MAX_CHAT_PAGE_SIZE
+   * @returns the page, with its messages oldest first
+   * @throws InvalidParametersError if the cursor is not one that this player was given, or the
+   *  limit is not a positive integer
+   */
+  public page(
+    playerID: PlayerID,
+    { before, limit = DEFAULT_CHAT_PAGE_SIZE }: { before?: ChatMessageID; limit?: number } = {},
+  ): ChatHistoryPage {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new InvalidParametersError('Limit must be a positive integer');
+    }
+    const visible = this.entries
+      .filter(eachEntry => !eachEntry.recipients || eachEntry.recipients.includes(playerID))
+      .map(eachEntry => eachEntry.message);
+    let end = visible.length;
+    if (before !== undefined) {
+      end = visible.findIndex(eachMessage => eachMessage.id === before);
+      if (end === -1) {
+        throw new InvalidParametersError('Unknown cursor');
+      }
+    }
+    const start = Math.max(0, end - Math.min(limit, MAX_CHAT_PAGE_SIZE));
+    const messages = visible.slice(start, end);
+    return start > 0 ? { messages, nextCursor: messages[0].id } : { messages };
+  }
+
+  /**
+   * Forgets the messages that are beyond the retention limits
+   *
+   * @returns true if any messages were forgotten
+   */
+  private _prune(): boolean {
+    const { maxMessages, maxAgeSec } = this._retention;
+    const oldest = maxAgeSec !== undefined ? Date.now() - maxAgeSec * 1000 : -Infinity;
+    const kept = this._entries
+      .filter(eachEntry => eachEntry.message.dateCreated.getTime() >= oldest)
+      .slice(-maxMessages);
+    if (kept.length === this._entries.length) {
+      return false;
+    }
+    this._entries = kept;
+    return true;
+  }
+}
@@ -0,0 +1,171 @@
+import { nanoid } from 'nanoid';
+import validateClientEvent from './ClientEventValidators';
+
+describe('validateClientEvent', () => {
+  describe('playerMovement', () => {
+    const validLocation = { x: 10, y: 20.5, rotation: 'front', moving: false };
+    it('Accepts a valid location, with or without an interactableID', () => {
+      expect(validateClientEvent('playerMovement', validLocation)).toEqual([]);
+      expect(
+        validateClientEvent('playerMovement', { ...validLocation, interactableID: nanoid() }),
+      ).toEqual([]);
+    });
+    it.each([NaN, Infinity, -Infinity, '10', undefined])(
+      'Rejects a non-finite or missing coordinate (%p)',
+      x => {
+        const issues = validateClientEvent('playerMovement', { ...validLocation, x });
+        expect(issues).toHaveLength(1);
+        expect(issues[0].path).toEqual('x');
+      },
+    );
+    it('Rejects a rotation that is not a Direction', () => {
+      const issues = validateClientEvent('playerMovement', { ...validLocation, rotation: 'up' });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['rotation']);
+    });
+    it('Reports every problem with the payload', () => {
+      const issues = validateClientEvent('playerMovement', { rotation: 'front', moving: 'yes' });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['x', 'y', 'moving']);
+    });
+    it.each([null, undefined, 42, 'location', []])(
+      'Rejects a payload that is not an object (%p)',
+      payload => {
+        expect(validateClientEvent('playerMovement', payload)).toHaveLength(1);
+      },
+    );
+  });
+  describe('chatMessage', () => {
+    it('Requires a string body', () => {
+      expect(validateClientEvent('chatMessage', { body: 'hello' })).toEqual([]);
+      expect(validateClientEvent('chatMessage', { body: 12 })[0].path).toEqual('body');
+      expect(validateClientEvent('chatMessage', {})[0].path).toEqual('body');
+    });
+    it('Accepts an optional town, current area or named area scope', () => {
+      expect(
+        validateClientEvent('chatMessage', { body: 'hello', scope: { type: 'town' } }),
+      ).toEqual([]);
+      expect(
+        validateClientEvent('chatMessage', { body: 'hello', scope: { type: 'currentArea' } }),
+      ).toEqual([]);
+      expect(
+        validateClientEvent('chatMessage', {
+          body: 'hello',
+          scope: { type: 'area', interactableID: nanoid() },
+        }),
+      ).toEqual([]);
+      expect(
+        validateClientEvent('chatMessage', { body: 'hello', scope: { type: 'area' } })[0].path,
+      ).toEqual('scope.interactableID');
+      expect(
+        validateClientEvent('chatMessage', { body: 'hello', scope: { type: 'world' } }),
+      ).toHaveLength(1);
+    });
+  });
+  describe('direct messages', () => {
+    it('Requires the request ID, recipient and body of a direct message', () => {
+      expect(
+        validateClientEvent('directMessage', { requestID: nanoid(), to: nanoid(), body: 'hi' }),
+      ).toEqual([]);
+      expect(validateClientEvent('directMessage', { to: nanoid(), body: 'hi' })[0].path).toEqual(
+        'requestID',
+      );
+    });
+    it('Validates read receipts, blocks and history requests', () => {
+      expect(validateClientEvent('directMessageRead', { messageIDs: [nanoid()] })).toEqual([]);
+      expect(validateClientEvent('directMessageRead', { messageIDs: [1] })).toHaveLength(1);
+      expect(validateClientEvent('blockPlayer', { playerID: nanoid(), isBlocked: true })).toEqual(
+        [],
+      );
+      expect(validateClientEvent('blockPlayer', { playerID: nanoid() })[0].path).toEqual(
+        'isBlocked',
+      );
+      expect(validateClientEvent('directMessageHistory', nanoid())).toEqual([]);
+      expect(validateClientEvent('directMessageHistory', {})).toHaveLength(1);
+    });
+  });
+  describe('interactableUpdate', () => {
+    const viewingArea = {
+      type: 'ViewingArea',
+      id: nanoid(),
+      occupants: [],
+      video: nanoid(),
+      isPlaying: true,
+      elapsedTimeSec: 12,
+    };
+    it('Accepts a valid viewing area', () => {
+      expect(validateClientEvent('interactableUpdate', viewingArea)).toEqual([]);
+    });
+    it('Checks the viewing area specific properties of viewing area updates', () => {
+      const issues = validateClientEvent('interactableUpdate', {
+        ...viewingArea,
+        elapsedTimeSec: NaN,
+        isPlaying: undefined,
+      });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['isPlaying', 'elapsedTimeSec']);
+    });
+    it('Rejects unknown interactable types and malformed occupants', () => {
+      const issues = validateClientEvent('interactableUpdate', {
+        ...viewingArea,
+        type: 'Aquarium',
+        occupants: ['ok', 7],
+      });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['type', 'occupants[1]']);
+    });
+  });
+  describe('interactableCommand', () => {
+    const base = { commandID: nanoid(), interactableID: nanoid() };
+    it('Accepts each kind of command', () => {
+      [
+        { type: 'JoinGame' },
+        { type: 'LeaveGame', gameID: nanoid() },
+        { type: 'StartGame', gameID: nanoid() },
+        { type: 'GameMove', gameID: nanoid(), move: { gamePiece: 'X', row: 2, col: 0 } },
+        { type: 'GameMove', gameID: nanoid(), move: { gamePiece: 'Red', row: 5, col: 6 } },
+        { type: 'PlaylistEnqueue', video: nanoid() },
+        { type: 'PlaylistVote', itemID: nanoid() },
+        { type: 'PlaylistSkip' },
+        { type: 'PlaylistRemove', itemID: nanoid() },
+        { type: 'PlaylistVideoEnded', video: nanoid() },
+        {
+          type: 'ViewingAreaUpdate',
+          update: {
+            type: 'ViewingArea',
+            id: nanoid(),
+            occupants: [],
+            isPlaying: false,
+            elapsedTimeSec: 0,
+          },
+        },
+      ].forEach(command =>
+        expect(validateClientEvent('interactableCommand', { ...base, ...command })).toEqual([]),
+      );
+    });
+    it('Requires the commandID and interactableID', () => {
+      const issues = validateClientEvent('interactableCommand', { type: 'JoinGame' });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['commandID', 'interactableID']);
+    });
+    it('Rejects unknown command types', () => {
+      const issues = validateClientEvent('interactableCommand', { ...base, type: 'Explode' });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['type']);
+    });
+    it('Rejects commands that are missing required properties', () => {
+      const issues = validateClientEvent('interactableCommand', { ...base, type: 'LeaveGame' });
+      expect(issues.map(eachIssue => eachIssue.path)).toEqual(['gameID']);
+    });
+    it.each([
+      { gamePiece: 'X', row: 3, col: 0 },
+      { gamePiece: 'X', row: 1.5, col: 0 },
+      { gamePiece: 'Red', row: 0, col: 7 },
+      { gamePiece: 'Blue', row: 0, col: 0 },
+      { gamePiece: 'O', row: 0, col: '1' },
+    ])('Rejects out of range or malformed game moves (%p)', move => {
+      const issues = validateClientEvent('interactableCommand', {
+        ...base,
+        type: 'GameMove',
+        gameID: nanoid(),
+        move,
+      });
+      expect(issues.length).toBeGreaterThan(0);
+      issues.forEach(eachIssue => expect(eachIssue.path).toMatch(/^move\./));
+    });
+  });
+});
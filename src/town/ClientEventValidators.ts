@@ -0,0 +1,263 @@
+import {
+  allOf,
+  anyOf,
+  arrayOf,
+  boolean,
+  discriminated,
+  finiteNumber,
+  integerBetween,
+  object,
+  oneOf,
+  optional,
+  string,
+  validate,
+  Validator,
+} from '../lib/PayloadValidator';
+import {
+  ChatMessageRequest,
+  ChatScope,
+  ClientToServerEvents,
+  ConnectFourColIndex,
+  ConnectFourColor,
+  ConnectFourMove,
+  ConnectFourRowIndex,
+  Direction,
+  DirectMessageReadReceipt,
+  DirectMessageRequest,
+  GameMoveCommand,
+  Interactable,
+  InteractableCommand,
+  InteractableCommandBase,
+  InteractableType,
+  ModerationActionType,
+  ModerationCommand,
+  PayloadIssue,
+  PlayerBlockUpdate,
+  PlayerLocation,
+  PlayerRole,
+  PlayerRoleUpdate,
+  PlaylistEnqueueCommand,
+  PlaylistItem,
+  TicTacToeGridPosition,
+  TicTacToeMove,
+  ViewingArea,
+} from '../types/CoveyTownSocket';
+
+/*
+ * Runtime validators for the payload of every ClientToServerEvents event.
+ *
+ * These are kept in sync with the types in CoveyTownSocket.d.ts by the compiler: each validator is typed with the
+ * type that it checks, object validators must list every property of their type, and validators for string
+ * unions must list every member of the union. Adding an event, a property or a union member without updating
+ * this file is a type error.
+ */
+
+const direction = oneOf<Direction>({ front: true, back: true, left: true, right: true });
+
+const interactableType = oneOf<InteractableType>({
+  ConversationArea: true,
+  ViewingArea: true,
+  TicTacToeArea: true,
+  ConnectFourArea: true,
+});
+
+const playerLocation = object<PlayerLocation>({
+  x: finiteNumber(),
+  y: finiteNumber(),
+  rotation: direction,
+  moving: boolean(),
+  interactableID: optional(string()),
+});
+
+const chatScope = discriminated<ChatScope, 'type'>('type', {
+  town: object({ type: oneOf({ town: true }) }),
+  currentArea: object({ type: oneOf({ currentArea: true }) }),
+  area: object({ type: oneOf({ area: true }), interactableID: string() }),
+});
+
+const chatMessageRequest = object<ChatMessageRequest>({
+  body: string(),
+  scope: optional(chatScope),
+});
+
+const interactable = object<Interactable>({
+  type: interactableType,
+  id: string(),
+  occupants: arrayOf(string()),
+});
+
+const playlistItem = object<PlaylistItem>({
+  id: string(),
+  video: string(),
+  title: optional(string()),
+  durationSec: optional(finiteNumber()),
+  addedBy: string(),
+  votes: arrayOf(string()),
+});
+
+const viewingArea = object<ViewingArea>({
+  type: interactableType,
+  id: string(),
+  occupants: arrayOf(string()),
+  video: optional(string()),
+  isPlaying: boolean(),
+  elapsedTimeSec: finiteNumber(),
+  loop: optional(boolean()),
+  queue: optional(arrayOf(playlistItem)),
+  skipVotes: optional(arrayOf(string())),
+  title: optional(string()),
+  durationSec: optional(finiteNumber()),
+});
+
+/**
+ * Updates must be well-formed interactables; updates to viewing areas (the only kind that clients may send) must
+ * also be well-formed viewing areas
+ */
+const interactableUpdate: Validator<Interactable> = (value, path) => {
+  const issues = interactable(value, path);
+  if (issues.length === 0 && (value as Interactable).type === 'ViewingArea') {
+    return viewingArea(value, path);
+  }
+  return issues;
+};
+
+const ticTacToeGridPosition = integerBetween<TicTacToeGridPosition>(0, 2);
+
+const ticTacToeMove = object<TicTacToeMove>({
+  gamePiece: oneOf<TicTacToeMove['gamePiece']>({ X: true, O: true }),
+  row: ticTacToeGridPosition,
+  col: ticTacToeGridPosition,
+});
+
+const connectFourMove = object<ConnectFourMove>({
+  gamePiece: oneOf<ConnectFourColor>({ Red: true, Yellow: true }),
+  col: integerBetween<ConnectFourColIndex>(0, 6),
+  row: integerBetween<ConnectFourRowIndex>(0, 5),
+});
+
+const gameMoveType = oneOf<'GameMove'>({ GameMove: true });
+
+const interactableCommandBase = object<InteractableCommandBase>({
+  commandID: string(),
+  interactableID: string(),
+  type: string(),
+});
+
+const interactableCommand = discriminated<InteractableCommand, 'type'>('type', {
+  ViewingAreaUpdate: object({
+    type: oneOf({ ViewingAreaUpdate: true }),
+    update: viewingArea,
+  }),
+  PlaylistEnqueue: object<PlaylistEnqueueCommand>({
+    type: oneOf({ PlaylistEnqueue: true }),
+    video: string(),
+  }),
+  PlaylistVote: object({
+    type: oneOf({ PlaylistVote: true }),
+    itemID: string(),
+  }),
+  PlaylistSkip: object({
+    type: oneOf({ PlaylistSkip: true }),
+  }),
+  PlaylistRemove: object({
+    type: oneOf({ PlaylistRemove: true }),
+    itemID: string(),
+  }),
+  PlaylistVideoEnded: object({
+    type: oneOf({ PlaylistVideoEnded: true }),
+    video: string(),
+  }),
+  SetConversationTopic: object({
+    type: oneOf({ SetConversationTopic: true }),
+    topic: string(),
+  }),
+  ClearConversationTopic: object({
+    type: oneOf({ ClearConversationTopic: true }),
+  }),
+  JoinGame: object({
+    type: oneOf({ JoinGame: true }),
+  }),
+  LeaveGame: object({
+    type: oneOf({ LeaveGame: true }),
+    gameID: string(),
+  }),
+  StartGame: object({
+    type: oneOf({ StartGame: true }),
+    gameID: string(),
+  }),
+  GameMove: anyOf(
+    object<GameMoveCommand<TicTacToeMove>>({
+      type: gameMoveType,
+      gameID: string(),
+      move: ticTacToeMove,
+    }),
+    object<GameMoveCommand<ConnectFourMove>>({
+      type: gameMoveType,
+      gameID: string(),
+      move: connectFourMove,
+    }),
+  ),
+});
+
+const playerRole = oneOf<PlayerRole>({ owner: true, moderator: true, member: true, guest: true });
+
+const playerRoleUpdate = object<PlayerRoleUpdate>({
+  playerID: string(),
+  role: playerRole,
+});
+
+const moderationCommand = object<ModerationCommand>({
+  action: oneOf<ModerationActionType>({ kick: true, ban: true, mute: true }),
+  playerID: string(),
+  reason: optional(string()),
+  durationSec: optional(finiteNumber()),
+});
+
+const directMessageRequest = object<DirectMessageRequest>({
+  requestID: string(),
+  to: string(),
+  body: string(),
+});
+
+const directMessageReadReceipt = object<DirectMessageReadReceipt>({
+  messageIDs: arrayOf(string()),
+});
+
+const playerBlockUpdate = object<PlayerBlockUpdate>({
+  playerID: string(),
+  isBlocked: boolean(),
+});
+
+type ClientEventPayload<E extends keyof ClientToServerEvents> = Parameters<
+  ClientToServerEvents[E]
+>[0];
+
+const clientEventValidators: {
+  [E in keyof ClientToServerEvents]: Validator<ClientEventPayload<E>>;
+} = {
+  chatMessage: chatMessageRequest,
+  playerMovement: playerLocation,
+  interactableUpdate,
+  interactableCommand: allOf(interactableCommandBase, interactableCommand),
+  setPlayerRole: playerRoleUpdate,
+  moderatePlayer: moderationCommand,
+  directMessage: directMessageRequest,
+  directMessageRead: directMessageReadReceipt,
+  blockPlayer: playerBlockUpdate,
+  directMessageHistory: string(),
+};
+
+/**
+ * Checks that the payload sent by a client for an event matches the type declared for that event in
+ * ClientToServerEvents
+ *
+ * @param event the name of the event
+ * @param payload the payload received from the client
+ * @returns the problems found with the payload, empty if it is valid
+ */
+export default function validateClientEvent<E extends keyof ClientToServerEvents>(
+  event: E,
+  payload: unknown,
+): PayloadIssue[] {
+  return validate(clientEventValidators[event] as Validator<ClientEventPayload<E>>, payload);
+}
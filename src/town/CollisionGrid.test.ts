@@ -0,0 +1,184 @@
+import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import * as fs from 'fs/promises';
+import { deflateSync } from 'zlib';
+import CollisionGrid, { MAX_MAP_TILES } from './CollisionGrid';
+
+function mapWithWalls(walls: Record<string, unknown> | undefined): ITiledMap {
+  return ITiledMap.parse({
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilewidth: 32,
+    tilesets: [],
+    type: 'map',
+    width: 3,
+    height: 2,
+    layers: walls
+      ? [
+          {
+            id: 1,
+            name: 'Walls',
+            width: 3,
+            height: 2,
+            opacity: 1,
+            type: 'tilelayer',
+            visible: true,
+            x: 0,
+            y: 0,
+            ...walls,
+          },
+        ]
+      : [],
+  });
+}
+
+function encodeGIDs(gids: number[]): Buffer {
+  const bytes = Buffer.alloc(gids.length * 4);
+  gids.forEach((gid, index) => bytes.writeUInt32LE(gid, index * 4));
+  return bytes;
+}
+
+describe('CollisionGrid', () => {
+  describe('fromMap', () => {
+    it('Returns undefined if the map has no Walls layer', () => {
+      expect(CollisionGrid.fromMap(mapWithWalls(undefined))).toBeUndefined();
+    });
+    it('Builds a grid from an array of tiles', () => {
+      const grid = CollisionGrid.fromMap(mapWithWalls({ data: [0, 1, 0, 0, 0, 2] }));
+      expect(grid?.width).toBe(96);
+      expect(grid?.height).toBe(64);
+      expect(grid?.isWall(40, 10)).toBe(true);
+      expect(grid?.isWall(31, 10)).toBe(false);
+      expect(grid?.isWall(80, 40)).toBe(true);
+      expect(grid?.isWall(10, 40)).toBe(false);
+    });
+    it('Builds a grid from base64 encoded tiles, with or without compression', () => {
+      const gids = [0, 1, 0, 0, 0, 2];
+      const uncompressed = CollisionGrid.fromMap(
+        mapWithWalls({ encoding: 'base64', data: encodeGIDs(gids).toString('base64') }),
+      );
+      const compressed = CollisionGrid.fromMap(
+        mapWithWalls({
+          encoding: 'base64',
+          compression: 'zlib',
+          data: deflateSync(encodeGIDs(gids)).toString('base64'),
+        }),
+      );
+      [uncompressed, compressed].forEach(grid => {
+        expect(grid?.isWall(40, 10)).toBe(true);
+        expect(grid?.isWall(10, 10)).toBe(false);
+      });
+    });
+    it('Throws an error if the Walls layer does not have one tile per grid cell', () => {
+      expect(() => CollisionGrid.fromMap(mapWithWalls({ data: [0, 1] }))).toThrowError();
+    });
+    it('Does not decompress more tiles than the Walls layer should have', () => {
+      // A few kilobytes that would inflate to millions of tiles
+      const bomb = deflateSync(Buffer.alloc(16 * 1024 * 1024));
+      expect(() =>
+        CollisionGrid.fromMap(
+          mapWithWalls({ encoding: 'base64', compression: 'zlib', data: bomb.toString('base64') }),
+        ),
+      ).toThrowError('Unable to decompress tile layer Walls');
+      expect(() =>
+        CollisionGrid.fromMap(
+          mapWithWalls({
+            encoding: 'base64',
+            compression: 'zlib',
+            data: deflateSync(encodeGIDs([0, 1])).toString('base64'),
+          }),
+        ),
+      ).toThrowError('Expected 24 bytes of data in tile layer Walls, but got 8');
+    });
+    it('Throws an error if the Walls layer has more than MAX_MAP_TILES tiles', () => {
+      const map = mapWithWalls({ encoding: 'base64', data: '' });
+      map.width = MAX_MAP_TILES;
+      map.height = 2;
+      map.layers[0] = { ...map.layers[0], width: MAX_MAP_TILES, height: 2 };
+      expect(() => CollisionGrid.fromMap(map)).toThrowError(`at most ${MAX_MAP_TILES} tiles`);
+    });
+    it('Builds the grid for the indoors map', async () => {
+      const map = ITiledMap.parse(JSON.parse(await fs.readFile('testData/indoors.json', 'utf-8')));
+      const grid = CollisionGrid.fromMap(map);
+      expect(grid?.width).toBe(120 * 32);
+      expect(grid?.height).toBe(45 * 32);
+      // The top row of the map has a wall tile in its ninth column
+      expect(grid?.isWall(8 * 32 + 1, 1)).toBe(true);
+      expect(grid?.isWall(1, 1)).toBe(false);
+    });
+  });
+  describe('bounds', () => {
+    const grid = new CollisionGrid(3, 2, 32, 32, [false, true, false, false, false, false]);
+    it('Only treats points within the map as in bounds', () => {
+      expect(grid.isInBounds(0, 0)).toBe(true);
+      expect(grid.isInBounds(95, 63)).toBe(true);
+      expect(grid.isInBounds(96, 10)).toBe(false);
+      expect(grid.isInBounds(10, -1)).toBe(false);
+    });
+    it('Only treats points within the map and off of walls as walkable', () => {
+      expect(grid.isWalkable(10, 10)).toBe(true);
+      expect(grid.isWalkable(40, 10)).toBe(false);
+      expect(grid.isWalkable(-10, 10)).toBe(false);
+    });
+    it('Clamps points to the edge of the map', () => {
+      expect(grid.clamp(-10, 100)).toEqual({ x: 0, y: 63 });
+      expect(grid.clamp(50, 20)).toEqual({ x: 50, y: 20 });
+    });
+  });
+  describe('nearestWalkable', () => {
+    const grid = new CollisionGrid(3, 2, 32, 32, [false, true, true, false, false, true]);
+    it('Returns points that are walkable, clamped to the map', () => {
+      expect(grid.nearestWalkable(10, 10)).toEqual({ x: 10, y: 10 });
+      expect(grid.nearestWalkable(-5, 40)).toEqual({ x: 0, y: 40 });
+    });
+    it('Returns the center of the closest walkable tile to a point on a wall', () => {
+      expect(grid.nearestWalkable(90, 20)).toEqual({ x: 48, y: 48 });
+      expect(grid.nearestWalkable(36, 10)).toEqual({ x: 16, y: 16 });
+    });
+    it('Searches rings that extend past the edges of the map', () => {
+      const corridor = Array.from({ length: 1000 }, (_, column) => column !== 999);
+      expect(new CollisionGrid(1000, 1, 32, 32, corridor).nearestWalkable(0, 0)).toEqual({
+        x: 999.5 * 32,
+        y: 16,
+      });
+      const room = Array.from({ length: 49 }, (_, index) => index !== 2 * 7 + 6);
+      expect(new CollisionGrid(7, 7, 32, 32, room).nearestWalkable(3 * 32, 3 * 32)).toEqual({
+        x: 6.5 * 32,
+        y: 2.5 * 32,
+      });
+    });
+    it('Returns undefined if no tile is walkable', () => {
+      expect(new CollisionGrid(1, 1, 32, 32, [true]).nearestWalkable(10, 10)).toBeUndefined();
+    });
+  });
+  describe('reachableTiles', () => {
+    it('Finds the tiles that can be walked to without passing through a wall', () => {
+      // A wall down the middle column divides the map in two
+      const grid = new CollisionGrid(3, 2, 32, 32, [false, true, false, false, true, false]);
+      expect(grid.reachableTiles(10, 10)).toEqual(
+        expect.arrayContaining([
+          { x: 0, y: 0, width: 32, height: 32 },
+          { x: 0, y: 32, width: 32, height: 32 },
+        ]),
+      );
+      expect(grid.reachableTiles(10, 10)).toHaveLength(2);
+      expect(grid.reachableTiles(40, 10)).toEqual([]);
+    });
+  });
+  describe('isPathClear', () => {
+    const grid = new CollisionGrid(3, 2, 32, 32, [false, true, false, false, false, false]);
+    it('Rejects paths that pass through a wall, even if they end off of it', () => {
+      expect(grid.isPathClear(10, 10, 80, 10)).toBe(false);
+      expect(grid.isPathClear(10, 10, 80, 60)).toBe(false);
+      expect(grid.isPathClear(10, 50, 80, 50)).toBe(true);
+      expect(grid.isPathClear(10, 10, 10, 50)).toBe(true);
+    });
+    it('Allows a player to walk off of the wall that they are standing on', () => {
+      expect(grid.isPathClear(40, 10, 40, 50)).toBe(true);
+      expect(grid.isPathClear(40, 10, 40, 10)).toBe(true);
+    });
+    it('Does not squeeze between walls that meet at a corner', () => {
+      const corner = new CollisionGrid(2, 2, 32, 32, [false, true, true, false]);
+      expect(corner.isPathClear(16, 16, 48, 48)).toBe(false);
+    });
+  });
+});
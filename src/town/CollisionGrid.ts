@@ -0,0 +1,350 @@
+import { ITiledMap, ITiledMapTileLayer } from '@jonbell/tiled-map-type-guard';
+import { gunzipSync, inflateSync } from 'zlib';
+import { BoundingBox } from '../types/CoveyTownSocket';
+
+/** The name of the tile layer whose tiles players can not walk through */
+export const WALLS_LAYER_NAME = 'Walls';
+
+/** The largest map (in tiles, width times height) that may be uploaded or have a collision grid */
+export const MAX_MAP_TILES = 1000 * 1000;
+
+/**
+ * Decodes the tile GIDs of a (finite) tile layer, which Tiled stores either as an array or as a
+ * base64 string of little-endian 32 bit integers, optionally compressed. Compressed data is never
+ * inflated beyond the size of the expected number of tiles.
+ *
+ * @param layer the layer to decode
+ * @param tileCount the number of tiles that the layer should have
+ * @throws Error if the layer uses an encoding or compression that is not supported, or its data
+ *  is not exactly tileCount tiles long
+ */
+function decodeTileData(layer: ITiledMapTileLayer, tileCount: number): number[] {
+  if (Array.isArray(layer.data)) {
+    return layer.data;
+  }
+  if (layer.encoding !== 'base64') {
+    throw new Error(`Unsupported encoding for tile layer ${layer.name}: ${layer.encoding}`);
+  }
+  if (layer.compression && layer.compression !== 'zlib' && layer.compression !== 'gzip') {
+    throw new Error(`Unsupported compression for tile layer ${layer.name}: ${layer.compression}`);
+  }
+  const expectedLength = tileCount * 4;
+  let bytes = Buffer.from(layer.data.trim(), 'base64');
+  try {
+    if (layer.compression === 'zlib') {
+      bytes = inflateSync(bytes, { maxOutputLength: expectedLength });
+    } else if (layer.compression === 'gzip') {
+      bytes = gunzipSync(bytes, { maxOutputLength: expectedLength });
+    }
+  } catch (e) {
+    throw new Error(`Unable to decompress tile layer ${layer.name}: ${(e as Error).message}`);
+  }
+  if (bytes.length !== expectedLength) {
+    throw new Error(
+      `Expected ${expectedLength} bytes of data in tile layer ${layer.name}, but got ${bytes.length}`,
+    );
+  }
+  const gids: number[] = [];
+  for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+    gids.push(bytes.readUInt32LE(offset));
+  }
+  return gids;
+}
+
+/**
+ * The walkable space of a town's map: the bounds of the map (in pixels), and which of its tiles are
+ * walls. Built from the map's Walls layer, in which any non-empty tile blocks movement.
+ */
+export default class CollisionGrid {
+  private readonly _widthInTiles: number;
+
+  private readonly _heightInTiles: number;
+
+  private readonly _tileWidth: number;
+
+  private readonly _tileHeight: number;
+
+  /** One entry per tile, in row-major order: true if the tile is a wall */
+  private readonly _walls: boolean[];
+
+  public get width(): number {
+    return this._widthInTiles * this._tileWidth;
+  }
+
+  public get height(): number {
+    return this._heightInTiles * this._tileHeight;
+  }
+
+  public constructor(
+    widthInTiles: number,
+    heightInTiles: number,
+    tileWidth: number,
+    tileHeight: number,
+    walls: boolean[],
+  ) {
+    if (walls.length !== widthInTiles * heightInTiles) {
+      throw new Error(
+        `Expected ${widthInTiles * heightInTiles} tiles in the collision grid, but got ${
+          walls.length
+        }`,
+      );
+    }
+    this._widthInTiles = widthInTiles;
+    this._heightInTiles = heightInTiles;
+    this._tileWidth = tileWidth;
+    this._tileHeight = tileHeight;
+    this._walls = walls;
+  }
+
+  /**
+   * @returns true if the point lies within the bounds of the map
+   */
+  public isInBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+
+  /**
+   * @returns true if the point lies on a wall tile. Points outside of the map are not walls.
+   */
+  public isWall(x: number, y: number): boolean {
+    if (!this.isInBounds(x, y)) {
+      return false;
+    }
+    const column = Math.floor(x / this._tileWidth);
+    const row = Math.floor(y / this._tileHeight);
+    return this._walls[row * this._widthInTiles + column];
+  }
+
+  /**
+   * @returns true if a player may stand at the point: it is within the map and not on a wall
+   */
+  public isWalkable(x: number, y: number): boolean {
+    return this.isInBounds(x, y) && !this.isWall(x, y);
+  }
+
+  /**
+   * Finds the tiles that a player could walk to from a point, moving between tiles that share an
+   * edge and never onto a wall
+   *
+   * @returns the bounds (in pixels) of each tile that is reachable from the point, including its own
+   *  tile, or no tiles if the point is not walkable
+   */
+  public reachableTiles(x: number, y: number): BoundingBox[] {
+    if (!this.isWalkable(x, y)) {
+      return [];
+    }
+    const start =
+      Math.floor(y / this._tileHeight) * this._widthInTiles + Math.floor(x / this._tileWidth);
+    const visited = new Set<number>([start]);
+    const toVisit = [start];
+    const tiles: BoundingBox[] = [];
+    while (toVisit.length > 0) {
+      const tile = toVisit.pop() as number;
+      const column = tile % this._widthInTiles;
+      const row = Math.floor(tile / this._widthInTiles);
+      tiles.push({
+        x: column * this._tileWidth,
+        y: row * this._tileHeight,
+        width: this._tileWidth,
+        height: this._tileHeight,
+      });
+      [
+        [column - 1, row],
+        [column + 1, row],
+        [column, row - 1],
+        [column, row + 1],
+      ].forEach(([eachColumn, eachRow]) => {
+        const neighbor = eachRow * this._widthInTiles + eachColumn;
+        const isInMap =
+          eachColumn >= 0 &&
+          eachRow >= 0 &&
+          eachColumn < this._widthInTiles &&
+          eachRow < this._heightInTiles;
+        if (isInMap && !visited.has(neighbor) && !this._isWallTile(eachColumn, eachRow)) {
+          visited.add(neighbor);
+          toVisit.push(neighbor);
+        }
+      });
+    }
+    return tiles;
+  }
+
+  /**
+   * Checks that a player may walk in a straight line from one point to another, without passing
+   * through a wall. The tile that the path starts on is not checked, so that a player who is placed on
+   * a wall may walk off of it; nor may the path squeeze diagonally between two walls that meet at a
+   * corner.
+   *
+   * @returns true if none of the tiles that the path passes through (after the first) is a wall
+   */
+  public isPathClear(fromX: number, fromY: number, toX: number, toY: number): boolean {
+    // Visit each tile that the segment passes through, in order (Amanatides and Woo's traversal)
+    let column = Math.floor(fromX / this._tileWidth);
+    let row = Math.floor(fromY / this._tileHeight);
+    const endColumn = Math.floor(toX / this._tileWidth);
+    const endRow = Math.floor(toY / this._tileHeight);
+    const dx = toX - fromX;
+    const dy = toY - fromY;
+    const stepColumn = Math.sign(dx);
+    const stepRow = Math.sign(dy);
+    // How far along the segment (from 0 to 1) each step to the next column or row is
+    const deltaX = dx !== 0 ? this._tileWidth / Math.abs(dx) : Infinity;
+    const deltaY = dy !== 0 ? this._tileHeight / Math.abs(dy) : Infinity;
+    // How far along the segment the next column and row begin
+    let nextX = Infinity;
+    if (dx > 0) {
+      nextX = ((column + 1) * this._tileWidth - fromX) / dx;
+    } else if (dx < 0) {
+      nextX = (column * this._tileWidth - fromX) / dx;
+    }
+    let nextY = Infinity;
+    if (dy > 0) {
+      nextY = ((row + 1) * this._tileHeight - fromY) / dy;
+    } else if (dy < 0) {
+      nextY = (row * this._tileHeight - fromY) / dy;
+    }
+    while (column !== endColumn || row !== endRow) {
+      if (nextX < nextY) {
+        column += stepColumn;
+        nextX += deltaX;
+      } else if (nextY < nextX) {
+        row += stepRow;
+        nextY += deltaY;
+      } else {
+        // The path passes exactly through a corner
+        if (this._isWallTile(column + stepColumn, row) && this._isWallTile(column, row + stepRow)) {
+          return false;
+        }
+        column += stepColumn;
+        row += stepRow;
+        nextX += deltaX;
+        nextY += deltaY;
+      }
+      if (this._isWallTile(column, row)) {
+        return false;
+      }
+      if (nextX > 1 && nextY > 1) {
+        // Guard against rounding errors overshooting the last tile
+        break;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * @returns true if the tile at this column and row is a wall; tiles outside of the map are not
+   */
+  private _isWallTile(column: number, row: number): boolean {
+    if (column < 0 || row < 0 || column >= this._widthInTiles || row >= this._heightInTiles) {
+      return false;
+    }
+    return this._walls[row * this._widthInTiles + column];
+  }
+
+  /**
+   * Finds where to put a player who should be at a point, which may be on a wall (for example, the
+   * target of a transporter that map authors placed on the tiles of a staircase)
+   *
+   * @returns the point itself if it is walkable, otherwise the center of the closest walkable tile
+   *  (searching outwards one ring of tiles at a time), or undefined if no tile is walkable
+   */
+  public nearestWalkable(x: number, y: number): { x: number; y: number } | undefined {
+    const clamped = this.clamp(x, y);
+    if (!this.isWall(clamped.x, clamped.y)) {
+      return clamped;
+    }
+    const column = Math.floor(clamped.x / this._tileWidth);
+    const row = Math.floor(clamped.y / this._tileHeight);
+    const maxRadius = Math.max(this._widthInTiles, this._heightInTiles);
+    for (let radius = 1; radius <= maxRadius; radius += 1) {
+      let nearest: { x: number; y: number; distance: number } | undefined;
+      this._ringTiles(column, row, radius).forEach(([eachColumn, eachRow]) => {
+        if (!this._isWallTile(eachColumn, eachRow)) {
+          const center = {
+            x: (eachColumn + 0.5) * this._tileWidth,
+            y: (eachRow + 0.5) * this._tileHeight,
+          };
+          const distance = Math.hypot(center.x - clamped.x, center.y - clamped.y);
+          if (!nearest || distance < nearest.distance) {
+            nearest = { ...center, distance };
+          }
+        }
+      });
+      if (nearest) {
+        return { x: nearest.x, y: nearest.y };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns the [column, row] of each tile within the map on the square ring of tiles that are
+   *  radius tiles from the given tile, visiting only the ring's perimeter
+   */
+  private _ringTiles(column: number, row: number, radius: number): [number, number][] {
+    const tiles: [number, number][] = [];
+    const firstColumn = Math.max(column - radius, 0);
+    const lastColumn = Math.min(column + radius, this._widthInTiles - 1);
+    [row - radius, row + radius]
+      .filter(eachRow => eachRow >= 0 && eachRow < this._heightInTiles)
+      .forEach(eachRow => {
+        for (let eachColumn = firstColumn; eachColumn <= lastColumn; eachColumn += 1) {
+          tiles.push([eachColumn, eachRow]);
+        }
+      });
+    const firstRow = Math.max(row - radius + 1, 0);
+    const lastRow = Math.min(row + radius - 1, this._heightInTiles - 1);
+    [column - radius, column + radius]
+      .filter(eachColumn => eachColumn >= 0 && eachColumn < this._widthInTiles)
+      .forEach(eachColumn => {
+        for (let eachRow = firstRow; eachRow <= lastRow; eachRow += 1) {
+          tiles.push([eachColumn, eachRow]);
+        }
+      });
+    return tiles;
+  }
+
+  /**
+   * @returns the closest point to the given one that is within the bounds of the map
+   */
+  public clamp(x: number, y: number): { x: number; y: number } {
+    return {
+      x: Math.min(Math.max(x, 0), this.width - 1),
+      y: Math.min(Math.max(y, 0), this.height - 1),
+    };
+  }
+
+  /**
+   * Builds the collision grid for a map from its Walls layer
+   *
+   * @returns undefined if the map does not have a Walls layer (and so has no collision information)
+   * @throws Error if the map or its Walls layer is malformed, or has more than MAX_MAP_TILES tiles
+   */
+  static fromMap(map: ITiledMap): CollisionGrid | undefined {
+    const wallsLayer = map.layers.find(eachLayer => eachLayer.name === WALLS_LAYER_NAME);
+    if (!wallsLayer) {
+      return undefined;
+    }
+    if (wallsLayer.type !== 'tilelayer') {
+      throw new Error(
+        `Expected ${WALLS_LAYER_NAME} to be a tile layer, but it is a ${wallsLayer.type}`,
+      );
+    }
+    const tileLayer = wallsLayer as ITiledMapTileLayer;
+    if (map.infinite || tileLayer.chunks) {
+      throw new Error('Infinite maps are not supported');
+    }
+    const widthInTiles = tileLayer.width ?? map.width;
+    const heightInTiles = tileLayer.height ?? map.height;
+    const { tilewidth, tileheight } = map;
+    if (!widthInTiles || !heightInTiles || !tilewidth || !tileheight) {
+      throw new Error(`Unable to determine the dimensions of the ${WALLS_LAYER_NAME} layer`);
+    }
+    const tileCount = widthInTiles * heightInTiles;
+    if (tileCount > MAX_MAP_TILES) {
+      throw new Error(`The ${WALLS_LAYER_NAME} layer must have at most ${MAX_MAP_TILES} tiles`);
+    }
+    const walls = decodeTileData(tileLayer, tileCount).map(gid => gid !== 0);
+    return new CollisionGrid(widthInTiles, heightInTiles, tilewidth, tileheight, walls);
+  }
+}
@@ -1,9 +1,10 @@
 import { mock, mockClear } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
+import InvalidParametersError from '../lib/InvalidParametersError';
 import Player from '../lib/Player';
 import { getLastEmittedEvent } from '../TestUtils';
 import { TownEmitter } from '../types/CoveyTownSocket';
-import ConversationArea from './ConversationArea';
+import ConversationArea, { MAX_TOPIC_HISTORY, MAX_TOPIC_LENGTH } from './ConversationArea';
 
 describe('ConversationArea', () => {
   const testAreaBox = { x: 100, y: 100, width: 100, height: 100 };
@@ -28,14 +29,14 @@ describe('ConversationArea', () => {
         topic,
         id,
         occupants: [newPlayer.id],
+        topicHistory: [],
         type: 'ConversationArea',
       });
     });
-    it("Sets the player's conversationLabel and emits an update for their location", () => {
+    it("Sets the player's conversationLabel, leaving the town to send their movement", () => {
       expect(newPlayer.location.interactableID).toEqual(id);
 
-      const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-      expect(lastEmittedMovement.location.interactableID).toEqual(id);
+      expect(() => getLastEmittedEvent(townEmitter, 'playersMoved')).toThrowError();
     });
   });
   describe('remove', () => {
@@ -51,14 +52,14 @@ describe('ConversationArea', () => {
         topic,
         id,
         occupants: [extraPlayer.id],
+        topicHistory: [],
         type: 'ConversationArea',
       });
     });
-    it("Clears the player's conversationLabel and emits an update for their location", () => {
+    it("Clears the player's conversationLabel, leaving the town to send their movement", () => {
       testArea.remove(newPlayer);
       expect(newPlayer.location.interactableID).toBeUndefined();
-      const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-      expect(lastEmittedMovement.location.interactableID).toBeUndefined();
+      expect(() => getLastEmittedEvent(townEmitter, 'playersMoved')).toThrowError();
     });
     it('Clears the topic of the conversation area when the last occupant leaves', () => {
       testArea.remove(newPlayer);
@@ -67,20 +68,109 @@ describe('ConversationArea', () => {
         topic: undefined,
         id,
         occupants: [],
+        topicHistory: [],
         type: 'ConversationArea',
       });
       expect(testArea.topic).toBeUndefined();
     });
   });
-  test('toModel sets the ID, topic and occupants and sets no other properties', () => {
+  test('toModel sets the ID, topic, topic history and occupants and sets no other properties', () => {
     const model = testArea.toModel();
     expect(model).toEqual({
       id,
       topic,
       occupants: [newPlayer.id],
+      topicHistory: [],
       type: 'ConversationArea',
     });
   });
+  describe('handleCommand', () => {
+    it('Sets, changes and clears the topic, and emits each change', () => {
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: '  Lunch plans ' }, newPlayer);
+      expect(testArea.topic).toEqual('Lunch plans');
+      expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toMatchObject({
+        topic: 'Lunch plans',
+      });
+
+      testArea.handleCommand({ type: 'ClearConversationTopic' }, newPlayer);
+      expect(testArea.topic).toBeUndefined();
+      expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toMatchObject({
+        topic: undefined,
+      });
+    });
+    it('Records who set each topic and when, keeping only the most recent changes', () => {
+      const otherPlayer = new Player(nanoid(), mock<TownEmitter>());
+      testArea.add(otherPlayer);
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: 'First' }, newPlayer);
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: 'First' }, otherPlayer);
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: 'Second' }, otherPlayer);
+      expect(testArea.topicHistory).toEqual([
+        { topic: 'First', setBy: newPlayer.id, setAt: expect.any(Date) },
+        { topic: 'Second', setBy: otherPlayer.id, setAt: expect.any(Date) },
+      ]);
+      expect(testArea.toModel().topicHistory).toEqual(testArea.topicHistory);
+
+      for (let i = 0; i < MAX_TOPIC_HISTORY; i++) {
+        testArea.handleCommand({ type: 'SetConversationTopic', topic: `Topic ${i}` }, newPlayer);
+      }
+      expect(testArea.topicHistory.length).toEqual(MAX_TOPIC_HISTORY);
+      expect(testArea.topicHistory[0].topic).toEqual('Topic 0');
+      expect(testArea.topicHistory[MAX_TOPIC_HISTORY - 1].topic).toEqual(
+        `Topic ${MAX_TOPIC_HISTORY - 1}`,
+      );
+    });
+    it('Records who cleared the topic, but not clearing a topic that is not set', () => {
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: 'Lunch' }, newPlayer);
+      testArea.handleCommand({ type: 'ClearConversationTopic' }, newPlayer);
+      testArea.handleCommand({ type: 'ClearConversationTopic' }, newPlayer);
+      expect(testArea.topicHistory).toEqual([
+        { topic: 'Lunch', setBy: newPlayer.id, setAt: expect.any(Date) },
+        { topic: undefined, setBy: newPlayer.id, setAt: expect.any(Date) },
+      ]);
+    });
+    it('Keeps the topic history when the area empties', () => {
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: 'Lunch' }, newPlayer);
+      testArea.remove(newPlayer);
+      expect(testArea.topic).toBeUndefined();
+      expect(testArea.topicHistory.map(eachChange => eachChange.topic)).toEqual(['Lunch']);
+    });
+    it('Rejects commands from players who are not in the area', () => {
+      const outsider = new Player(nanoid(), mock<TownEmitter>());
+      expect(() =>
+        testArea.handleCommand({ type: 'SetConversationTopic', topic: 'Lunch' }, outsider),
+      ).toThrow(new InvalidParametersError('Player is not in this conversation area'));
+      expect(() => testArea.handleCommand({ type: 'ClearConversationTopic' }, outsider)).toThrow(
+        InvalidParametersError,
+      );
+      expect(testArea.topic).toEqual(topic);
+    });
+    it('Lets players within an inactive area set its topic', () => {
+      testArea.remove(newPlayer);
+      const outsider = new Player(nanoid(), mock<TownEmitter>());
+      expect(() =>
+        testArea.handleCommand({ type: 'SetConversationTopic', topic: 'Lunch' }, outsider),
+      ).toThrow(InvalidParametersError);
+
+      newPlayer.location = { x: 150, y: 150, rotation: 'front', moving: false };
+      testArea.handleCommand({ type: 'SetConversationTopic', topic: 'Lunch' }, newPlayer);
+      expect(testArea.topic).toEqual('Lunch');
+    });
+    it.each([
+      [' ', 'Topic must not be empty'],
+      ['x'.repeat(MAX_TOPIC_LENGTH + 1), `Topic must be at most ${MAX_TOPIC_LENGTH} characters`],
+    ])('Rejects invalid topics (%p)', (invalidTopic, message) => {
+      expect(() =>
+        testArea.handleCommand({ type: 'SetConversationTopic', topic: invalidTopic }, newPlayer),
+      ).toThrow(new InvalidParametersError(message));
+      expect(testArea.topic).toEqual(topic);
+      expect(testArea.topicHistory).toEqual([]);
+    });
+    it('Rejects other commands', () => {
+      expect(() => testArea.handleCommand({ type: 'PlaylistSkip' }, newPlayer)).toThrow(
+        new InvalidParametersError('Unknown command type'),
+      );
+    });
+  });
   describe('fromMapObject', () => {
     it('Throws an error if the width or height are missing', () => {
       expect(() =>
@@ -105,5 +195,29 @@ describe('ConversationArea', () => {
       expect(val.topic).toBeUndefined();
       expect(val.occupantsByID).toEqual([]);
     });
+    it('Creates a conversation area from a polygon or ellipse object', () => {
+      const polygon = ConversationArea.fromMapObject(
+        {
+          x: 10,
+          y: 20,
+          name: 'triangle',
+          id: 10,
+          visible: true,
+          polygon: [
+            { x: 0, y: 0 },
+            { x: 30, y: 0 },
+            { x: 0, y: 40 },
+          ],
+        },
+        townEmitter,
+      );
+      expect(polygon.boundingBox).toEqual({ x: 10, y: 20, width: 30, height: 40 });
+      expect(polygon.shape.type).toEqual('polygon');
+      const ellipse = ConversationArea.fromMapObject(
+        { x: 10, y: 20, width: 30, height: 40, ellipse: true, name: 'oval', id: 11, visible: true },
+        townEmitter,
+      );
+      expect(ellipse.shape).toEqual({ type: 'ellipse' });
+    });
   });
 });
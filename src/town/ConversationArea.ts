@@ -6,14 +6,32 @@ import {
   ConversationArea as ConversationAreaModel,
   InteractableCommand,
   InteractableCommandReturnType,
+  TopicChange,
   TownEmitter,
 } from '../types/CoveyTownSocket';
+import { AreaShape, areaGeometryFromMapObject } from './AreaGeometry';
 import InteractableArea from './InteractableArea';
 
+/** The longest topic that players may set with a command */
+export const MAX_TOPIC_LENGTH = 200;
+
+/** The number of topic changes that a conversation area remembers */
+export const MAX_TOPIC_HISTORY = 20;
+
 export default class ConversationArea extends InteractableArea {
   /* The topic of the conversation area, or undefined if it is not set */
   public topic?: string;
 
+  private _topicHistory: TopicChange[] = [];
+
+  /**
+   * The most recent topics that have been set (or cleared) in this area, with who set them and when,
+   * oldest first
+   */
+  public get topicHistory(): TopicChange[] {
+    return this._topicHistory;
+  }
+
   /** The conversation area is "active" when there are players inside of it  */
   public get isActive(): boolean {
     return this._occupants.length > 0;
@@ -25,16 +43,33 @@ export default class ConversationArea extends InteractableArea {
    * @param conversationAreaModel model containing this area's current topic and its ID
    * @param coordinates  the bounding box that defines this conversation area
    * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param shape the shape of this conversation area within its bounding box, a rectangle by default
    */
   public constructor(
     { topic, id }: Omit<ConversationAreaModel, 'type'>,
     coordinates: BoundingBox,
     townEmitter: TownEmitter,
+    shape?: AreaShape,
   ) {
-    super(id, coordinates, townEmitter);
+    super(id, coordinates, townEmitter, shape);
     this.topic = topic;
   }
 
+  /**
+   * Sets or clears the topic of this conversation area, recording the change in its topic history
+   * (which keeps the last MAX_TOPIC_HISTORY changes). Does not emit the change.
+   *
+   * @param topic the new topic, or undefined to clear the topic
+   * @param setBy the player who set or cleared the topic
+   */
+  public setTopic(topic: string | undefined, setBy: Player): void {
+    this.topic = topic;
+    this._topicHistory = [
+      ...this._topicHistory,
+      { topic, setBy: setBy.id, setAt: new Date() },
+    ].slice(-MAX_TOPIC_HISTORY);
+  }
+
   /**
    * Removes a player from this conversation area.
    *
@@ -60,13 +95,14 @@ export default class ConversationArea extends InteractableArea {
       id: this.id,
       occupants: this.occupantsByID,
       topic: this.topic,
+      topicHistory: this._topicHistory,
       type: 'ConversationArea',
     };
   }
 
   /**
    * Creates a new ConversationArea object that will represent a Conversation Area object in the town map.
-   * @param mapObject An ITiledMapObject that represents a rectangle in which this conversation area exists
+   * @param mapObject An ITiledMapObject that represents a rectangle, ellipse or polygon in which this conversation area exists
    * @param broadcastEmitter An emitter that can be used by this conversation area to broadcast updates
    * @returns
    */
@@ -74,17 +110,56 @@ export default class ConversationArea extends InteractableArea {
     mapObject: ITiledMapObject,
     broadcastEmitter: TownEmitter,
   ): ConversationArea {
-    const { name, width, height } = mapObject;
-    if (!width || !height) {
-      throw new Error(`Malformed viewing area ${name}`);
+    const geometry = areaGeometryFromMapObject(mapObject);
+    if (!geometry) {
+      throw new Error(`Malformed conversation area ${mapObject.name}`);
     }
-    const rect: BoundingBox = { x: mapObject.x, y: mapObject.y, width, height };
-    return new ConversationArea({ id: name, occupants: [] }, rect, broadcastEmitter);
+    return new ConversationArea(
+      { id: mapObject.name, occupants: [] },
+      geometry.boundingBox,
+      broadcastEmitter,
+      geometry.shape,
+    );
   }
 
-  public handleCommand<
-    CommandType extends InteractableCommand,
-  >(): InteractableCommandReturnType<CommandType> {
-    throw new InvalidParametersError('Unknown command type');
+  /**
+   * Handles the commands that occupants of this area can send to set, change or clear its topic.
+   * Players who are within an inactive area (which has no occupants) may also set its topic; the
+   * town then adds them to the area. Topics are trimmed, and must not be empty or longer than
+   * MAX_TOPIC_LENGTH. Setting the topic that the area already has, or clearing a topic that is not
+   * set, does nothing.
+   *
+   * @param command the command
+   * @param player the player who sent the command
+   * @throws InvalidParametersError if the player is not in this area, the topic is invalid or the
+   *  command is not a topic command
+   */
+  public handleCommand<CommandType extends InteractableCommand>(
+    command: CommandType,
+    player: Player,
+  ): InteractableCommandReturnType<CommandType> {
+    if (command.type !== 'SetConversationTopic' && command.type !== 'ClearConversationTopic') {
+      throw new InvalidParametersError('Unknown command type');
+    }
+    // Nobody can enter an inactive area, so anyone standing in one may start a conversation there
+    if (!this._occupants.includes(player) && (this.isActive || !this.contains(player.location))) {
+      throw new InvalidParametersError('Player is not in this conversation area');
+    }
+    if (command.type === 'SetConversationTopic') {
+      const topic = command.topic.trim();
+      if (!topic) {
+        throw new InvalidParametersError('Topic must not be empty');
+      }
+      if (topic.length > MAX_TOPIC_LENGTH) {
+        throw new InvalidParametersError(`Topic must be at most ${MAX_TOPIC_LENGTH} characters`);
+      }
+      if (topic !== this.topic) {
+        this.setTopic(topic, player);
+      }
+    } else if (this.topic !== undefined) {
+      this.setTopic(undefined, player);
+    }
+    this._emitAreaChanged();
+    return undefined as InteractableCommandReturnType<CommandType>;
   }
 }
@@ -0,0 +1,70 @@
+import { nanoid } from 'nanoid';
+import { DirectMessage } from '../types/CoveyTownSocket';
+import DirectMessages, { MAX_DIRECT_MESSAGE_HISTORY } from './DirectMessages';
+
+describe('DirectMessages', () => {
+  let directMessages: DirectMessages;
+  const alice = nanoid();
+  const bob = nanoid();
+  const carol = nanoid();
+  function createMessage(from: string, to: string, body = nanoid()): DirectMessage {
+    return { id: nanoid(), from, to, body, dateCreated: new Date() };
+  }
+  beforeEach(() => {
+    directMessages = new DirectMessages();
+  });
+  describe('history', () => {
+    it('Keeps a conversation for each pair of players, in both directions', () => {
+      const first = createMessage(alice, bob);
+      const second = createMessage(bob, alice);
+      const other = createMessage(alice, carol);
+      directMessages.add(first);
+      directMessages.add(other);
+      directMessages.add(second);
+      expect(directMessages.history(alice, bob)).toEqual([first, second]);
+      expect(directMessages.history(bob, alice)).toEqual([first, second]);
+      expect(directMessages.history(carol, alice)).toEqual([other]);
+      expect(directMessages.history(bob, carol)).toEqual([]);
+    });
+    it('Keeps only the most recent messages of each conversation', () => {
+      const messages = Array.from({ length: MAX_DIRECT_MESSAGE_HISTORY + 1 }, () =>
+        createMessage(alice, bob),
+      );
+      messages.forEach(eachMessage => directMessages.add(eachMessage));
+      expect(directMessages.history(alice, bob)).toEqual(messages.slice(1));
+    });
+    it('Forgets the conversations and blocks of a player who leaves', () => {
+      directMessages.add(createMessage(alice, bob));
+      directMessages.add(createMessage(bob, carol));
+      directMessages.setBlocked(alice, carol, true);
+      directMessages.removePlayer(alice);
+      expect(directMessages.history(alice, bob)).toEqual([]);
+      expect(directMessages.history(bob, carol)).toHaveLength(1);
+      expect(directMessages.isBlocked(alice, carol)).toBe(false);
+    });
+  });
+  describe('markRead', () => {
+    it('Marks only unread messages to the reader as read, returning them', () => {
+      const toBob = createMessage(alice, bob);
+      const toAlice = createMessage(bob, alice);
+      directMessages.add(toBob);
+      directMessages.add(toAlice);
+      const dateRead = new Date();
+      expect(directMessages.markRead(bob, [toBob.id, toAlice.id, nanoid()], dateRead)).toEqual([
+        { ...toBob, dateRead },
+      ]);
+      expect(directMessages.history(alice, bob)).toEqual([{ ...toBob, dateRead }, toAlice]);
+      expect(directMessages.markRead(bob, [toBob.id])).toEqual([]);
+    });
+  });
+  describe('setBlocked', () => {
+    it('Blocks messages from one player to another, and not the other way around', () => {
+      expect(directMessages.isBlocked(alice, bob)).toBe(false);
+      directMessages.setBlocked(alice, bob, true);
+      expect(directMessages.isBlocked(alice, bob)).toBe(true);
+      expect(directMessages.isBlocked(bob, alice)).toBe(false);
+      directMessages.setBlocked(alice, bob, false);
+      expect(directMessages.isBlocked(alice, bob)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { DirectMessage, DirectMessageID, PlayerID } from '../types/CoveyTownSocket';
+
+/** The number of direct messages that are kept between each pair of players */
+export const MAX_DIRECT_MESSAGE_HISTORY = 100;
+
+/**
+ * The direct messages that have been sent between the players in a town, kept as a conversation for
+ * each pair of players, and the players that each player has blocked from messaging them.
+ */
+export default class DirectMessages {
+  /** The messages between each pair of players, oldest first, by the IDs of the pair */
+  private _conversations: Map<string, DirectMessage[]> = new Map();
+
+  /** For each player (by ID), the players who may not send them direct messages */
+  private _blocked: Map<PlayerID, Set<PlayerID>> = new Map();
+
+  private static _conversationKey(playerID: PlayerID, otherPlayerID: PlayerID): string {
+    return [playerID, otherPlayerID].sort().join(':');
+  }
+
+  /**
+   * @returns true if the recipient has blocked direct messages from the sender
+   */
+  public isBlocked(recipientID: PlayerID, senderID: PlayerID): boolean {
+    return this._blocked.get(recipientID)?.has(senderID) ?? false;
+  }
+
+  /**
+   * Blocks, or unblocks, direct messages from one player to another
+   *
+   * @param recipientID the player who is blocking messages
+   * @param senderID the player whose messages are blocked
+   * @param isBlocked false to allow messages from the sender again
+   */
+  public setBlocked(recipientID: PlayerID, senderID: PlayerID, isBlocked: boolean): void {
+    const blocked = this._blocked.get(recipientID) ?? new Set();
+    if (isBlocked) {
+      blocked.add(senderID);
+    } else {
+      blocked.delete(senderID);
+    }
+    this._blocked.set(recipientID, blocked);
+  }
+
+  /**
+   * Adds a message to the conversation between its sender and recipient, forgetting the oldest
+   * message in the conversation if it already has MAX_DIRECT_MESSAGE_HISTORY messages
+   */
+  public add(message: DirectMessage): void {
+    const key = DirectMessages._conversationKey(message.from, message.to);
+    this._conversations.set(
+      key,
+      [...(this._conversations.get(key) ?? []), message].slice(-MAX_DIRECT_MESSAGE_HISTORY),
+    );
+  }
+
+  /**
+   * @returns the messages between two players, oldest first
+   */
+  public history(playerID: PlayerID, otherPlayerID: PlayerID): DirectMessage[] {
+    return this._conversations.get(DirectMessages._conversationKey(playerID, otherPlayerID)) ?? [];
+  }
+
+  /**
+   * Records that a player has read some of the messages that were sent to them. Messages that were
+   * not sent to the reader, or that have already been read, are ignored.
+   *
+   * @param readerID the player who read the messages
+   * @param messageIDs the messages that they read
+   * @param dateRead when they read them
+   * @returns the messages that are newly read
+   */
+  public markRead(
+    readerID: PlayerID,
+    messageIDs: DirectMessageID[],
+    dateRead: Date = new Date(),
+  ): DirectMessage[] {
+    const ids = new Set(messageIDs);
+    const read: DirectMessage[] = [];
+    this._conversations.forEach((messages, key) => {
+      this._conversations.set(
+        key,
+        messages.map(eachMessage => {
+          if (eachMessage.to !== readerID || eachMessage.dateRead || !ids.has(eachMessage.id)) {
+            return eachMessage;
+          }
+          const readMessage = { ...eachMessage, dateRead };
+          read.push(readMessage);
+          return readMessage;
+        }),
+      );
+    });
+    return read;
+  }
+
+  /**
+   * Forgets the conversations of a player who has left the town, and who they had blocked
+   */
+  public removePlayer(playerID: PlayerID): void {
+    [...this._conversations.keys()]
+      .filter(eachKey => eachKey.split(':').includes(playerID))
+      .forEach(eachKey => this._conversations.delete(eachKey));
+    this._blocked.delete(playerID);
+  }
+}
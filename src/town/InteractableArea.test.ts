@@ -44,11 +44,10 @@ describe('InteractableArea', () => {
     it('Adds the player to the occupants list', () => {
       expect(testArea.occupantsByID).toEqual([newPlayer.id]);
     });
-    it("Sets the player's conversationLabel and emits an update for their location", () => {
+    it("Sets the player's conversationLabel, leaving the town to send their movement", () => {
       expect(newPlayer.location.interactableID).toEqual(id);
 
-      const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-      expect(lastEmittedMovement.location.interactableID).toEqual(id);
+      expect(() => getLastEmittedEvent(townEmitter, 'playersMoved')).toThrowError();
     });
   });
   describe('remove', () => {
@@ -56,12 +55,11 @@ describe('InteractableArea', () => {
       testArea.remove(newPlayer);
       expect(testArea.occupantsByID).toEqual([]);
     });
-    it("Clears the player's conversationLabel and emits an update for their location", () => {
+    it("Clears the player's conversationLabel, leaving the town to send their movement", () => {
       mockClear(townEmitter);
       testArea.remove(newPlayer);
       expect(newPlayer.location.interactableID).toBeUndefined();
-      const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-      expect(lastEmittedMovement.location.interactableID).toBeUndefined();
+      expect(() => getLastEmittedEvent(townEmitter, 'playersMoved')).toThrowError();
     });
   });
   describe('isActive', () => {
@@ -266,4 +264,50 @@ describe('InteractableArea', () => {
       ).toBe(false);
     });
   });
+  describe('shapes', () => {
+    /** An L-shaped area, which is missing the bottom right quarter of its bounding box */
+    const lShape = new TestInteractableArea('L', testAreaBox, townEmitter, {
+      type: 'polygon',
+      points: [
+        { x: 100, y: 100 },
+        { x: 200, y: 100 },
+        { x: 200, y: 150 },
+        { x: 150, y: 150 },
+        { x: 150, y: 200 },
+        { x: 100, y: 200 },
+      ],
+    });
+    const circle = new TestInteractableArea('O', testAreaBox, townEmitter, { type: 'ellipse' });
+    it.each<[string, InteractableArea, XY]>([
+      ['L', lShape, { x: 120, y: 180 }], // in the lower arm
+      ['L', lShape, { x: 180, y: 120 }], // in the upper arm
+      ['L', lShape, { x: 165, y: 180 }], // beside the lower arm, overlapping it
+      ['circle', circle, { x: 150, y: 150 }], // at the center
+      ['circle', circle, { x: 150, y: 100 - HALF_H + 1 }], // above the top
+    ])('contains returns true for players touching the %s shape at %p', (_, area, location) => {
+      expect(area.contains({ ...defaultLocation(), ...location })).toBe(true);
+    });
+    it.each<[string, InteractableArea, XY]>([
+      ['L', lShape, { x: 185, y: 185 }], // in the missing quarter
+      ['L', lShape, { x: 150 + HALF_W, y: 185 }], // touching the edge of the missing quarter
+      ['circle', circle, { x: 95, y: 80 }], // in the corner of the bounding box
+    ])(
+      'contains returns false for players within the bounding box, but not touching the %s shape at %p',
+      (_, area, location) => {
+        expect(testArea.contains({ ...defaultLocation(), ...location })).toBe(true);
+        expect(area.contains({ ...defaultLocation(), ...location })).toBe(false);
+      },
+    );
+    it('overlaps tests the shapes of both areas', () => {
+      const inMissingQuarter = new TestInteractableArea(
+        'square',
+        { x: 190, y: 220, width: 10, height: 10 },
+        townEmitter,
+      );
+      expect(testArea.overlaps(inMissingQuarter)).toBe(true);
+      expect(lShape.overlaps(inMissingQuarter)).toBe(false);
+      expect(inMissingQuarter.overlaps(lShape)).toBe(false);
+      expect(lShape.overlaps(circle)).toBe(true);
+    });
+  });
 });
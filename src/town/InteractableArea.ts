@@ -8,6 +8,13 @@ import {
   PlayerLocation,
   TownEmitter,
 } from '../types/CoveyTownSocket';
+import {
+  AreaGeometry,
+  AreaShape,
+  areaIntersectsRect,
+  areasAreWithin,
+  RECTANGLE,
+} from './AreaGeometry';
 
 export const PLAYER_SPRITE_WIDTH = 32;
 export const PLAYER_SPRITE_HEIGHT = 64;
@@ -28,6 +35,9 @@ export default abstract class InteractableArea {
   /* The height of this area */
   private _height: number;
 
+  /* The shape of this area within its bounding box */
+  private _shape: AreaShape;
+
   /* The current set of players in this area. Maintained by the InteractableArea class. */
   protected _occupants: Player[] = [];
 
@@ -54,26 +64,71 @@ export default abstract class InteractableArea {
     return { x: this._x, y: this._y, width: this._width, height: this._height };
   }
 
+  /**
+   * Moves or resizes this area (when the town's map is replaced). Does not change its occupants.
+   */
+  public set boundingBox({ x, y, width, height }: BoundingBox) {
+    this._x = x;
+    this._y = y;
+    this._width = width;
+    this._height = height;
+  }
+
+  public get shape(): AreaShape {
+    return this._shape;
+  }
+
+  /**
+   * Changes the shape of this area (when the town's map is replaced). Does not change its occupants.
+   */
+  public set shape(shape: AreaShape) {
+    this._shape = shape;
+  }
+
+  public get geometry(): AreaGeometry {
+    return { boundingBox: this.boundingBox, shape: this._shape };
+  }
+
+  /**
+   * The region in which the center of a player must be for the player to overlap this area: this area's
+   * bounding box, expanded by half of the player's width and height on each side
+   */
+  public get interactionBounds(): BoundingBox {
+    return {
+      x: this._x - PLAYER_SPRITE_WIDTH / 2,
+      y: this._y - PLAYER_SPRITE_HEIGHT / 2,
+      width: this._width + PLAYER_SPRITE_WIDTH,
+      height: this._height + PLAYER_SPRITE_HEIGHT,
+    };
+  }
+
   /**
    * Constructs a new InteractableArea
    * @param id Unique ID for this area
    * @param boundingBox The rectangular coordinates that define this InteractableArea, where (x,y) specify the top-left corner
    * @param townEmitter An emitter that can be used to broadcast events to players in this town
+   * @param shape The shape of this area within its bounding box, a rectangle filling it by default
    */
-  public constructor(id: string, { x, y, width, height }: BoundingBox, townEmitter: TownEmitter) {
+  public constructor(
+    id: string,
+    { x, y, width, height }: BoundingBox,
+    townEmitter: TownEmitter,
+    shape: AreaShape = RECTANGLE,
+  ) {
     this._id = id;
     this._x = x;
     this._y = y;
     this._width = width;
     this._height = height;
     this._townEmitter = townEmitter;
+    this._shape = shape;
   }
 
   /**
    * Adds a new player to this interactable area.
    *
-   * Adds the player to this area's occupants array, sets the player's interactableID, informs players in the town
-   * that the player's interactableID has changed, and informs players in the town that the area has changed.
+   * Adds the player to this area's occupants array, sets the player's interactableID, and informs players in the town
+   * that the area has changed. The town sends the player's new interactableID with their next movement.
    *
    * Assumes that the player specified is a member of this town.
    *
@@ -82,15 +137,14 @@ export default abstract class InteractableArea {
   public add(player: Player): void {
     this._occupants.push(player);
     player.location.interactableID = this.id;
-    this._townEmitter.emit('playerMoved', player.toPlayerModel());
     this._emitAreaChanged();
   }
 
   /**
    * Removes a player from this interactable area.
    *
-   * Removes the player from this area's occupants array, clears the player's interactableID, informs players in the town
-   * that the player's interactableID has changed, and informs players in the town that the area has changed
+   * Removes the player from this area's occupants array, clears the player's interactableID, and informs players in
+   * the town that the area has changed. The town sends the player's new interactableID with their next movement.
    *
    * Assumes that the player specified is an occupant of this interactable area
    *
@@ -99,7 +153,6 @@ export default abstract class InteractableArea {
   public remove(player: Player): void {
     this._occupants = this._occupants.filter(eachPlayer => eachPlayer !== player);
     player.location.interactableID = undefined;
-    this._townEmitter.emit('playerMoved', player.toPlayerModel());
     this._emitAreaChanged();
   }
 
@@ -119,43 +172,38 @@ export default abstract class InteractableArea {
    *
    * This interactable area contains a PlayerLocation if any part of the player is within any part of this area.
    * A PlayerLocation specifies only the center (x,y) coordinate of the player; the width and height of the player
-   * are PLAYER_SPRITE_WIDTH and PLAYER_SPRITE_HEIGHT, respectively
+   * are PLAYER_SPRITE_WIDTH and PLAYER_SPRITE_HEIGHT, respectively. For an ellipse or polygon, this is any part of
+   * the player within the shape, not just within its bounding box.
    *
    * @param location location to check
    *
    * @returns true if location is within this area
    */
   public contains(location: PlayerLocation): boolean {
-    return (
-      location.x + PLAYER_SPRITE_WIDTH / 2 > this._x &&
-      location.x - PLAYER_SPRITE_WIDTH / 2 < this._x + this._width &&
-      location.y + PLAYER_SPRITE_HEIGHT / 2 > this._y &&
-      location.y - PLAYER_SPRITE_HEIGHT / 2 < this._y + this._height
-    );
+    return areaIntersectsRect(this.geometry, {
+      x: location.x - PLAYER_SPRITE_WIDTH / 2,
+      y: location.y - PLAYER_SPRITE_HEIGHT / 2,
+      width: PLAYER_SPRITE_WIDTH,
+      height: PLAYER_SPRITE_HEIGHT,
+    });
   }
 
   /**
    * Tests if another InteractableArea overlaps with this one. Two InteractableArea's overlap if it is possible for one player
-   * to overlap with both of them simultaneously. That is: There is an overlap if the rectangles of the two InteractableAreas
-   * overlap, where the rectangles are expanded by PLAYER_SPRITE_WIDTH/2 in each X dimension and PLAYER_SPRITE_HEIGHT/2 in each Y
-   * dimension.
+   * to overlap with both of them simultaneously. That is: There is an overlap if the shapes of the two InteractableAreas
+   * come within PLAYER_SPRITE_WIDTH of each other horizontally and PLAYER_SPRITE_HEIGHT vertically. For two rectangles,
+   * this is the same as their rectangles overlapping when expanded by PLAYER_SPRITE_WIDTH/2 in each X dimension and
+   * PLAYER_SPRITE_HEIGHT/2 in each Y dimension.
    *
    * @param otherInteractable interactable to checko
    *
    * @returns true if a player could be contained within both InteractableAreas simultaneously
    */
   public overlaps(otherInteractable: InteractableArea): boolean {
-    const toRectPoints = ({ _x, _y, _width, _height }: InteractableArea) => ({
-      x1: _x - PLAYER_SPRITE_WIDTH / 2,
-      x2: _x + _width + PLAYER_SPRITE_WIDTH / 2,
-      y1: _y - PLAYER_SPRITE_HEIGHT / 2,
-      y2: _y + _height + PLAYER_SPRITE_HEIGHT / 2,
+    return areasAreWithin(this.geometry, otherInteractable.geometry, {
+      width: PLAYER_SPRITE_WIDTH,
+      height: PLAYER_SPRITE_HEIGHT,
     });
-    const rect1 = toRectPoints(this);
-    const rect2 = toRectPoints(otherInteractable);
-    const noOverlap =
-      rect1.x1 >= rect2.x2 || rect2.x1 >= rect1.x2 || rect1.y1 >= rect2.y2 || rect2.y1 >= rect1.y2;
-    return !noOverlap;
   }
 
   /**
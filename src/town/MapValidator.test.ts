@@ -0,0 +1,324 @@
+import fs from 'fs/promises';
+import { mock } from 'jest-mock-extended';
+import { MapValidationIssue } from '../api/Model';
+import { InvalidMapError } from '../lib/MapLibrary';
+import TownsStore from '../lib/TownsStore';
+import { MAX_MAP_TILES } from './CollisionGrid';
+import validateMap from './MapValidator';
+import { MapsController } from './MapsController';
+
+type TestObject = {
+  id: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  properties?: { name: string; type: string; value: unknown }[];
+  polygon?: { x: number; y: number }[];
+};
+
+let nextObjectID = 1;
+
+function testObject(
+  type: string,
+  name: string,
+  x: number,
+  y: number,
+  width = 100,
+  height = 100,
+  properties?: TestObject['properties'],
+): TestObject {
+  nextObjectID += 1;
+  return { id: nextObjectID, name, type, x, y, width, height, properties };
+}
+
+function spawnPoint(x: number, y: number): TestObject {
+  return testObject('', 'Spawn Point', x, y, 0, 0);
+}
+
+/** A 20 x 10 tile map, with a wall in column 10 if walled is set */
+function testMap(objects: TestObject[], walled = false) {
+  const walls = Array.from({ length: 200 }, (_, i) => (walled && i % 20 === 10 ? 1 : 0));
+  return {
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilewidth: 32,
+    width: 20,
+    height: 10,
+    tilesets: [],
+    type: 'map',
+    layers: [
+      {
+        id: 1,
+        name: 'Walls',
+        type: 'tilelayer',
+        width: 20,
+        height: 10,
+        data: walls,
+        opacity: 1,
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+      {
+        id: 2,
+        name: 'Objects',
+        type: 'objectgroup',
+        objects: objects.map(eachObject => ({ rotation: 0, visible: true, ...eachObject })),
+        opacity: 1,
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+  };
+}
+
+function errorsIn(issues: MapValidationIssue[]) {
+  return issues.filter(eachIssue => eachIssue.severity === 'error');
+}
+
+describe('validateMap', () => {
+  it('Accepts the indoors map', async () => {
+    const map = JSON.parse(await fs.readFile('testData/indoors.json', 'utf-8'));
+    const { isValid, issues } = validateMap(map);
+    expect(issues).toEqual([]);
+    expect(isValid).toBe(true);
+  });
+  it('Accepts the indoors map in TMX format, and reports malformed TMX', async () => {
+    const { isValid, issues } = validateMap(await fs.readFile('testData/indoors.tmx', 'utf-8'));
+    expect(issues).toEqual([]);
+    expect(isValid).toBe(true);
+    expect(validateMap('<map><layer></map>')).toEqual({
+      isValid: false,
+      issues: [expect.objectContaining({ message: expect.stringMatching(/Malformed TMX/) })],
+    });
+  });
+  it('Accepts a map with areas, a game, a transporter and a spawn point', () => {
+    const target = testObject('', 'target', 400, 50, 0, 0);
+    const { isValid, issues } = validateMap(
+      testMap([
+        spawnPoint(50, 50),
+        testObject('ConversationArea', 'Conv', 0, 100),
+        testObject('GameArea', 'Game', 150, 100, 100, 100, [
+          { name: 'type', type: 'string', value: 'TicTacToe' },
+        ]),
+        testObject('Transporter', 'Stairs', 280, 0, 20, 64, [
+          { name: 'target', type: 'object', value: target.id },
+        ]),
+        target,
+      ]),
+    );
+    expect(issues).toEqual([]);
+    expect(isValid).toBe(true);
+  });
+  it('Reports a map that is not a Tiled map', () => {
+    const { isValid, issues } = validateMap({ layers: 'not layers' });
+    expect(isValid).toBe(false);
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues[0].message).toMatch(/Not a valid Tiled map/);
+  });
+  it('Reports a map with too many tiles, without checking anything else', () => {
+    const map = testMap([testObject('ConversationArea', 'Outside', 5000, 5000)]);
+    map.width = MAX_MAP_TILES;
+    map.height = 2;
+    expect(validateMap(map)).toEqual({
+      isValid: false,
+      issues: [{ severity: 'error', message: `Map must have at most ${MAX_MAP_TILES} tiles` }],
+    });
+  });
+  it('Reports a missing Objects layer', () => {
+    const map = testMap([]);
+    map.layers = map.layers.filter(eachLayer => eachLayer.name !== 'Objects');
+    const { isValid, issues } = validateMap(map);
+    expect(isValid).toBe(false);
+    expect(issues).toContainEqual({
+      severity: 'error',
+      message: 'Unable to find objects layer in map',
+    });
+  });
+  it('Reports every problem at once, with the name and coordinates of each object', () => {
+    const { isValid, issues } = validateMap(
+      testMap([
+        spawnPoint(50, 50),
+        testObject('ConversationArea', 'Same', 0, 100),
+        testObject('ViewingArea', 'Same', 400, 100),
+        testObject('ViewingArea', 'NoSize', 400, 250, 0, 0),
+        testObject('GameArea', 'Chess', 400, 350, 50, 50, [
+          { name: 'type', type: 'string', value: 'Chess' },
+        ]),
+      ]),
+    );
+    expect(isValid).toBe(false);
+    expect(errorsIn(issues)).toEqual([
+      expect.objectContaining({ objectName: 'Same', x: 400, y: 100 }),
+      expect.objectContaining({ objectName: 'NoSize', x: 400, y: 250 }),
+      expect.objectContaining({ objectName: 'Chess', x: 400, y: 350 }),
+    ]);
+    expect(issues[0].message).toMatch(/Duplicate area name Same/);
+    expect(issues[1].message).toMatch(/has no width or height/);
+    expect(issues[2].message).toMatch(/unknown game type Chess/);
+  });
+  it('Reports each pair of overlapping areas once', () => {
+    const { issues } = validateMap(
+      testMap([
+        spawnPoint(50, 50),
+        testObject('ConversationArea', 'A', 100, 100),
+        testObject('ConversationArea', 'B', 150, 150),
+        testObject('ViewingArea', 'C', 500, 100),
+      ]),
+    );
+    expect(errorsIn(issues)).toEqual([
+      expect.objectContaining({ message: 'ConversationArea A overlaps ConversationArea B' }),
+    ]);
+  });
+  it('Does not report areas that players can not touch at the same time', () => {
+    const { issues } = validateMap(
+      testMap([
+        spawnPoint(50, 50),
+        testObject('ConversationArea', 'A', 100, 100),
+        testObject('ConversationArea', 'B', 232, 100),
+      ]),
+    );
+    expect(issues).toEqual([]);
+  });
+  it('Tests polygon areas for overlaps by their shape, and reports polygons with no area', () => {
+    const lShape = {
+      ...testObject('ConversationArea', 'L', 100, 100, 0, 0),
+      polygon: [
+        { x: 0, y: 0 },
+        { x: 200, y: 0 },
+        { x: 200, y: 100 },
+        { x: 100, y: 100 },
+        { x: 100, y: 200 },
+        { x: 0, y: 200 },
+      ],
+    };
+    const line = {
+      ...testObject('ViewingArea', 'Line', 500, 50, 0, 0),
+      polygon: [
+        { x: 0, y: 0 },
+        { x: 50, y: 0 },
+        { x: 100, y: 0 },
+      ],
+    };
+    const { issues } = validateMap(
+      testMap([
+        spawnPoint(50, 50),
+        lShape,
+        testObject('ConversationArea', 'In the corner of L', 250, 270, 40, 30),
+        line,
+      ]),
+    );
+    expect(errorsIn(issues)).toEqual([
+      expect.objectContaining({
+        objectName: 'Line',
+        message: 'ViewingArea Line is a polygon with no area',
+      }),
+    ]);
+  });
+  it('Warns about objects of unknown types and a missing spawn point', () => {
+    const { isValid, issues } = validateMap(testMap([testObject('Trampoline', 'Boing', 10, 20)]));
+    expect(isValid).toBe(true);
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', objectName: 'Boing', x: 10, y: 20 }),
+      expect.objectContaining({
+        severity: 'warning',
+        message: expect.stringMatching(/Spawn Point/),
+      }),
+    ]);
+  });
+  it('Reports transporters with missing or dangling targets, but not targets on walls', () => {
+    const onWall = testObject('', 'wall target', 10 * 32 + 5, 50, 0, 0);
+    const { issues } = validateMap(
+      testMap(
+        [
+          spawnPoint(50, 50),
+          testObject('Transporter', 'NoTarget', 100, 0, 20, 20),
+          testObject('Transporter', 'Dangling', 150, 0, 20, 20, [
+            { name: 'target', type: 'object', value: 999 },
+          ]),
+          testObject('Transporter', 'IntoWall', 200, 0, 20, 20, [
+            { name: 'target', type: 'object', value: onWall.id },
+          ]),
+          onWall,
+        ],
+        true,
+      ),
+    );
+    expect(errorsIn(issues)).toEqual([
+      expect.objectContaining({
+        objectName: 'NoTarget',
+        message: expect.stringMatching(/no target/),
+      }),
+      expect.objectContaining({ objectName: 'Dangling', message: expect.stringMatching(/999/) }),
+    ]);
+  });
+  it('Reports a spawn point that is on a wall or outside of the map', () => {
+    expect(errorsIn(validateMap(testMap([spawnPoint(10 * 32 + 5, 50)], true)).issues)).toEqual([
+      expect.objectContaining({ message: 'Spawn point is on a wall', x: 325, y: 50 }),
+    ]);
+    expect(errorsIn(validateMap(testMap([spawnPoint(5000, 50)])).issues)).toEqual([
+      expect.objectContaining({ message: 'Spawn point is outside of the map' }),
+    ]);
+  });
+  it('Reports a spawn point from which players can not reach any area or transporter', () => {
+    const areaBeyondWall = testObject('ConversationArea', 'Conv', 400, 100);
+    expect(
+      errorsIn(validateMap(testMap([spawnPoint(50, 50), areaBeyondWall], true)).issues),
+    ).toEqual([
+      expect.objectContaining({
+        message: 'Spawn point is walled in: players can not reach any area or transporter',
+        x: 50,
+        y: 50,
+      }),
+    ]);
+    const areaOnSameSide = testObject('ConversationArea', 'Near', 100, 100);
+    expect(validateMap(testMap([spawnPoint(50, 50), areaOnSameSide], true)).isValid).toBe(true);
+  });
+  it('Reports a spawn point on a tile that is surrounded by walls', () => {
+    const map = testMap([spawnPoint(5 * 32 + 10, 5 * 32 + 10)]);
+    // Wall in the tile at column 5, row 5
+    map.layers[0].data = Array.from({ length: 200 }, (_, i) => {
+      const column = i % 20;
+      const row = Math.floor(i / 20);
+      return Math.abs(column - 5) <= 1 && Math.abs(row - 5) <= 1 && i !== 5 * 20 + 5 ? 1 : 0;
+    });
+    expect(errorsIn(validateMap(map).issues)).toEqual([
+      expect.objectContaining({
+        message: 'Spawn point is walled in: players can not reach any other tile',
+      }),
+    ]);
+  });
+});
+
+describe('MapsController', () => {
+  let controller: MapsController;
+  beforeEach(() => {
+    TownsStore.initializeTownsStore(jest.fn().mockReturnValue(mock()));
+    controller = new MapsController();
+  });
+  it('validateMap reports the problems in the posted map', async () => {
+    const result = await controller.validateMap(
+      testMap([spawnPoint(50, 50), testObject('ViewingArea', 'NoSize', 100, 100, 0, 0)]),
+    );
+    expect(result.isValid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ objectName: 'NoSize' })]);
+  });
+  it('uploadMap adds the map to the map library, from which getMap returns it', async () => {
+    const map = testMap([spawnPoint(50, 50), testObject('ViewingArea', 'Screen', 100, 100)]);
+    const { mapID } = await controller.uploadMap(map);
+    expect(await TownsStore.getInstance().mapLibrary.getMap(mapID)).toBeDefined();
+    expect(await controller.getMap(mapID)).toMatchObject({ width: 20, height: 10 });
+  });
+  it('uploadMap rejects invalid maps', async () => {
+    await expect(
+      controller.uploadMap(testMap([testObject('ViewingArea', 'NoSize', 100, 100, 0, 0)])),
+    ).rejects.toThrow(InvalidMapError);
+  });
+  it('getMap responds with a 404 status for maps that are not in the library', async () => {
+    await expect(controller.getMap('a'.repeat(64))).rejects.toMatchObject({ status: 404 });
+  });
+});
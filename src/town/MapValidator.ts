@@ -0,0 +1,282 @@
+import { ITiledMap, ITiledMapObject, ITiledMapObjectLayer } from '@jonbell/tiled-map-type-guard';
+import { MapValidationIssue, MapValidationResult } from '../api/Model';
+import SpatialIndex from '../lib/SpatialIndex';
+import { BoundingBox } from '../types/CoveyTownSocket';
+import { AreaGeometry, areaGeometryFromMapObject, areasAreWithin } from './AreaGeometry';
+import CollisionGrid, { MAX_MAP_TILES } from './CollisionGrid';
+import { GAME_AREA_TYPES } from './games/GameAreaFactory';
+import { PLAYER_SPRITE_HEIGHT, PLAYER_SPRITE_WIDTH } from './InteractableArea';
+import { tmxToJson } from './TmxParser';
+import { SPAWN_POINT_NAME } from './Transporter';
+
+/** The types of map objects that become interactable areas, whose names must be unique */
+const INTERACTABLE_TYPES = ['ConversationArea', 'ViewingArea', 'GameArea'];
+
+/**
+ * The types of map objects that the server understands. Objects with no type are points, such as the
+ * spawn point and the targets of transporters.
+ */
+const KNOWN_OBJECT_TYPES = [...INTERACTABLE_TYPES, 'Transporter', ''];
+
+/** A map object that is an interactable area, with the region in which a player could touch it */
+type AreaObject = {
+  mapObject: ITiledMapObject;
+  geometry: AreaGeometry;
+  interactionBounds: BoundingBox;
+};
+
+function issueAt(
+  severity: MapValidationIssue['severity'],
+  message: string,
+  mapObject: ITiledMapObject,
+): MapValidationIssue {
+  return { severity, message, objectName: mapObject.name, x: mapObject.x, y: mapObject.y };
+}
+
+function getProperty(mapObject: ITiledMapObject, name: string): unknown {
+  return mapObject.properties?.find(eachProperty => eachProperty.name === name)?.value;
+}
+
+/**
+ * @returns true if a player could be within both areas at once; the same test as
+ *  InteractableArea.overlaps
+ */
+function overlaps(a: AreaObject, b: AreaObject): boolean {
+  return areasAreWithin(a.geometry, b.geometry, {
+    width: PLAYER_SPRITE_WIDTH,
+    height: PLAYER_SPRITE_HEIGHT,
+  });
+}
+
+function boxesIntersect(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Checks that the spawn point is somewhere that a player can stand, and from which they can walk
+ * somewhere: to the region in which they could touch an interactable area or enter a transporter, or
+ * (on a map with neither) at least off of the spawn point's tile. Transporter targets are not
+ * checked: stairs commonly lead onto wall tiles, and towns move such targets to the closest
+ * walkable tile.
+ *
+ * @param destinations the regions that a player at the spawn point should be able to reach
+ */
+function checkSpawnPoint(
+  spawnPoint: ITiledMapObject,
+  collisionGrid: CollisionGrid | undefined,
+  destinations: BoundingBox[],
+  issues: MapValidationIssue[],
+) {
+  if (!collisionGrid) {
+    return;
+  }
+  if (!collisionGrid.isInBounds(spawnPoint.x, spawnPoint.y)) {
+    issues.push(issueAt('error', 'Spawn point is outside of the map', spawnPoint));
+    return;
+  }
+  if (collisionGrid.isWall(spawnPoint.x, spawnPoint.y)) {
+    issues.push(issueAt('error', 'Spawn point is on a wall', spawnPoint));
+    return;
+  }
+  const reachable = collisionGrid.reachableTiles(spawnPoint.x, spawnPoint.y);
+  const isWalledIn =
+    destinations.length > 0
+      ? !reachable.some(eachTile =>
+          destinations.some(eachDestination => boxesIntersect(eachTile, eachDestination)),
+        )
+      : reachable.length <= 1;
+  if (isWalledIn) {
+    const unreachable = destinations.length > 0 ? 'any area or transporter' : 'any other tile';
+    issues.push(
+      issueAt(
+        'error',
+        `Spawn point is walled in: players can not reach ${unreachable}`,
+        spawnPoint,
+      ),
+    );
+  }
+}
+
+/**
+ * Checks the objects of a map, adding an issue for each problem found
+ */
+function validateObjects(
+  objects: ITiledMapObject[],
+  collisionGrid: CollisionGrid | undefined,
+  issues: MapValidationIssue[],
+) {
+  const namedInteractables = new Map<string, ITiledMapObject>();
+  const areas: AreaObject[] = [];
+  /** The regions in which a player would enter each transporter */
+  const transporterBounds: BoundingBox[] = [];
+  objects.forEach(eachObject => {
+    const { name, width, height } = eachObject;
+    const type = eachObject.type ?? '';
+    if (!KNOWN_OBJECT_TYPES.includes(type)) {
+      issues.push(issueAt('warning', `Unknown object type ${type} will be ignored`, eachObject));
+      return;
+    }
+    if (type === '') {
+      return;
+    }
+    if (type === 'Transporter') {
+      if (!width || !height) {
+        issues.push(issueAt('error', `Transporter ${name} has no width or height`, eachObject));
+      } else {
+        transporterBounds.push({
+          x: eachObject.x - PLAYER_SPRITE_WIDTH / 2,
+          y: eachObject.y - PLAYER_SPRITE_HEIGHT / 2,
+          width: width + PLAYER_SPRITE_WIDTH,
+          height: height + PLAYER_SPRITE_HEIGHT,
+        });
+      }
+      const targetID = getProperty(eachObject, 'target');
+      const target = objects.find(eachTarget => eachTarget.id === targetID);
+      if (targetID === undefined) {
+        issues.push(issueAt('error', `Transporter ${name} has no target property`, eachObject));
+      } else if (!target) {
+        issues.push(
+          issueAt(
+            'error',
+            `Transporter ${name} targets object ${targetID}, which does not exist`,
+            eachObject,
+          ),
+        );
+      }
+      return;
+    }
+    if (type === 'GameArea') {
+      const gameType = getProperty(eachObject, 'type');
+      if (typeof gameType !== 'string' || !GAME_AREA_TYPES.includes(gameType)) {
+        const expected = GAME_AREA_TYPES.join(', ');
+        issues.push(
+          issueAt(
+            'error',
+            `GameArea ${name} has unknown game type ${gameType}; expected one of ${expected}`,
+            eachObject,
+          ),
+        );
+      }
+    }
+    const geometry = areaGeometryFromMapObject(eachObject);
+    if (!geometry) {
+      const problem = eachObject.polygon ? 'is a polygon with no area' : 'has no width or height';
+      issues.push(issueAt('error', `${type} ${name} ${problem}`, eachObject));
+    }
+    const duplicate = namedInteractables.get(name);
+    if (duplicate) {
+      issues.push(
+        issueAt(
+          'error',
+          `Duplicate area name ${name}; another area with the same name is at (${duplicate.x}, ${duplicate.y})`,
+          eachObject,
+        ),
+      );
+    } else {
+      namedInteractables.set(name, eachObject);
+    }
+    if (geometry) {
+      const { x, y, width: areaWidth, height: areaHeight } = geometry.boundingBox;
+      areas.push({
+        mapObject: eachObject,
+        geometry,
+        interactionBounds: {
+          x: x - PLAYER_SPRITE_WIDTH / 2,
+          y: y - PLAYER_SPRITE_HEIGHT / 2,
+          width: areaWidth + PLAYER_SPRITE_WIDTH,
+          height: areaHeight + PLAYER_SPRITE_HEIGHT,
+        },
+      });
+    }
+  });
+
+  // Report each overlapping pair of areas once, against the area that comes first in the map
+  const index = new SpatialIndex<AreaObject>();
+  areas.forEach(eachArea => {
+    index
+      .search(eachArea.interactionBounds)
+      .filter(other => overlaps(eachArea, other))
+      .forEach(other =>
+        issues.push(
+          issueAt(
+            'error',
+            `${other.mapObject.type} ${other.mapObject.name} overlaps ${eachArea.mapObject.type} ${eachArea.mapObject.name}`,
+            other.mapObject,
+          ),
+        ),
+      );
+    index.insert(eachArea, eachArea.interactionBounds);
+  });
+
+  const spawnPoint = objects.find(eachObject => eachObject.name === SPAWN_POINT_NAME);
+  if (spawnPoint) {
+    checkSpawnPoint(
+      spawnPoint,
+      collisionGrid,
+      [...areas.map(eachArea => eachArea.interactionBounds), ...transporterBounds],
+      issues,
+    );
+  } else {
+    issues.push({
+      severity: 'warning',
+      message: `Map has no object named ${SPAWN_POINT_NAME}; players will join at (0, 0)`,
+    });
+  }
+}
+
+/**
+ * Validates a Tiled map, reporting every problem that would prevent a town from being created from it,
+ * or that would break the town for players, rather than only the first.
+ *
+ * @param data the parsed contents of a JSON map file, or the contents of a TMX (XML) map file
+ * @returns the problems found in the map, each with the name and coordinates of the object it concerns
+ */
+export default function validateMap(data: unknown): MapValidationResult {
+  const issues: MapValidationIssue[] = [];
+  let mapData = data;
+  if (typeof data === 'string') {
+    try {
+      mapData = tmxToJson(data);
+    } catch (e) {
+      issues.push({ severity: 'error', message: (e as Error).message });
+      return { isValid: false, issues };
+    }
+  }
+  const parsed = ITiledMap.safeParse(mapData);
+  if (!parsed.success) {
+    parsed.error.issues.forEach(eachIssue =>
+      issues.push({
+        severity: 'error',
+        message: `Not a valid Tiled map: ${eachIssue.message} at ${
+          eachIssue.path.join('.') || 'top level'
+        }`,
+      }),
+    );
+    return { isValid: false, issues };
+  }
+  const map = parsed.data;
+  if ((map.width ?? 0) * (map.height ?? 0) > MAX_MAP_TILES) {
+    issues.push({ severity: 'error', message: `Map must have at most ${MAX_MAP_TILES} tiles` });
+    return { isValid: false, issues };
+  }
+
+  let collisionGrid: CollisionGrid | undefined;
+  try {
+    collisionGrid = CollisionGrid.fromMap(map);
+  } catch (e) {
+    issues.push({ severity: 'error', message: (e as Error).message });
+  }
+
+  const objectLayer = map.layers.find(eachLayer => eachLayer.name === 'Objects');
+  if (!objectLayer) {
+    issues.push({ severity: 'error', message: 'Unable to find objects layer in map' });
+  } else if (objectLayer.type !== 'objectgroup') {
+    issues.push({
+      severity: 'error',
+      message: `Expected Objects to be an object layer, but it is a ${objectLayer.type}`,
+    });
+  } else {
+    validateObjects((objectLayer as ITiledMapObjectLayer).objects, collisionGrid, issues);
+  }
+  return { isValid: issues.every(eachIssue => eachIssue.severity !== 'error'), issues };
+}
@@ -0,0 +1,73 @@
+import { Body, Controller, Example, Get, Path, Post, Response, Route, Tags } from 'tsoa';
+
+import { MapUploadResponse, MapValidationResult } from '../api/Model';
+import { InvalidMapError } from '../lib/MapLibrary';
+import CoveyTownsStore from '../lib/TownsStore';
+import validateMap from './MapValidator';
+
+/**
+ * This is the maps route, which helps map designers check their maps before they are deployed, and
+ * holds the library of uploaded maps that towns can be created from
+ */
+@Route('maps')
+@Tags('maps')
+// TSOA (which we use to generate the REST API from this file) does not support default exports, so the controller can't be a default export.
+// eslint-disable-next-line import/prefer-default-export
+export class MapsController extends Controller {
+  private _townsStore: CoveyTownsStore = CoveyTownsStore.getInstance();
+
+  /**
+   * Validate a Tiled map, reporting every problem found in it
+   *
+   * @param map The contents of a Tiled map file: a JSON map, or a TMX (XML) map as a string
+   * @returns Whether a town could be created from the map, and each problem found in it, with the
+   *  name and coordinates of the object that has the problem
+   */
+  @Example<MapValidationResult>({
+    isValid: false,
+    issues: [
+      {
+        severity: 'error',
+        message: 'Transporter Stairs targets object 12, which does not exist',
+        objectName: 'Stairs',
+        x: 2509,
+        y: 1101,
+      },
+    ],
+  })
+  @Post('validate')
+  public async validateMap(@Body() map: unknown): Promise<MapValidationResult> {
+    return validateMap(map);
+  }
+
+  /**
+   * Upload a Tiled map to the map library, so that towns can be created from it
+   *
+   * @param map The contents of a Tiled map file: a JSON map, or a TMX (XML) map as a string
+   * @returns The ID of the map, which is a hash of its contents: uploading the same map again
+   *  returns the same ID
+   */
+  @Post()
+  @Response<InvalidMapError>(400, 'Invalid map')
+  @Response<InvalidMapError>(413, 'Map is too large')
+  public async uploadMap(@Body() map: unknown): Promise<MapUploadResponse> {
+    const mapID = await this._townsStore.mapLibrary.addMap(map);
+    return { mapID };
+  }
+
+  /**
+   * Retrieve a map from the map library
+   *
+   * @param mapID ID of the map, as returned by uploading it
+   * @returns The contents of the Tiled map file, in JSON format
+   */
+  @Get('{mapID}')
+  @Response<InvalidMapError>(404, 'No such map')
+  public async getMap(@Path() mapID: string): Promise<unknown> {
+    const map = await this._townsStore.mapLibrary.getMap(mapID);
+    if (!map) {
+      throw new InvalidMapError('No such map', [], 404);
+    }
+    return map;
+  }
+}
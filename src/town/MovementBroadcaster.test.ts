@@ -0,0 +1,154 @@
+import { DeepMockProxy, mockDeep } from 'jest-mock-extended';
+import Player from '../lib/Player';
+import { createPlayerForTesting } from '../TestUtils';
+import { CoveyTownSocket, PlayerMovementBatch } from '../types/CoveyTownSocket';
+import MovementBroadcaster, {
+  DEFAULT_AREA_OF_INTEREST_RADIUS,
+  DEFAULT_DISTANT_UPDATE_TICKS,
+  DEFAULT_MOVEMENT_TICK_MS,
+} from './MovementBroadcaster';
+
+type TestRecipient = { player: Player; socket: DeepMockProxy<CoveyTownSocket> };
+
+function createRecipient(x: number, y: number): TestRecipient {
+  const player = createPlayerForTesting();
+  player.location = { x, y, rotation: 'front', moving: false };
+  return { player, socket: mockDeep<CoveyTownSocket>() };
+}
+
+function moveTo({ player }: TestRecipient, x: number, y: number) {
+  player.location = { ...player.location, x, y, moving: true };
+}
+
+/** @returns the IDs of the players in each batch of movements sent to the recipient */
+function batchesSentTo({ socket }: TestRecipient): string[][] {
+  return socket.emit.mock.calls
+    .filter(eachCall => eachCall[0] === 'playersMoved')
+    .map(eachCall =>
+      (eachCall[1] as PlayerMovementBatch).movements.map(eachMovement => eachMovement.id),
+    );
+}
+
+describe('MovementBroadcaster', () => {
+  let recipients: TestRecipient[];
+  let broadcaster: MovementBroadcaster;
+  let near: TestRecipient;
+  let far: TestRecipient;
+  let mover: TestRecipient;
+  beforeEach(() => {
+    mover = createRecipient(0, 0);
+    near = createRecipient(DEFAULT_AREA_OF_INTEREST_RADIUS / 2, 0);
+    far = createRecipient(DEFAULT_AREA_OF_INTEREST_RADIUS * 2, 0);
+    recipients = [mover, near, far];
+    broadcaster = new MovementBroadcaster(() => recipients);
+  });
+  afterEach(() => {
+    broadcaster.stop();
+  });
+
+  it('Sends nothing until it ticks', () => {
+    broadcaster.playerMoved(mover.player);
+    expect(batchesSentTo(near)).toEqual([]);
+  });
+  it('Sends players the latest location of nearby players who moved, but not their own', () => {
+    moveTo(mover, 10, 0);
+    broadcaster.playerMoved(mover.player);
+    moveTo(mover, 20, 0);
+    broadcaster.playerMoved(mover.player);
+    broadcaster.tick();
+
+    expect(batchesSentTo(near)).toEqual([[mover.player.id]]);
+    expect(near.socket.emit).toBeCalledWith('playersMoved', {
+      movements: [{ id: mover.player.id, location: mover.player.location }],
+    });
+    expect(batchesSentTo(mover)).toEqual([]);
+  });
+  it('Only sends each player the movements within its area of interest', () => {
+    broadcaster.playerMoved(mover.player);
+    broadcaster.playerMoved(far.player);
+    broadcaster.tick();
+    expect(batchesSentTo(far)).toEqual([]);
+    expect(batchesSentTo(mover)).toEqual([]);
+    broadcaster.playerMoved(mover.player);
+    broadcaster.playerMoved(near.player);
+    broadcaster.tick();
+    expect(batchesSentTo(far)).toEqual([]);
+    expect(batchesSentTo(mover)).toEqual([[near.player.id]]);
+    expect(batchesSentTo(near)).toEqual([[mover.player.id], [mover.player.id]]);
+  });
+  it('Sends the movements of distant players less often', () => {
+    broadcaster.playerMoved(mover.player);
+    for (let tick = 1; tick < DEFAULT_DISTANT_UPDATE_TICKS; tick++) {
+      broadcaster.tick();
+    }
+    expect(batchesSentTo(far)).toEqual([]);
+    broadcaster.tick();
+    expect(batchesSentTo(far)).toEqual([[mover.player.id]]);
+    broadcaster.tick();
+    expect(batchesSentTo(far)).toEqual([[mover.player.id]]);
+  });
+  it('Sends a held back movement as soon as the player comes within the area of interest', () => {
+    broadcaster.playerMoved(mover.player);
+    broadcaster.tick();
+    moveTo(mover, far.player.location.x - 10, 0);
+    broadcaster.playerMoved(mover.player);
+    broadcaster.tick();
+    expect(batchesSentTo(far)).toEqual([[mover.player.id]]);
+    for (let tick = 0; tick < DEFAULT_DISTANT_UPDATE_TICKS; tick++) {
+      broadcaster.tick();
+    }
+    expect(batchesSentTo(far)).toEqual([[mover.player.id]]);
+  });
+  it('Uses the configured area of interest radius', () => {
+    broadcaster.areaOfInterestRadius = DEFAULT_AREA_OF_INTEREST_RADIUS * 3;
+    broadcaster.playerMoved(mover.player);
+    broadcaster.tick();
+    expect(batchesSentTo(far)).toEqual([[mover.player.id]]);
+    expect(() => {
+      broadcaster.areaOfInterestRadius = -1;
+    }).toThrowError();
+  });
+  it('Forgets players who are removed', () => {
+    broadcaster.playerMoved(mover.player);
+    broadcaster.playerMoved(far.player);
+    broadcaster.tick();
+    broadcaster.playerRemoved(mover.player);
+    recipients = [near, far];
+    for (let tick = 0; tick < DEFAULT_DISTANT_UPDATE_TICKS; tick++) {
+      broadcaster.tick();
+    }
+    expect(batchesSentTo(far)).toEqual([]);
+  });
+  describe('tick loop', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('Ticks every tickIntervalMs while running', () => {
+      broadcaster.start();
+      expect(broadcaster.isRunning).toBe(true);
+      broadcaster.playerMoved(mover.player);
+      jest.advanceTimersByTime(DEFAULT_MOVEMENT_TICK_MS - 1);
+      expect(batchesSentTo(near)).toEqual([]);
+      jest.advanceTimersByTime(1);
+      expect(batchesSentTo(near)).toEqual([[mover.player.id]]);
+
+      broadcaster.stop();
+      broadcaster.playerMoved(mover.player);
+      jest.advanceTimersByTime(DEFAULT_MOVEMENT_TICK_MS * 10);
+      expect(batchesSentTo(near)).toHaveLength(1);
+    });
+    it('Restarts with a new interval when it is changed', () => {
+      broadcaster.start();
+      broadcaster.tickIntervalMs = 20;
+      broadcaster.playerMoved(mover.player);
+      jest.advanceTimersByTime(20);
+      expect(batchesSentTo(near)).toEqual([[mover.player.id]]);
+      expect(() => {
+        broadcaster.tickIntervalMs = 0;
+      }).toThrowError();
+    });
+  });
+});
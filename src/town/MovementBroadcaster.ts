@@ -0,0 +1,191 @@
+import Player from '../lib/Player';
+import { CoveyTownSocket, PlayerMovement } from '../types/CoveyTownSocket';
+
+/** How often (in ms) the movements of players are sent to the other players in the town */
+export const DEFAULT_MOVEMENT_TICK_MS = 100;
+
+/**
+ * Players receive the movements of other players within this distance (in pixels) of them on every
+ * tick, and the movements of players who are further away less often
+ */
+export const DEFAULT_AREA_OF_INTEREST_RADIUS = 800;
+
+/** Movements of players outside of a player's area of interest are sent to them every this many ticks */
+export const DEFAULT_DISTANT_UPDATE_TICKS = 10;
+
+/** A player who receives the movements of other players, and the socket to send them on */
+export type MovementRecipient = { player: Player; socket: CoveyTownSocket };
+
+/**
+ * Sends the movements of the players in a town to the other players in the town, in batches.
+ *
+ * Rather than sending every movement to every player as it happens, the broadcaster records which
+ * players have moved, and on each tick sends each player a single playersMoved event with the latest
+ * location of each player that moved within its area of interest. Movements outside of a player's area
+ * of interest are held back, and sent (again, only the latest location) on every
+ * distantUpdateTicks'th tick.
+ */
+export default class MovementBroadcaster {
+  private _getRecipients: () => MovementRecipient[];
+
+  /** The players who have moved since the last tick */
+  private _movedPlayers: Set<Player> = new Set();
+
+  /** For each recipient (by ID), the distant players whose movements have been held back from it */
+  private _heldBack: Map<string, Set<Player>> = new Map();
+
+  private _tickCount = 0;
+
+  private _tickTimer?: ReturnType<typeof setInterval>;
+
+  private _tickIntervalMs = DEFAULT_MOVEMENT_TICK_MS;
+
+  private _areaOfInterestRadius = DEFAULT_AREA_OF_INTEREST_RADIUS;
+
+  private _distantUpdateTicks = DEFAULT_DISTANT_UPDATE_TICKS;
+
+  get tickIntervalMs(): number {
+    return this._tickIntervalMs;
+  }
+
+  /**
+   * Changes how often movements are sent, restarting the tick loop if it is running
+   *
+   * @throws Error if the interval is not positive
+   */
+  set tickIntervalMs(value: number) {
+    if (!(value > 0)) {
+      throw new Error('Tick interval must be positive');
+    }
+    this._tickIntervalMs = value;
+    if (this._tickTimer) {
+      this.stop();
+      this.start();
+    }
+  }
+
+  get areaOfInterestRadius(): number {
+    return this._areaOfInterestRadius;
+  }
+
+  set areaOfInterestRadius(value: number) {
+    if (!(value >= 0)) {
+      throw new Error('Area of interest radius must not be negative');
+    }
+    this._areaOfInterestRadius = value;
+  }
+
+  get distantUpdateTicks(): number {
+    return this._distantUpdateTicks;
+  }
+
+  set distantUpdateTicks(value: number) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error('Distant update ticks must be a positive integer');
+    }
+    this._distantUpdateTicks = value;
+  }
+
+  get isRunning(): boolean {
+    return this._tickTimer !== undefined;
+  }
+
+  /**
+   * @param getRecipients returns the players who should receive movements, each with their socket
+   */
+  public constructor(getRecipients: () => MovementRecipient[]) {
+    this._getRecipients = getRecipients;
+  }
+
+  /**
+   * Starts the tick loop, if it is not already running. The loop does not keep the process alive.
+   */
+  public start(): void {
+    if (this._tickTimer) {
+      return;
+    }
+    this._tickTimer = setInterval(() => this.tick(), this._tickIntervalMs);
+    this._tickTimer.unref?.();
+  }
+
+  /**
+   * Stops the tick loop. Movements that have not been sent yet are sent by the next tick after the
+   * loop is started again.
+   */
+  public stop(): void {
+    if (this._tickTimer) {
+      clearInterval(this._tickTimer);
+      this._tickTimer = undefined;
+    }
+  }
+
+  /**
+   * Records that a player has moved (or that something else about their location, such as their
+   * interactableID, has changed), so that their location is sent to the other players
+   */
+  public playerMoved(player: Player): void {
+    this._movedPlayers.add(player);
+  }
+
+  /**
+   * Forgets a player who has left the town: their movements are no longer sent, and they no longer
+   * receive movements
+   */
+  public playerRemoved(player: Player): void {
+    this._movedPlayers.delete(player);
+    this._heldBack.delete(player.id);
+    this._heldBack.forEach(eachHeldBack => eachHeldBack.delete(player));
+  }
+
+  /**
+   * Sends each recipient the movements that are due to it: the latest location of every player who
+   * moved within its area of interest since the last tick and, every distantUpdateTicks ticks, those of
+   * the players whose movements were held back from it.
+   */
+  public tick(): void {
+    this._tickCount += 1;
+    const isDistantTick = this._tickCount % this._distantUpdateTicks === 0;
+    const movedPlayers = [...this._movedPlayers];
+    this._movedPlayers.clear();
+
+    this._getRecipients().forEach(({ player: recipient, socket }) => {
+      let heldBack = this._heldBack.get(recipient.id);
+      const batch: Player[] = [];
+      movedPlayers.forEach(eachMover => {
+        if (eachMover === recipient) {
+          return;
+        }
+        if (this._isWithinAreaOfInterest(recipient, eachMover)) {
+          batch.push(eachMover);
+          heldBack?.delete(eachMover);
+        } else {
+          if (!heldBack) {
+            heldBack = new Set();
+            this._heldBack.set(recipient.id, heldBack);
+          }
+          heldBack.add(eachMover);
+        }
+      });
+      if (isDistantTick && heldBack) {
+        batch.push(...heldBack);
+        this._heldBack.delete(recipient.id);
+      }
+      if (batch.length > 0) {
+        const movements: PlayerMovement[] = batch.map(eachPlayer => ({
+          id: eachPlayer.id,
+          location: eachPlayer.location,
+        }));
+        socket.emit('playersMoved', { movements });
+      }
+    });
+  }
+
+  private _isWithinAreaOfInterest(recipient: Player, mover: Player): boolean {
+    return (
+      Math.hypot(
+        recipient.location.x - mover.location.x,
+        recipient.location.y - mover.location.y,
+      ) <= this._areaOfInterestRadius
+    );
+  }
+}
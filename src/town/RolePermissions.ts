@@ -0,0 +1,78 @@
+import { PlayerRole, TownPermission } from '../types/CoveyTownSocket';
+
+export const ALL_PERMISSIONS: TownPermission[] = [
+  'setConversationTopic',
+  'changeViewingAreaVideo',
+  'startGame',
+  'moderate',
+  'assignRoles',
+];
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<PlayerRole, TownPermission[]> = {
+  owner: ALL_PERMISSIONS,
+  moderator: ['setConversationTopic', 'changeViewingAreaVideo', 'startGame', 'moderate'],
+  member: ['setConversationTopic', 'changeViewingAreaVideo', 'startGame'],
+  guest: [],
+};
+
+/**
+ * The set of permissions that is granted to each role in a town. Owners always hold every permission,
+ * so that a town can never be locked out of its own settings; the other roles can be configured.
+ */
+export default class RolePermissions {
+  private _permissions: Map<PlayerRole, Set<TownPermission>> = new Map();
+
+  /**
+   * @param overrides the permissions to grant to roles that should not use their default permissions
+   * @throws Error if the overrides include the 'owner' role
+   */
+  public constructor(overrides: Partial<Record<PlayerRole, TownPermission[]>> = {}) {
+    (Object.keys(DEFAULT_ROLE_PERMISSIONS) as PlayerRole[]).forEach(role =>
+      this._permissions.set(role, new Set(DEFAULT_ROLE_PERMISSIONS[role])),
+    );
+    (Object.keys(overrides) as PlayerRole[]).forEach(role => {
+      const permissions = overrides[role];
+      if (permissions) {
+        this.setPermissions(role, permissions);
+      }
+    });
+  }
+
+  /**
+   * @returns true if players with the given role hold the given permission
+   */
+  public hasPermission(role: PlayerRole, permission: TownPermission): boolean {
+    return this._permissions.get(role)?.has(permission) ?? false;
+  }
+
+  /**
+   * @returns the permissions that are granted to a role
+   */
+  public getPermissions(role: PlayerRole): TownPermission[] {
+    return ALL_PERMISSIONS.filter(permission => this.hasPermission(role, permission));
+  }
+
+  /**
+   * Replaces the permissions that are granted to a role
+   *
+   * @throws Error if the role is 'owner', whose permissions can not be changed
+   */
+  public setPermissions(role: PlayerRole, permissions: TownPermission[]): void {
+    if (role === 'owner') {
+      throw new Error('The permissions of the owner role can not be changed');
+    }
+    this._permissions.set(role, new Set(permissions));
+  }
+
+  /**
+   * @returns the permissions of every role whose permissions can be configured, suitable for passing
+   *  back to the constructor
+   */
+  public toRecord(): Partial<Record<PlayerRole, TownPermission[]>> {
+    return Object.fromEntries(
+      (Object.keys(DEFAULT_ROLE_PERMISSIONS) as PlayerRole[])
+        .filter(role => role !== 'owner')
+        .map(role => [role, this.getPermissions(role)]),
+    );
+  }
+}
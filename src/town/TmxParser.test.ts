@@ -0,0 +1,195 @@
+import { ITiledMap, ITiledMapObjectLayer, ITiledMapTileLayer } from '@jonbell/tiled-map-type-guard';
+import fs from 'fs/promises';
+import { mock } from 'jest-mock-extended';
+import { hashPassword } from '../lib/PasswordHash';
+import { TownEmitter } from '../types/CoveyTownSocket';
+import parseTmx from './TmxParser';
+import Town from './Town';
+
+function tmxDocument(content: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<map version="1.9" tiledversion="1.9.0" orientation="orthogonal" renderorder="right-down" width="4" height="2" tilewidth="32" tileheight="32" infinite="0" nextlayerid="5" nextobjectid="5">
+${content}
+</map>`;
+}
+
+function objectsOf(map: ITiledMap) {
+  return (map.layers.find(eachLayer => eachLayer.type === 'objectgroup') as ITiledMapObjectLayer)
+    .objects;
+}
+
+describe('parseTmx', () => {
+  describe('Round trip with indoors.json', () => {
+    let jsonMap: ITiledMap;
+    let tmxMap: ITiledMap;
+    beforeAll(async () => {
+      jsonMap = ITiledMap.parse(JSON.parse(await fs.readFile('testData/indoors.json', 'utf-8')));
+      tmxMap = parseTmx(await fs.readFile('testData/indoors.tmx', 'utf-8'));
+    });
+    it('Produces the same map as the JSON export', () => {
+      expect(tmxMap).toEqual(jsonMap);
+    });
+    it('Produces identical interactables', () => {
+      const createTown = (map: ITiledMap) => {
+        const town = new Town(
+          'town',
+          false,
+          'townID',
+          mock<TownEmitter>(),
+          hashPassword('password'),
+        );
+        town.initializeFromMap(map);
+        return town.interactables.map(eachInteractable => eachInteractable.toModel());
+      };
+      const fromTmx = createTown(tmxMap);
+      expect(fromTmx.length).toBeGreaterThan(0);
+      expect(fromTmx).toEqual(createTown(jsonMap));
+    });
+  });
+  it('Converts objects, their shapes and their properties', () => {
+    const map = parseTmx(
+      tmxDocument(`
+ <objectgroup id="1" name="Objects" visible="0" opacity="0.5">
+  <properties>
+   <property name="note" value="a &amp; b"/>
+  </properties>
+  <object id="1" name="Stairs" class="Transporter" x="10" y="20.5" width="30" height="40">
+   <properties>
+    <property name="target" type="object" value="2"/>
+    <property name="count" type="int" value="3"/>
+    <property name="ratio" type="float" value="0.25"/>
+    <property name="locked" type="bool" value="false"/>
+    <property name="description">two
+lines</property>
+    <property name="settings" type="class" propertytype="Settings">
+     <properties>
+      <property name="volume" type="int" value="11"/>
+     </properties>
+    </property>
+   </properties>
+  </object>
+  <object id="2" name="target" x="100" y="50">
+   <point/>
+  </object>
+  <object id="3" name="Pond" type="Water" x="0" y="0" width="10" height="10" rotation="45">
+   <ellipse/>
+  </object>
+  <object id="4" x="5" y="5">
+   <polygon points="0,0 10,0 10,10"/>
+  </object>
+ </objectgroup>`),
+    );
+    const layer = map.layers[0] as ITiledMapObjectLayer;
+    expect(layer).toMatchObject({ type: 'objectgroup', visible: false, opacity: 0.5 });
+    expect(layer.properties).toEqual([{ name: 'note', type: 'string', value: 'a & b' }]);
+    const [stairs, target, pond, polygon] = objectsOf(map);
+    expect(stairs).toMatchObject({ id: 1, type: 'Transporter', x: 10, y: 20.5, width: 30 });
+    expect(stairs.properties).toEqual([
+      { name: 'target', type: 'object', value: 2 },
+      { name: 'count', type: 'int', value: 3 },
+      { name: 'ratio', type: 'float', value: 0.25 },
+      { name: 'locked', type: 'bool', value: false },
+      { name: 'description', type: 'string', value: 'two\nlines' },
+      { name: 'settings', type: 'class', propertytype: 'Settings', value: { volume: 11 } },
+    ]);
+    expect(target).toEqual({
+      id: 2,
+      name: 'target',
+      type: '',
+      x: 100,
+      y: 50,
+      width: 0,
+      height: 0,
+      rotation: 0,
+      visible: true,
+      point: true,
+    });
+    expect(pond).toMatchObject({ type: 'Water', ellipse: true, rotation: 45 });
+    expect(polygon.polygon).toEqual([
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+    ]);
+  });
+  it('Converts tile layers in each encoding, and group layers, in order', () => {
+    const map = parseTmx(
+      tmxDocument(`
+ <layer id="1" name="CSV" width="4" height="2">
+  <data encoding="csv">
+1,0,0,2,
+0,3,0,0
+</data>
+ </layer>
+ <group id="2" name="Group" offsetx="5">
+  <layer id="3" name="XML" width="4" height="2">
+   <data>
+    <tile gid="1"/><tile/><tile/><tile/><tile/><tile/><tile/><tile gid="4"/>
+   </data>
+  </layer>
+ </group>
+ <layer id="4" name="Base64" width="4" height="2">
+  <data encoding="base64" compression="zlib">
+   eJxjYMAPAAAgAAE=
+  </data>
+ </layer>`),
+    );
+    expect(map.layers.map(eachLayer => eachLayer.name)).toEqual(['CSV', 'Group', 'Base64']);
+    expect((map.layers[0] as ITiledMapTileLayer).data).toEqual([1, 0, 0, 2, 0, 3, 0, 0]);
+    const group = map.layers[1];
+    expect(group).toMatchObject({ type: 'group', offsetx: 5 });
+    expect(group.type === 'group' && (group.layers[0] as ITiledMapTileLayer).data).toEqual([
+      1, 0, 0, 0, 0, 0, 0, 4,
+    ]);
+    expect(map.layers[2]).toMatchObject({
+      type: 'tilelayer',
+      encoding: 'base64',
+      compression: 'zlib',
+      data: 'eJxjYMAPAAAgAAE=',
+    });
+  });
+  it('Converts map metadata and tilesets', () => {
+    const map = parseTmx(
+      tmxDocument(`
+ <properties>
+  <property name="music" type="file" value="theme.mp3"/>
+ </properties>
+ <tileset firstgid="1" name="Embedded" tilewidth="32" tileheight="32" tilecount="4" columns="2">
+  <image source="tiles.png" width="64" height="64" trans="ff00ff"/>
+  <tile id="1">
+   <animation>
+    <frame tileid="1" duration="100"/>
+    <frame tileid="2" duration="100"/>
+   </animation>
+  </tile>
+ </tileset>
+ <tileset firstgid="5" source="../tilesets/External.tsx"/>`),
+    );
+    expect(map).toMatchObject({ width: 4, height: 2, tilewidth: 32, infinite: false });
+    expect(map.properties).toEqual([{ name: 'music', type: 'file', value: 'theme.mp3' }]);
+    expect(map.tilesets[0]).toMatchObject({
+      firstgid: 1,
+      image: 'tiles.png',
+      imagewidth: 64,
+      transparentcolor: '#ff00ff',
+      tiles: [
+        {
+          id: 1,
+          animation: [
+            { tileid: 1, duration: 100 },
+            { tileid: 2, duration: 100 },
+          ],
+        },
+      ],
+    });
+    expect(map.tilesets[1]).toEqual({
+      firstgid: 5,
+      source: '../tilesets/External.tsx',
+      name: 'External',
+      image: '',
+    });
+  });
+  it('Throws an error if the XML is malformed or is not a map', () => {
+    expect(() => parseTmx('<map><layer></map>')).toThrowError(/Malformed TMX/);
+    expect(() => parseTmx('<tileset name="x"/>')).toThrowError(/Malformed TMX/);
+  });
+});
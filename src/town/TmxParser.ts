@@ -0,0 +1,393 @@
+import { ITiledMap } from '@jonbell/tiled-map-type-guard';
+import { XMLParser } from 'fast-xml-parser';
+import * as path from 'path';
+
+/** The file extension of maps in Tiled's native XML format */
+export const TMX_EXTENSION = '.tmx';
+
+/** An element of a TMX document */
+type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+/** The output of fast-xml-parser with preserveOrder set: one entry per child element or text node */
+type ParsedNode = Record<string, unknown> & { ':@'?: Record<string, string> };
+
+/** A value converted from TMX, in the shape of the equivalent part of a Tiled JSON map */
+type JsonObject = Record<string, unknown>;
+
+/**
+ * Converts fast-xml-parser's order-preserving output (which is awkward to navigate) into a tree of
+ * elements, each with its attributes, children and text
+ */
+function toElements(nodes: ParsedNode[]): XmlElement[] {
+  const elements: XmlElement[] = [];
+  nodes.forEach(eachNode => {
+    const name = Object.keys(eachNode).find(key => key !== ':@');
+    if (name === undefined || name === '#text' || name.startsWith('?')) {
+      return;
+    }
+    const childNodes = eachNode[name] as ParsedNode[];
+    elements.push({
+      name,
+      attributes: eachNode[':@'] ?? {},
+      children: toElements(childNodes),
+      text: childNodes
+        .filter(eachChild => '#text' in eachChild)
+        .map(eachChild => String(eachChild['#text']))
+        .join(''),
+    });
+  });
+  return elements;
+}
+
+/** Removes the keys whose values are undefined, so that the result matches Tiled's JSON export */
+function compact(object: JsonObject): JsonObject {
+  return Object.fromEntries(Object.entries(object).filter(([, value]) => value !== undefined));
+}
+
+function child(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(eachChild => eachChild.name === name);
+}
+
+function children(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter(eachChild => eachChild.name === name);
+}
+
+function num(element: XmlElement, name: string): number | undefined {
+  const value = element.attributes[name];
+  return value === undefined ? undefined : Number(value);
+}
+
+/** TMX writes booleans as 0 or 1 */
+function bool(element: XmlElement, name: string): boolean | undefined {
+  const value = element.attributes[name];
+  return value === undefined ? undefined : value === '1';
+}
+
+function str(element: XmlElement, name: string): string | undefined {
+  return element.attributes[name];
+}
+
+/**
+ * Converts the value of a property to the type that Tiled's JSON export uses for it. Properties of
+ * type object (such as the target of a Transporter) refer to other objects by their numeric ID.
+ */
+function propertyValue(property: XmlElement): unknown {
+  const type = str(property, 'type') ?? 'string';
+  if (type === 'class') {
+    const members = child(property, 'properties');
+    return Object.fromEntries(
+      (members ? children(members, 'property') : []).map(eachMember => [
+        str(eachMember, 'name'),
+        propertyValue(eachMember),
+      ]),
+    );
+  }
+  const value = str(property, 'value') ?? property.text;
+  switch (type) {
+    case 'int':
+    case 'object':
+      return parseInt(value, 10);
+    case 'float':
+      return parseFloat(value);
+    case 'bool':
+      return value === 'true';
+    default:
+      return value;
+  }
+}
+
+function convertProperties(element: XmlElement): JsonObject[] | undefined {
+  const properties = child(element, 'properties');
+  if (!properties) {
+    return undefined;
+  }
+  return children(properties, 'property').map(eachProperty =>
+    compact({
+      name: str(eachProperty, 'name'),
+      type: str(eachProperty, 'type') ?? 'string',
+      propertytype: str(eachProperty, 'propertytype'),
+      value: propertyValue(eachProperty),
+    }),
+  );
+}
+
+/**
+ * Decodes the tiles of a layer or chunk. CSV and XML (one <tile> element per tile) data are converted
+ * to an array of GIDs; base64 data is left encoded (as it is in Tiled's JSON export), to be decoded by
+ * whoever reads the layer
+ */
+function convertTileData(data: XmlElement): JsonObject {
+  const encoding = str(data, 'encoding');
+  if (encoding === 'csv') {
+    return { data: data.text.split(',').map(eachGID => parseInt(eachGID.trim(), 10)) };
+  }
+  if (encoding === 'base64') {
+    return compact({
+      data: data.text.trim(),
+      encoding,
+      compression: str(data, 'compression'),
+    });
+  }
+  return { data: children(data, 'tile').map(eachTile => num(eachTile, 'gid') ?? 0) };
+}
+
+function convertObject(object: XmlElement): JsonObject {
+  const polygon = child(object, 'polygon') ?? child(object, 'polyline');
+  const text = child(object, 'text');
+  return compact({
+    id: num(object, 'id'),
+    name: str(object, 'name') ?? '',
+    // Tiled 1.9 calls the type of an object its class
+    type: str(object, 'type') ?? str(object, 'class') ?? '',
+    gid: num(object, 'gid'),
+    template: str(object, 'template'),
+    x: num(object, 'x') ?? 0,
+    y: num(object, 'y') ?? 0,
+    width: num(object, 'width') ?? 0,
+    height: num(object, 'height') ?? 0,
+    rotation: num(object, 'rotation') ?? 0,
+    visible: bool(object, 'visible') ?? true,
+    point: child(object, 'point') ? true : undefined,
+    ellipse: child(object, 'ellipse') ? true : undefined,
+    [polygon?.name ?? 'polygon']: polygon
+      ? (str(polygon, 'points') ?? '')
+          .trim()
+          .split(/\s+/)
+          .map(eachPoint => {
+            const [x, y] = eachPoint.split(',').map(Number);
+            return { x, y };
+          })
+      : undefined,
+    text: text
+      ? compact({
+          text: text.text,
+          wrap: bool(text, 'wrap'),
+          fontfamily: str(text, 'fontfamily'),
+          pixelsize: num(text, 'pixelsize'),
+          color: str(text, 'color'),
+          bold: bool(text, 'bold'),
+          italic: bool(text, 'italic'),
+          underline: bool(text, 'underline'),
+          strikeout: bool(text, 'strikeout'),
+          kerning: bool(text, 'kerning'),
+          halign: str(text, 'halign'),
+          valign: str(text, 'valign'),
+        })
+      : undefined,
+    properties: convertProperties(object),
+  });
+}
+
+/**
+ * Converts the layers that are children of a map or a group layer, in the order in which they are
+ * drawn
+ */
+function convertLayers(parent: XmlElement): JsonObject[] {
+  const layers: JsonObject[] = [];
+  parent.children.forEach(eachChild => {
+    const common = {
+      id: num(eachChild, 'id'),
+      name: str(eachChild, 'name') ?? '',
+      class: str(eachChild, 'class'),
+      opacity: num(eachChild, 'opacity') ?? 1,
+      visible: bool(eachChild, 'visible') ?? true,
+      offsetx: num(eachChild, 'offsetx'),
+      offsety: num(eachChild, 'offsety'),
+      parallaxx: num(eachChild, 'parallaxx'),
+      parallaxy: num(eachChild, 'parallaxy'),
+      tintcolor: str(eachChild, 'tintcolor'),
+      x: num(eachChild, 'x') ?? 0,
+      y: num(eachChild, 'y') ?? 0,
+      properties: convertProperties(eachChild),
+    };
+    if (eachChild.name === 'layer') {
+      const data = child(eachChild, 'data');
+      const chunks = data ? children(data, 'chunk') : [];
+      layers.push(
+        compact({
+          ...common,
+          type: 'tilelayer',
+          width: num(eachChild, 'width'),
+          height: num(eachChild, 'height'),
+          ...(data && chunks.length === 0 ? convertTileData(data) : { data: [] }),
+          chunks:
+            data && chunks.length > 0
+              ? chunks.map(eachChunk =>
+                  compact({
+                    x: num(eachChunk, 'x'),
+                    y: num(eachChunk, 'y'),
+                    width: num(eachChunk, 'width'),
+                    height: num(eachChunk, 'height'),
+                    ...convertTileData({ ...eachChunk, attributes: data.attributes }),
+                  }),
+                )
+              : undefined,
+        }),
+      );
+    } else if (eachChild.name === 'objectgroup') {
+      layers.push(
+        compact({
+          ...common,
+          type: 'objectgroup',
+          draworder: str(eachChild, 'draworder') ?? 'topdown',
+          objects: children(eachChild, 'object').map(convertObject),
+        }),
+      );
+    } else if (eachChild.name === 'imagelayer') {
+      const image = child(eachChild, 'image');
+      layers.push(
+        compact({
+          ...common,
+          type: 'imagelayer',
+          image: (image && str(image, 'source')) ?? '',
+          repeatx: bool(eachChild, 'repeatx'),
+          repeaty: bool(eachChild, 'repeaty'),
+        }),
+      );
+    } else if (eachChild.name === 'group') {
+      layers.push(compact({ ...common, type: 'group', layers: convertLayers(eachChild) }));
+    }
+  });
+  return layers;
+}
+
+/**
+ * Converts a tileset. The tiles of external tilesets (those saved in their own .tsx files) are not
+ * needed by the server, so those tilesets are only recorded by their source, and named after it.
+ */
+function convertTileset(tileset: XmlElement): JsonObject {
+  const source = str(tileset, 'source');
+  if (source !== undefined) {
+    return {
+      firstgid: num(tileset, 'firstgid'),
+      source,
+      name: path.basename(source, path.extname(source)),
+      image: '',
+    };
+  }
+  const image = child(tileset, 'image');
+  const tileOffset = child(tileset, 'tileoffset');
+  const grid = child(tileset, 'grid');
+  const transparentColor = image && str(image, 'trans');
+  const tiles = children(tileset, 'tile');
+  return compact({
+    firstgid: num(tileset, 'firstgid'),
+    name: str(tileset, 'name') ?? '',
+    class: str(tileset, 'class'),
+    tilewidth: num(tileset, 'tilewidth'),
+    tileheight: num(tileset, 'tileheight'),
+    spacing: num(tileset, 'spacing') ?? 0,
+    margin: num(tileset, 'margin') ?? 0,
+    tilecount: num(tileset, 'tilecount'),
+    columns: num(tileset, 'columns'),
+    objectalignment: str(tileset, 'objectalignment'),
+    tilerendersize: str(tileset, 'tilerendersize'),
+    fillmode: str(tileset, 'fillmode'),
+    image: (image && str(image, 'source')) ?? '',
+    imagewidth: image && num(image, 'width'),
+    imageheight: image && num(image, 'height'),
+    transparentcolor: transparentColor && `#${transparentColor}`,
+    tileoffset: tileOffset && { x: num(tileOffset, 'x') ?? 0, y: num(tileOffset, 'y') ?? 0 },
+    grid: grid && {
+      orientation: str(grid, 'orientation') ?? 'orthogonal',
+      width: num(grid, 'width'),
+      height: num(grid, 'height'),
+    },
+    properties: convertProperties(tileset),
+    tiles:
+      tiles.length > 0
+        ? tiles.map(eachTile => {
+            const animation = child(eachTile, 'animation');
+            const objectGroup = child(eachTile, 'objectgroup');
+            return compact({
+              id: num(eachTile, 'id'),
+              type: str(eachTile, 'type') ?? str(eachTile, 'class'),
+              probability: num(eachTile, 'probability'),
+              animation:
+                animation &&
+                children(animation, 'frame').map(eachFrame => ({
+                  tileid: num(eachFrame, 'tileid'),
+                  duration: num(eachFrame, 'duration'),
+                })),
+              objectgroup: objectGroup && convertLayers({ ...tileset, children: [objectGroup] })[0],
+              properties: convertProperties(eachTile),
+            });
+          })
+        : undefined,
+  });
+}
+
+/**
+ * Converts a map saved in Tiled's native XML (TMX) format into the same structure as the map would
+ * have if it were exported from Tiled as JSON, without checking that structure: for callers (such as
+ * the map validator) that report the problems with a map themselves. Most callers should use parseTmx.
+ *
+ * @param xml the contents of a .tmx file
+ * @returns the map, in the structure of a Tiled JSON map
+ * @throws Error if the XML is malformed, or is not a Tiled map
+ */
+export function tmxToJson(xml: string): unknown {
+  let parsed: ParsedNode[];
+  try {
+    parsed = new XMLParser({
+      preserveOrder: true,
+      ignoreAttributes: false,
+      attributeNamePrefix: '',
+      parseAttributeValue: false,
+      parseTagValue: false,
+    }).parse(xml, true);
+  } catch (e) {
+    throw new Error(`Malformed TMX: ${(e as Error).message}`);
+  }
+  const map = toElements(parsed).find(eachElement => eachElement.name === 'map');
+  if (!map) {
+    throw new Error('Malformed TMX: expected a <map> element');
+  }
+  return compact({
+    type: 'map',
+    version: str(map, 'version'),
+    tiledversion: str(map, 'tiledversion') ?? '',
+    class: str(map, 'class'),
+    orientation: str(map, 'orientation'),
+    renderorder: str(map, 'renderorder'),
+    compressionlevel: num(map, 'compressionlevel'),
+    width: num(map, 'width'),
+    height: num(map, 'height'),
+    tilewidth: num(map, 'tilewidth'),
+    tileheight: num(map, 'tileheight'),
+    hexsidelength: num(map, 'hexsidelength'),
+    staggeraxis: str(map, 'staggeraxis'),
+    staggerindex: str(map, 'staggerindex'),
+    parallaxoriginx: num(map, 'parallaxoriginx'),
+    parallaxoriginy: num(map, 'parallaxoriginy'),
+    backgroundcolor: str(map, 'backgroundcolor'),
+    infinite: bool(map, 'infinite') ?? false,
+    nextlayerid: num(map, 'nextlayerid'),
+    nextobjectid: num(map, 'nextobjectid'),
+    properties: convertProperties(map),
+    tilesets: children(map, 'tileset').map(convertTileset),
+    layers: convertLayers(map),
+  });
+}
+
+/**
+ * Parses a map saved in Tiled's native XML (TMX) format, converting it into the same structure as
+ * the map would have if it were exported from Tiled as JSON: the structure that
+ * Town.initializeFromMap consumes.
+ *
+ * Layers (including nested groups), object groups, objects (including their shapes) and the
+ * properties of each are converted. Object-typed properties, such as the target of a Transporter,
+ * refer to other objects by ID, as they do in JSON maps.
+ *
+ * @param xml the contents of a .tmx file
+ * @returns the map
+ * @throws Error if the XML is malformed, or is not a Tiled map
+ */
+export default function parseTmx(xml: string): ITiledMap {
+  return ITiledMap.parse(tmxToJson(xml));
+}
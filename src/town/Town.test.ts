@@ -1,10 +1,16 @@
-import { ITiledMap } from '@jonbell/tiled-map-type-guard';
-import { DeepMockProxy, mockClear, mockDeep, mockReset } from 'jest-mock-extended';
+import { ITiledMap, ITiledMapObjectLayer } from '@jonbell/tiled-map-type-guard';
+import { DeepMockProxy, mock, mockClear, mockDeep, MockProxy, mockReset } from 'jest-mock-extended';
+import * as fs from 'fs/promises';
 import { nanoid } from 'nanoid';
+import IMediaMetadataResolver from '../lib/IMediaMetadataResolver';
+import InvalidParametersError, { PERMISSION_DENIED_MESSAGE } from '../lib/InvalidParametersError';
+import MediaPolicy from '../lib/MediaPolicy';
+import { hashPassword } from '../lib/PasswordHash';
 import Player from '../lib/Player';
 import TwilioVideo from '../lib/TwilioVideo';
 import {
   ClientEventTypes,
+  createVideoURLForTesting,
   expectArraysToContainSameMembers,
   getEventListener,
   getLastEmittedEvent,
@@ -13,14 +19,29 @@ import {
 } from '../TestUtils';
 import {
   ChatMessage,
+  ChatMessageRequest,
+  DirectMessageRequest,
+  DirectMessageResponse,
   Interactable,
+  InteractableCommand,
   PlayerID,
   PlayerLocation,
+  PlayerMovement,
+  PlayerMovementBatch,
   TownEmitter,
   ViewingArea as ViewingAreaModel,
 } from '../types/CoveyTownSocket';
+import { MAX_DICE } from './BuiltInChatCommands';
 import ConversationArea from './ConversationArea';
-import Town from './Town';
+import TicTacToeGameArea from './games/TicTacToeGameArea';
+import Town, {
+  DEFAULT_PLAYBACK_SYNC_INTERVAL_MS,
+  DEFAULT_TOWN_CAPACITY,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_PLAYER_SPEED,
+  MOVEMENT_TOLERANCE,
+} from './Town';
+import ViewingArea from './ViewingArea';
 
 const mockTwilioVideo = mockDeep<TwilioVideo>();
 jest.spyOn(TwilioVideo, 'getInstance').mockReturnValue(mockTwilioVideo);
@@ -205,6 +226,96 @@ const testingMaps: TestMapDict = {
       },
     ],
   },
+  walled: {
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilesets: [],
+    tilewidth: 32,
+    type: 'map',
+    width: 20,
+    height: 5,
+    layers: [
+      {
+        id: 1,
+        name: 'Walls',
+        // A wall along the sixth column of tiles, from x=160 to x=192
+        data: Array.from({ length: 100 }, (_, index) => (index % 20 === 5 ? 1 : 0)),
+        width: 20,
+        height: 5,
+        opacity: 1,
+        type: 'tilelayer',
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+      {
+        id: 4,
+        name: 'Objects',
+        objects: [],
+        opacity: 1,
+        type: 'objectgroup',
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+  },
+  transporter: {
+    tiledversion: '1.9.0',
+    tileheight: 32,
+    tilesets: [],
+    tilewidth: 32,
+    type: 'map',
+    layers: [
+      {
+        id: 4,
+        name: 'Objects',
+        objects: [
+          {
+            type: '',
+            height: 0,
+            id: 1,
+            name: 'Spawn Point',
+            point: true,
+            rotation: 0,
+            visible: true,
+            width: 0,
+            x: 100,
+            y: 100,
+          },
+          {
+            type: 'Transporter',
+            height: 100,
+            id: 2,
+            name: 'Stairs',
+            properties: [{ name: 'target', type: 'object', value: 3 }],
+            rotation: 0,
+            visible: true,
+            width: 32,
+            x: 300,
+            y: 50,
+          },
+          {
+            type: '',
+            height: 0,
+            id: 3,
+            name: 'upstairs_target',
+            point: true,
+            rotation: 0,
+            visible: true,
+            width: 0,
+            x: 600,
+            y: 300,
+          },
+        ],
+        opacity: 1,
+        type: 'objectgroup',
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+  },
   twoConvOneViewing: {
     tiledversion: '1.9.0',
     tileheight: 32,
@@ -352,8 +463,19 @@ describe('Town', () => {
   let playerTestData: MockedPlayer;
   let playerID: PlayerID;
 
+  /**
+   * Sends the movements that are waiting for the next tick, and returns those that were sent to the observer
+   */
+  function sendMovementsTo(observer: MockedPlayer): PlayerMovement[] {
+    observer.socket.emit.mockClear();
+    town.movementBroadcaster.tick();
+    return observer.socket.emit.mock.calls
+      .filter(eachCall => eachCall[0] === 'playersMoved')
+      .flatMap(eachCall => (eachCall[1] as PlayerMovementBatch).movements);
+  }
+
   beforeEach(async () => {
-    town = new Town(nanoid(), false, nanoid(), townEmitter);
+    town = new Town(nanoid(), false, nanoid(), townEmitter, hashPassword(nanoid()));
     playerTestData = mockPlayer(town.townID);
     player = await town.addPlayer(playerTestData.userName, playerTestData.socket);
     playerTestData.player = player;
@@ -367,7 +489,7 @@ describe('Town', () => {
   it('constructor should set its properties', () => {
     const townName = `FriendlyNameTest-${nanoid()}`;
     const townID = nanoid();
-    const testTown = new Town(townName, true, townID, townEmitter);
+    const testTown = new Town(townName, true, townID, townEmitter, hashPassword(nanoid()));
     expect(testTown.friendlyName).toBe(townName);
     expect(testTown.townID).toBe(townID);
     expect(testTown.isPubliclyListed).toBe(true);
@@ -424,8 +546,10 @@ describe('Town', () => {
             id: 'Name4',
             elapsedTimeSec: 0,
             isPlaying: true,
-            video: nanoid(),
+            video: createVideoURLForTesting(),
             occupants: [],
+            queue: [],
+            skipVotes: [],
             type: 'ViewingArea',
           };
           expect(town.addViewingArea(newArea)).toBe(true);
@@ -469,10 +593,17 @@ describe('Town', () => {
   });
   describe('Socket event listeners created in addPlayer', () => {
     describe('on socket disconnect', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
       function disconnectPlayer(playerToLeave: MockedPlayer) {
-        // Call the disconnect event handler
+        // Call the disconnect event handler, and then let the reconnect grace period expire
         const disconnectHandler = getEventListener(playerToLeave.socket, 'disconnect');
         disconnectHandler('unknown');
+        jest.advanceTimersByTime(town.reconnectGracePeriodSec * 1000);
       }
       it("Invalidates the players's session token", async () => {
         const token = player.sessionToken;
@@ -517,7 +648,7 @@ describe('Town', () => {
             id: 'Name3',
             isPlaying: true,
             elapsedTimeSec: 0,
-            video: nanoid(),
+            video: createVideoURLForTesting(),
             occupants: [],
             type: 'ViewingArea',
           }),
@@ -528,6 +659,79 @@ describe('Town', () => {
         expect(viewingArea.occupantsByID).toEqual([]);
       });
     });
+    describe('session resumption', () => {
+      beforeEach(() => {
+        jest.useFakeTimers();
+        town.initializeFromMap(testingMaps.twoConvOneViewing);
+        playerTestData.moveTo(45, 122); // Inside of "Name1" area
+        town.addConversationArea({
+          id: 'Name1',
+          topic: 'test',
+          occupants: [],
+          type: 'ConversationArea',
+        });
+        mockClear(townEmitter);
+        getEventListener(playerTestData.socket, 'disconnect')('transport close');
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Keeps a disconnected player in the town and informs others that they are reconnecting', () => {
+        expect(getLastEmittedEvent(townEmitter, 'playerReconnecting').id).toEqual(player.id);
+        expect(() => getLastEmittedEvent(townEmitter, 'playerDisconnect')).toThrowError();
+        expect(town.getPlayerBySessionToken(player.sessionToken)).toBe(player);
+        expect(town.getInteractable('Name1').occupantsByID).toEqual([player.id]);
+      });
+      it('Removes the player once the grace period expires', () => {
+        jest.advanceTimersByTime(town.reconnectGracePeriodSec * 1000 - 1);
+        expect(town.occupancy).toBe(1);
+        jest.advanceTimersByTime(1);
+        expect(town.occupancy).toBe(0);
+        expect(getLastEmittedEvent(townEmitter, 'playerDisconnect').id).toEqual(player.id);
+      });
+      it('Resumes the same player on a new socket within the grace period', () => {
+        const reconnected = mockPlayer(town.townID);
+        const resumed = town.resumePlayer(player.sessionToken, reconnected.socket);
+        expect(resumed).toBe(player);
+        expect(getLastEmittedEvent(townEmitter, 'playerReconnected').id).toEqual(player.id);
+        expect(player.location.interactableID).toEqual('Name1');
+        expect(town.getInteractable('Name1').occupantsByID).toEqual([player.id]);
+
+        jest.advanceTimersByTime(town.reconnectGracePeriodSec * 1000);
+        expect(town.occupancy).toBe(1);
+        expect(() => getLastEmittedEvent(townEmitter, 'playerDisconnect')).toThrowError();
+
+        // The new socket is now the player's connection
+        reconnected.moveTo(100, 100);
+        expect(player.location.x).toBe(100);
+        expect(player.townEmitter).toBe(reconnected.socketToRoomMock);
+      });
+      it('Returns undefined for an unknown session token', () => {
+        expect(town.resumePlayer(nanoid(), mockPlayer(town.townID).socket)).toBeUndefined();
+        jest.advanceTimersByTime(town.reconnectGracePeriodSec * 1000);
+        expect(town.occupancy).toBe(0);
+      });
+      it('Disconnects a still-connected previous socket and ignores its disconnect event', () => {
+        const firstReconnect = mockPlayer(town.townID);
+        town.resumePlayer(player.sessionToken, firstReconnect.socket);
+        const secondReconnect = mockPlayer(town.townID);
+        town.resumePlayer(player.sessionToken, secondReconnect.socket);
+        expect(firstReconnect.socket.disconnect).toBeCalledWith(true);
+
+        mockClear(townEmitter);
+        getEventListener(firstReconnect.socket, 'disconnect')('server namespace disconnect');
+        expect(() => getLastEmittedEvent(townEmitter, 'playerReconnecting')).toThrowError();
+        jest.advanceTimersByTime(town.reconnectGracePeriodSec * 1000);
+        expect(town.occupancy).toBe(1);
+      });
+      it('Removes players immediately if the grace period is zero', async () => {
+        town.reconnectGracePeriodSec = 0;
+        const otherPlayer = mockPlayer(town.townID);
+        await town.addPlayer(otherPlayer.userName, otherPlayer.socket);
+        getEventListener(otherPlayer.socket, 'disconnect')('transport close');
+        expect(town.players.map(eachPlayer => eachPlayer.userName)).toEqual([player.userName]);
+      });
+    });
     describe('playerMovement', () => {
       const newLocation: PlayerLocation = {
         x: 100,
@@ -545,19 +749,200 @@ describe('Town', () => {
         );
       });
 
-      it('Emits a playerMoved event', () => {
-        const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-        expect(lastEmittedMovement.id).toEqual(playerTestData.player?.id);
-        expect(lastEmittedMovement.location).toEqual(newLocation);
+      it('Sends the movement to the other players on the next tick', async () => {
+        const observer = mockPlayer(town.townID);
+        await town.addPlayer(observer.userName, observer.socket);
+        expect(sendMovementsTo(observer)).toEqual([
+          { id: playerTestData.player?.id, location: newLocation },
+        ]);
       });
       it("Updates the player's location", () => {
         expect(player.location).toEqual(newLocation);
       });
+      it('Rejects malformed locations without changing the player or notifying others', async () => {
+        const observer = mockPlayer(town.townID);
+        await town.addPlayer(observer.userName, observer.socket);
+        sendMovementsTo(observer);
+        const movementHandler = getEventListener(playerTestData.socket, 'playerMovement');
+        movementHandler({ x: NaN, y: 10, rotation: 'sideways' } as unknown as PlayerLocation);
+
+        expect(player.location).toEqual(newLocation);
+        expect(sendMovementsTo(observer)).toEqual([]);
+        const rejection = getLastEmittedEvent(playerTestData.socket, 'eventRejected');
+        expect(rejection.event).toEqual('playerMovement');
+        expect(rejection.issues?.map(eachIssue => eachIssue.path)).toEqual([
+          'x',
+          'rotation',
+          'moving',
+        ]);
+      });
+    });
+    describe('playerMovement with a collision grid', () => {
+      let observer: MockedPlayer;
+      beforeEach(async () => {
+        jest.useFakeTimers();
+        town.initializeFromMap(testingMaps.walled);
+        observer = mockPlayer(town.townID);
+        await town.addPlayer(observer.userName, observer.socket);
+        playerTestData.moveTo(48, 48);
+        sendMovementsTo(observer);
+        playerTestData.socket.emit.mockClear();
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Accepts moves within the map that do not land on a wall', () => {
+        playerTestData.moveTo(80, 48);
+        expect(player.location).toMatchObject({ x: 80, y: 48 });
+        expect(sendMovementsTo(observer)[0].location).toMatchObject({ x: 80, y: 48 });
+        expect(() =>
+          getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected'),
+        ).toThrow();
+      });
+      it('Rejects moves that land on a wall, correcting the client', () => {
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(170, 48);
+        expect(player.location).toMatchObject({ x: 48, y: 48 });
+        expect(sendMovementsTo(observer)).toEqual([]);
+        expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+          player.location,
+        );
+      });
+      it('Clamps moves that leave the map to its edge', () => {
+        playerTestData.moveTo(-10, 48);
+        expect(player.location).toMatchObject({ x: 0, y: 48 });
+        expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+          player.location,
+        );
+        expect(sendMovementsTo(observer)[0].location).toMatchObject({ x: 0, y: 48 });
+      });
+      it('Rejects moves that are faster than the maximum speed', () => {
+        playerTestData.moveTo(48 + MOVEMENT_TOLERANCE + 1, 48);
+        expect(player.location).toMatchObject({ x: 48, y: 48 });
+        expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+          player.location,
+        );
+
+        // Move past the wall, so that the path of the next move is clear
+        town.teleportPlayer(player, { x: 200, y: 48 });
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(200 + MOVEMENT_TOLERANCE + MAX_PLAYER_SPEED, 48, 'front', true);
+        expect(player.location).toMatchObject({ x: 200 + MOVEMENT_TOLERANCE + MAX_PLAYER_SPEED });
+      });
+      it('Limits the total distance moved by many small, rapid updates', () => {
+        // Pace back and forth, 20px every 20ms: each update alone is well within the speed limit
+        let moved = 0;
+        for (let i = 0; i < 50; i += 1) {
+          jest.advanceTimersByTime(20);
+          const previousX = player.location.x;
+          playerTestData.moveTo(i % 10 < 5 ? previousX + 20 : previousX - 20, 48);
+          moved += Math.abs(player.location.x - previousX);
+        }
+        expect(moved).toBeLessThanOrEqual(MOVEMENT_TOLERANCE + MAX_PLAYER_SPEED);
+        expect(moved).toBeGreaterThan(0);
+        expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+          player.location,
+        );
+      });
+      it('Rejects moves that step across a wall', () => {
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(150, 48);
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(200, 48);
+        expect(player.location).toMatchObject({ x: 150, y: 48 });
+        expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+          player.location,
+        );
+      });
+      it('Does not limit the speed of the first move after joining', async () => {
+        const newPlayer = mockPlayer(town.townID);
+        newPlayer.player = await town.addPlayer(newPlayer.userName, newPlayer.socket);
+        newPlayer.moveTo(280, 140);
+        expect(newPlayer.player.location).toMatchObject({ x: 280, y: 140 });
+      });
+    });
+    describe('playerMovement with transporters', () => {
+      let observer: MockedPlayer;
+      beforeEach(async () => {
+        town.initializeFromMap(testingMaps.transporter);
+        observer = mockPlayer(town.townID);
+        await town.addPlayer(observer.userName, observer.socket);
+        playerTestData.moveTo(200, 100);
+        playerTestData.socket.emit.mockClear();
+      });
+      it('Moves players who enter a transporter to its target and informs the town', () => {
+        playerTestData.moveTo(290, 100, 'right', true);
+        const expectedLocation = { x: 600, y: 300, rotation: 'right', moving: false };
+        expect(player.location).toMatchObject(expectedLocation);
+        expect(sendMovementsTo(observer)[0].location).toMatchObject(expectedLocation);
+        expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+          player.location,
+        );
+      });
+      it('Does not move players who are not in a transporter', () => {
+        playerTestData.moveTo(250, 100);
+        expect(player.location).toMatchObject({ x: 250, y: 100 });
+        expect(() =>
+          getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected'),
+        ).toThrow();
+      });
+      it('Lets players walk away from stairs whose targets are on walls', async () => {
+        jest.useFakeTimers();
+        const indoors = ITiledMap.parse(
+          JSON.parse(await fs.readFile('testData/indoors.json', 'utf-8')),
+        );
+        town.initializeFromMap(indoors);
+        // The target of the stairs to the basement is on the wall tiles of the stairs up, and the other
+        // way around; each target is moved to the closest walkable tile
+        playerTestData.moveTo(2580, 1200);
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(2550, 1200, 'left', true);
+        expect(player.location).toMatchObject({ x: 2992, y: 1232 });
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(3010, 1232, 'right', true);
+        expect(player.location).toMatchObject({ x: 3010, y: 1232 });
+
+        // The stairs up are surrounded by walls, except from above
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(2990, 1100, 'back', true);
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(2948, 1100, 'left', true);
+        expect(player.location).toMatchObject({ x: 2448, y: 1232 });
+        jest.advanceTimersByTime(1000);
+        playerTestData.moveTo(2430, 1232, 'left', true);
+        expect(player.location).toMatchObject({ x: 2430, y: 1232 });
+        jest.useRealTimers();
+      });
+    });
+    describe('interactableCommand', () => {
+      it('Responds to a malformed command with an error, without dispatching it', () => {
+        town.initializeFromMap(testingMaps.twoConvOneViewing);
+        const viewingArea = town.getInteractable('Name3');
+        const handleCommandSpy = jest.spyOn(viewingArea, 'handleCommand');
+        const commandHandler = getEventListener(playerTestData.socket, 'interactableCommand');
+        const command = {
+          commandID: nanoid(),
+          interactableID: 'Name3',
+          type: 'ViewingAreaUpdate',
+          update: { id: 'Name3' },
+        };
+        commandHandler(command as unknown as Parameters<typeof commandHandler>[0]);
+
+        expect(handleCommandSpy).not.toHaveBeenCalled();
+        const response = getLastEmittedEvent(playerTestData.socket, 'commandResponse');
+        expect(response.commandID).toEqual(command.commandID);
+        expect(response.error).toBeDefined();
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+          'interactableCommand',
+        );
+      });
     });
     describe('interactableUpdate', () => {
       let interactableUpdateCallback: (update: Interactable) => void;
       let update: ViewingAreaModel;
       beforeEach(async () => {
+        // Stop the clock, so that the video does not advance while it plays
+        jest.useFakeTimers();
         town.initializeFromMap(testingMaps.twoConvOneViewing);
         playerTestData.moveTo(156, 567); // Inside of "Name3" viewing area
         interactableUpdateCallback = getEventListener(playerTestData.socket, 'interactableUpdate');
@@ -565,8 +950,10 @@ describe('Town', () => {
           id: 'Name3',
           isPlaying: true,
           elapsedTimeSec: 100,
-          video: nanoid(),
+          video: createVideoURLForTesting(),
           occupants: [],
+          queue: [],
+          skipVotes: [],
           type: 'ViewingArea',
         };
         interactableUpdateCallback(update);
@@ -584,24 +971,411 @@ describe('Town', () => {
           () => getLastEmittedEvent(townEmitter, 'interactableUpdate'),
         ).toThrowError();
       });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
       it('updates the local model for that interactable', () => {
         const interactable = town.getInteractable(update.id);
         expect(interactable?.toModel()).toEqual(update);
       });
     });
-    it('Forwards chat messages to all players in the same town', async () => {
-      const chatHandler = getEventListener(playerTestData.socket, 'chatMessage');
-      const chatMessage: ChatMessage = {
-        author: player.id,
-        body: 'Test message',
-        dateCreated: new Date(),
-        sid: 'test message id',
-      };
+    describe('chatMessage', () => {
+      let chatHandler: (message: ChatMessageRequest) => void;
+      beforeEach(() => {
+        chatHandler = getEventListener(playerTestData.socket, 'chatMessage');
+      });
+      it('Forwards chat messages to all players in the same town', async () => {
+        chatHandler({ body: 'Test message' });
+
+        const emittedMessage = getLastEmittedEvent(townEmitter, 'chatMessage');
+        expect(emittedMessage.body).toEqual('Test message');
+      });
+      it('Stamps the author, ID and timestamp on the server, ignoring any sent by the client', () => {
+        const before = new Date();
+        const spoofed = {
+          body: 'Test message',
+          author: nanoid(),
+          id: 'spoofed id',
+          sid: 'spoofed sid',
+          dateCreated: new Date(0),
+        };
+        chatHandler(spoofed);
+
+        const emittedMessage = getLastEmittedEvent(townEmitter, 'chatMessage');
+        expect(emittedMessage.author).toEqual(player.id);
+        expect(emittedMessage.id).not.toEqual(spoofed.id);
+        expect(emittedMessage.sid).toEqual(emittedMessage.id);
+        expect(emittedMessage.dateCreated.getTime()).toBeGreaterThanOrEqual(before.getTime());
+      });
+      it('Assigns a unique ID to each message', () => {
+        chatHandler({ body: 'first' });
+        chatHandler({ body: 'second' });
+        const second = getLastEmittedEvent(townEmitter, 'chatMessage');
+        const first = getLastEmittedEvent(townEmitter, 'chatMessage', 1);
+        expect(first.id).not.toEqual(second.id);
+      });
+      it.each(['', '   \n'])('Rejects empty messages (%p) with an eventRejected event', body => {
+        chatHandler({ body });
+        expect(() => getLastEmittedEvent(townEmitter, 'chatMessage')).toThrowError();
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+          'chatMessage',
+        );
+      });
+      it('Rejects messages that are longer than the maximum length', () => {
+        chatHandler({ body: 'x'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1) });
+        expect(() => getLastEmittedEvent(townEmitter, 'chatMessage')).toThrowError();
+        getLastEmittedEvent(playerTestData.socket, 'eventRejected');
+
+        chatHandler({ body: 'x'.repeat(MAX_CHAT_MESSAGE_LENGTH) });
+        expect(getLastEmittedEvent(townEmitter, 'chatMessage').body).toHaveLength(
+          MAX_CHAT_MESSAGE_LENGTH,
+        );
+      });
+      describe('Scoped to an area', () => {
+        let other: MockedPlayer;
+        let outsider: MockedPlayer;
+        beforeEach(async () => {
+          town.initializeFromMap(testingMaps.twoConvOneViewing);
+          other = mockPlayer(town.townID);
+          outsider = mockPlayer(town.townID);
+          other.player = await town.addPlayer(other.userName, other.socket);
+          outsider.player = await town.addPlayer(outsider.userName, outsider.socket);
+          playerTestData.moveTo(45, 122); // Inside of "Name1" area
+          other.moveTo(50, 130);
+          town.addConversationArea({
+            id: 'Name1',
+            topic: 'test',
+            occupants: [],
+            type: 'ConversationArea',
+          });
+        });
+        it.each<ChatMessageRequest['scope']>([
+          { type: 'currentArea' },
+          { type: 'area', interactableID: 'Name1' },
+        ])('Delivers messages only to the occupants of the area (%p)', scope => {
+          chatHandler({ body: 'Just us', scope });
+          const delivered = getLastEmittedEvent(playerTestData.socket, 'chatMessage');
+          expect(delivered).toMatchObject({
+            body: 'Just us',
+            author: player.id,
+            interactableID: 'Name1',
+          });
+          expect(getLastEmittedEvent(other.socket, 'chatMessage')).toEqual(delivered);
+          expect(() => getLastEmittedEvent(outsider.socket, 'chatMessage')).toThrowError();
+          expect(() => getLastEmittedEvent(townEmitter, 'chatMessage')).toThrowError();
+        });
+        it('Logs messages, with the players who received messages to areas', () => {
+          chatHandler({ body: 'Everyone' });
+          chatHandler({ body: 'Just us', scope: { type: 'currentArea' } });
+          const [townEntry, areaEntry] = town.chatLog.entries;
+          expect(townEntry.message.body).toEqual('Everyone');
+          expect(townEntry.recipients).toBeUndefined();
+          expect(areaEntry.message.body).toEqual('Just us');
+          expectArraysToContainSameMembers(areaEntry.recipients ?? [], [
+            player.id,
+            other.player?.id ?? '',
+          ]);
+          expect(town.chatLog.recent(outsider.player?.id ?? '')).toEqual([townEntry.message]);
+        });
+        it('Sends town-scoped messages to the whole town', () => {
+          chatHandler({ body: 'Everyone', scope: { type: 'town' } });
+          const delivered = getLastEmittedEvent(townEmitter, 'chatMessage');
+          expect(delivered.body).toEqual('Everyone');
+          expect(delivered.interactableID).toBeUndefined();
+        });
+        it('Rejects messages to an area from players who are not in it', () => {
+          getEventListener(
+            outsider.socket,
+            'chatMessage',
+          )({
+            body: 'Let me in',
+            scope: { type: 'area', interactableID: 'Name1' },
+          });
+          expect(getLastEmittedEvent(outsider.socket, 'eventRejected')).toEqual({
+            event: 'chatMessage',
+            message: 'Only players in an area may chat in it',
+          });
+          getEventListener(
+            outsider.socket,
+            'chatMessage',
+          )({
+            body: 'Anyone here?',
+            scope: { type: 'currentArea' },
+          });
+          expect(getLastEmittedEvent(outsider.socket, 'eventRejected').message).toEqual(
+            'You are not in an area',
+          );
+          chatHandler({ body: 'Hello', scope: { type: 'area', interactableID: nanoid() } });
+          expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+            'chatMessage',
+          );
+          expect(() => getLastEmittedEvent(playerTestData.socket, 'chatMessage')).toThrowError();
+        });
+        it("Starts a player's view of an area's chat when they enter it", () => {
+          chatHandler({ body: 'Before', scope: { type: 'currentArea' } });
+          outsider.moveTo(60, 140);
+          chatHandler({ body: 'After', scope: { type: 'currentArea' } });
+          const received = outsider.socket.emit.mock.calls.filter(
+            eachCall => eachCall[0] === 'chatMessage',
+          );
+          expect(received.map(eachCall => eachCall[1])).toEqual([
+            expect.objectContaining({ body: 'After' }),
+          ]);
+        });
+      });
+      describe('Commands', () => {
+        let other: MockedPlayer;
+        beforeEach(async () => {
+          town.initializeFromMap(testingMaps.twoConvOneViewing);
+          other = mockPlayer(town.townID);
+          other.player = await town.addPlayer(other.userName, other.socket);
+          mockReset(townEmitter);
+        });
+        function lastReply(): ChatMessage {
+          const reply = getLastEmittedEvent(playerTestData.socket, 'chatMessage');
+          expect(reply.isSystemMessage).toBe(true);
+          return reply;
+        }
+        it('Runs commands instead of sending them, sending their output to the town', () => {
+          const random = jest
+            .spyOn(Math, 'random')
+            .mockReturnValueOnce(0.2)
+            .mockReturnValueOnce(0.9);
+          chatHandler({ body: '/roll 2d6' });
+          random.mockRestore();
+          const rolled = getLastEmittedEvent(townEmitter, 'chatMessage');
+          expect(rolled).toMatchObject({
+            author: player.id,
+            body: `${player.userName} rolled 2d6: 2 + 6 = 8`,
+            isSystemMessage: true,
+          });
+          expect(town.chatLog.recent(player.id)).toEqual([rolled]);
+
+          chatHandler({ body: '/me waves' });
+          expect(getLastEmittedEvent(townEmitter, 'chatMessage').body).toEqual(
+            `* ${player.userName} waves`,
+          );
+        });
+        it('Sends output for an area only to its occupants', () => {
+          playerTestData.moveTo(45, 122); // Inside of "Name1" area
+          town.addConversationArea({
+            id: 'Name1',
+            topic: 'test',
+            occupants: [],
+            type: 'ConversationArea',
+          });
+          chatHandler({ body: '/me waves', scope: { type: 'currentArea' } });
+          expect(lastReply()).toMatchObject({ interactableID: 'Name1' });
+          expect(() => getLastEmittedEvent(townEmitter, 'chatMessage')).toThrowError();
+          expect(() => getLastEmittedEvent(other.socket, 'chatMessage')).toThrowError();
+        });
+        it('Replies only to the issuer with errors, without logging them', () => {
+          chatHandler({ body: '/nope' });
+          expect(lastReply().body).toContain('Unknown command /nope');
+          chatHandler({ body: `/kick ${other.userName}` });
+          expect(lastReply().body).toEqual(PERMISSION_DENIED_MESSAGE);
+          chatHandler({ body: '/roll 0d6' });
+          expect(lastReply().body).toEqual(`You may roll between 1 and ${MAX_DICE} dice`);
+          expect(() => getLastEmittedEvent(townEmitter, 'chatMessage')).toThrowError();
+          expect(town.chatLog.entries).toEqual([]);
+        });
+        it('Lists only the commands that the player may run', () => {
+          chatHandler({ body: '/help' });
+          const help = lastReply().body;
+          expect(help).toContain('/topic <text>');
+          expect(help).not.toContain('/kick');
+          chatHandler({ body: '/help /roll' });
+          expect(lastReply().body).toMatch(/^\/roll \[dice\]: /);
+        });
+        it('Sets the topic of the conversation area that the player is standing in', () => {
+          playerTestData.moveTo(45, 122); // Inside of "Name1" area
+          other.moveTo(50, 130);
+          chatHandler({ body: '/topic  Board games ' });
+          expect(lastReply().body).toEqual('The topic is now "Board games"');
+          const area = town.getInteractable('Name1') as ConversationArea;
+          expect(area.topic).toEqual('Board games');
+          expectArraysToContainSameMembers(area.occupantsByID, [player.id, other.player?.id ?? '']);
+
+          town.setPlayerRole(player.id, 'guest');
+          chatHandler({ body: '/topic Something else' });
+          expect(lastReply().body).toEqual(PERMISSION_DENIED_MESSAGE);
+          expect(area.topic).toEqual('Board games');
+        });
+        it('Lists the occupants of the area that the player is in', () => {
+          chatHandler({ body: '/who' });
+          expect(lastReply().body).toEqual('You are not in an area');
+          playerTestData.moveTo(45, 122); // Inside of "Name1" area
+          other.moveTo(50, 130);
+          town.addConversationArea({
+            id: 'Name1',
+            topic: 'test',
+            occupants: [],
+            type: 'ConversationArea',
+          });
+          chatHandler({ body: '/who' });
+          expect(lastReply().body).toMatch(/^In Name1: /);
+          expect(lastReply().body).toContain(other.userName);
+        });
+        describe('For moderators', () => {
+          beforeEach(() => {
+            town.setPlayerRole(player.id, 'moderator');
+          });
+          it('Teleports the moderator to another player', () => {
+            other.moveTo(45, 122); // Inside of "Name1" area
+            town.addConversationArea({
+              id: 'Name1',
+              topic: 'test',
+              occupants: [],
+              type: 'ConversationArea',
+            });
+            chatHandler({ body: `/tp ${other.userName.toUpperCase()}` });
+            expect(lastReply().body).toEqual(`Teleported to ${other.userName}`);
+            expect(player.location).toMatchObject({ x: 45, y: 122, interactableID: 'Name1' });
+            expect(getLastEmittedEvent(playerTestData.socket, 'playerLocationCorrected')).toEqual(
+              player.location,
+            );
+            expect(town.getInteractable('Name1').occupantsByID).toContain(player.id);
+
+            chatHandler({ body: '/tp' });
+            expect(lastReply().body).toEqual('Usage: /tp <player>');
+          });
+          it('Mutes and kicks players', () => {
+            const otherID = other.player?.id ?? '';
+            chatHandler({ body: `/mute ${otherID} 60 being rude` });
+            expect(lastReply().body).toEqual(`Muted ${other.userName} for 60 seconds`);
+            expect(town.isMuted(otherID)).toBe(true);
+            expect(getLastEmittedEvent(townEmitter, 'playerModerated')).toMatchObject({
+              action: 'mute',
+              playerID: otherID,
+              reason: 'being rude',
+            });
+            chatHandler({ body: `/mute ${otherID} 0` });
+            expect(town.isMuted(otherID)).toBe(false);
+
+            chatHandler({ body: `/kick ${other.userName} spamming` });
+            expect(lastReply().body).toEqual(`Kicked ${other.userName}`);
+            expect(getLastEmittedEvent(other.socket, 'removedFromTown')).toEqual({
+              isBan: false,
+              reason: 'spamming',
+            });
+            expect(town.players).toEqual([player]);
+          });
+          it('Does not moderate the owner of the town', async () => {
+            const owner = mockPlayer(town.townID);
+            owner.player = await town.addPlayer(owner.userName, owner.socket, 'owner');
+            chatHandler({ body: `/kick ${owner.player.id}` });
+            expect(lastReply().body).toEqual(PERMISSION_DENIED_MESSAGE);
+            chatHandler({ body: `/mute ${owner.player.id}` });
+            expect(town.isMuted(owner.player.id)).toBe(false);
+            expect(town.players).toContain(owner.player);
+          });
+        });
+      });
+    });
+    describe('direct messages', () => {
+      let recipient: MockedPlayer;
+      let recipientPlayer: Player;
+      let sendDirectMessage: (message: DirectMessageRequest) => DirectMessageResponse;
+      beforeEach(async () => {
+        recipient = mockPlayer(town.townID);
+        recipientPlayer = await town.addPlayer(recipient.userName, recipient.socket);
+        sendDirectMessage = message => {
+          getEventListener(playerTestData.socket, 'directMessage')(message);
+          return getLastEmittedEvent(playerTestData.socket, 'directMessageResponse');
+        };
+      });
+      it("Delivers the message to the recipient's socket only, and acknowledges its delivery", () => {
+        const requestID = nanoid();
+        const response = sendDirectMessage({ requestID, to: recipientPlayer.id, body: 'Hi there' });
+        const delivered = getLastEmittedEvent(recipient.socket, 'directMessage');
+        expect(delivered).toEqual({
+          id: expect.any(String),
+          from: player.id,
+          to: recipientPlayer.id,
+          body: 'Hi there',
+          dateCreated: expect.any(Date),
+          dateDelivered: expect.any(Date),
+        });
+        expect(response).toEqual({ requestID, isOK: true, message: delivered });
+        expect(() => getLastEmittedEvent(townEmitter, 'directMessage')).toThrowError();
+        expect(() => getLastEmittedEvent(playerTestData.socket, 'directMessage')).toThrowError();
+      });
+      it('Tells the sender when the recipient reads the message', () => {
+        sendDirectMessage({ requestID: nanoid(), to: recipientPlayer.id, body: 'Hi there' });
+        const delivered = getLastEmittedEvent(recipient.socket, 'directMessage');
+        getEventListener(recipient.socket, 'directMessageRead')({ messageIDs: [delivered.id] });
+        expect(getLastEmittedEvent(playerTestData.socket, 'directMessageRead')).toEqual({
+          ...delivered,
+          dateRead: expect.any(Date),
+        });
+      });
+      it('Keeps the history of the conversation between each pair of players', () => {
+        sendDirectMessage({ requestID: nanoid(), to: recipientPlayer.id, body: 'Hi there' });
+        getEventListener(
+          recipient.socket,
+          'directMessage',
+        )({
+          requestID: nanoid(),
+          to: player.id,
+          body: 'Hello',
+        });
+        getEventListener(recipient.socket, 'directMessageHistory')(player.id);
+        const history = getLastEmittedEvent(recipient.socket, 'directMessageHistory');
+        expect(history.playerID).toEqual(player.id);
+        expect(history.messages.map(eachMessage => eachMessage.body)).toEqual([
+          'Hi there',
+          'Hello',
+        ]);
+      });
+      it('Lets the recipient block the sender', () => {
+        getEventListener(recipient.socket, 'blockPlayer')({ playerID: player.id, isBlocked: true });
+        const response = sendDirectMessage({
+          requestID: nanoid(),
+          to: recipientPlayer.id,
+          body: 'Hi there',
+        });
+        expect(response.isOK).toBe(false);
+        expect(!response.isOK && response.error.type).toEqual('blocked');
+        expect(() => getLastEmittedEvent(recipient.socket, 'directMessage')).toThrowError();
 
-      chatHandler(chatMessage);
+        getEventListener(
+          recipient.socket,
+          'blockPlayer',
+        )({ playerID: player.id, isBlocked: false });
+        expect(
+          sendDirectMessage({ requestID: nanoid(), to: recipientPlayer.id, body: 'Hi again' }).isOK,
+        ).toBe(true);
+      });
+      it('Returns a typed error for messages to unknown or offline players', () => {
+        const unknown = sendDirectMessage({ requestID: nanoid(), to: nanoid(), body: 'Hello?' });
+        expect(!unknown.isOK && unknown.error.type).toEqual('unknownPlayer');
 
-      const emittedMessage = getLastEmittedEvent(townEmitter, 'chatMessage');
-      expect(emittedMessage).toEqual(chatMessage);
+        getEventListener(recipient.socket, 'disconnect')('transport close');
+        const offline = sendDirectMessage({
+          requestID: nanoid(),
+          to: recipientPlayer.id,
+          body: 'Hello?',
+        });
+        expect(!offline.isOK && offline.error.type).toEqual('offline');
+      });
+      it.each(['', 'x'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1)])(
+        'Rejects invalid messages (%p)',
+        body => {
+          const response = sendDirectMessage({ requestID: nanoid(), to: recipientPlayer.id, body });
+          expect(!response.isOK && response.error.type).toEqual('invalidMessage');
+          const toSelf = sendDirectMessage({ requestID: nanoid(), to: player.id, body: 'Me' });
+          expect(!toSelf.isOK && toSelf.error.type).toEqual('invalidMessage');
+        },
+      );
+      it('Rejects messages from muted players', () => {
+        town.mutePlayer(player.id, 60);
+        const response = sendDirectMessage({
+          requestID: nanoid(),
+          to: recipientPlayer.id,
+          body: 'Hi',
+        });
+        expect(!response.isOK && response.error.type).toEqual('muted');
+      });
     });
   });
   describe('addConversationArea', () => {
@@ -671,6 +1445,18 @@ describe('Town', () => {
         const convArea = town.getInteractable('Name1') as ConversationArea;
         expect(convArea.topic).toEqual(newTopic);
       });
+      it('Should record the player who set the topic in its history, if given', () => {
+        expect(
+          town.addConversationArea(
+            { id: 'Name2', topic: newTopic, occupants: [], type: 'ConversationArea' },
+            player,
+          ),
+        ).toEqual(true);
+        expect((town.getInteractable('Name2') as ConversationArea).topicHistory).toEqual([
+          { topic: newTopic, setBy: player.id, setAt: expect.any(Date) },
+        ]);
+        expect((town.getInteractable('Name1') as ConversationArea).topicHistory).toEqual([]);
+      });
       it('Should include any players in that area as occupants', () => {
         const convArea = town.getInteractable('Name1') as ConversationArea;
         expect(convArea.occupantsByID).toEqual([player.id]);
@@ -681,6 +1467,7 @@ describe('Town', () => {
           id: 'Name1',
           topic: newTopic,
           occupants: [player.id],
+          topicHistory: [],
           type: 'ConversationArea',
         });
       });
@@ -696,7 +1483,7 @@ describe('Town', () => {
           id: nanoid(),
           isPlaying: false,
           elapsedTimeSec: 0,
-          video: nanoid(),
+          video: createVideoURLForTesting(),
           occupants: [],
           type: 'ViewingArea',
         }),
@@ -730,7 +1517,7 @@ describe('Town', () => {
           id: 'Name3',
           isPlaying: false,
           elapsedTimeSec: 0,
-          video: 'test',
+          video: createVideoURLForTesting(),
           occupants: [],
           type: 'ViewingArea',
         }),
@@ -740,7 +1527,7 @@ describe('Town', () => {
           id: 'Name3',
           isPlaying: false,
           elapsedTimeSec: 0,
-          video: 'test2',
+          video: createVideoURLForTesting(),
           occupants: [],
           type: 'ViewingArea',
         }),
@@ -751,15 +1538,22 @@ describe('Town', () => {
         id: 'Name3',
         isPlaying: true,
         elapsedTimeSec: 100,
-        video: nanoid(),
+        video: createVideoURLForTesting(),
         occupants: [playerID],
+        queue: [],
+        skipVotes: [],
         type: 'ViewingArea',
       };
       beforeEach(() => {
+        // Stop the clock, so that the video does not advance while it plays
+        jest.useFakeTimers();
         playerTestData.moveTo(160, 570); // Inside of "Name3" area
         expect(town.addViewingArea(newModel)).toBe(true);
         newModel.occupants = [playerID];
       });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
 
       it('Should update the local model for that area', () => {
         const viewingArea = town.getInteractable('Name3');
@@ -774,9 +1568,608 @@ describe('Town', () => {
         const viewingArea = town.getInteractable('Name3');
         expect(viewingArea.occupantsByID).toEqual([player.id]);
       });
+      it("Should revert to the map's default video once the area empties", () => {
+        playerTestData.moveTo(10, 10);
+        expect(town.getInteractable('Name3').toModel()).toMatchObject({
+          video: 'someURL',
+          elapsedTimeSec: 0,
+          occupants: [],
+        });
+      });
+    });
+  });
+
+  describe('media policy', () => {
+    const youTubeID = 'dQw4w9WgXcQ';
+    const normalizedVideo = `https://www.youtube.com/watch?v=${youTubeID}`;
+    let resolver: MockProxy<IMediaMetadataResolver>;
+    const newArea = (video: string): ViewingAreaModel => ({
+      id: 'Name3',
+      isPlaying: true,
+      elapsedTimeSec: 0,
+      video,
+      occupants: [],
+      type: 'ViewingArea',
+    });
+    beforeEach(() => {
+      town.initializeFromMap(testingMaps.twoConvOneViewing);
+      resolver = mock<IMediaMetadataResolver>();
+      resolver.resolve.mockResolvedValue({ title: 'A video', durationSec: 212 });
+      town.mediaPolicy = new MediaPolicy({ resolver });
+    });
+    it('Rejects videos that the policy does not allow', () => {
+      expect(() => town.addViewingArea(newArea('https://example.com/video.mp4'))).toThrow(
+        new InvalidParametersError('Videos from example.com are not allowed'),
+      );
+      expect(town.getInteractable('Name3').toModel()).toMatchObject({ video: 'someURL' });
+    });
+    it('Normalizes the URL of the video, and then sends its metadata once it is resolved', async () => {
+      expect(town.addViewingArea(newArea(`https://youtu.be/${youTubeID}`))).toBe(true);
+      expect(town.getInteractable('Name3').toModel()).toMatchObject({ video: normalizedVideo });
+      expect(resolver.resolve).toHaveBeenCalledWith(normalizedVideo);
+      await new Promise(resolve => setImmediate(resolve));
+      expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toMatchObject({
+        video: normalizedVideo,
+        title: 'A video',
+        durationSec: 212,
+      });
+    });
+    it('Rejects interactableUpdates that play a video the policy does not allow', () => {
+      getEventListener(
+        playerTestData.socket,
+        'interactableUpdate',
+      )(newArea('https://example.com/video.mp4'));
+      expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected')).toEqual({
+        event: 'interactableUpdate',
+        message: 'Videos from example.com are not allowed',
+      });
+      expect(town.getInteractable('Name3').toModel()).toMatchObject({ video: 'someURL' });
+    });
+    it('Normalizes the videos of commands, and rejects commands with disallowed videos', () => {
+      playerTestData.moveTo(160, 570); // Inside of "Name3" area
+      town.addViewingArea(newArea(createVideoURLForTesting()));
+      const sendCommand = (command: InteractableCommand) => {
+        getEventListener(
+          playerTestData.socket,
+          'interactableCommand',
+        )({ commandID: nanoid(), interactableID: 'Name3', ...command });
+        return getLastEmittedEvent(playerTestData.socket, 'commandResponse');
+      };
+      expect(
+        sendCommand({ type: 'PlaylistEnqueue', video: 'https://example.com/video.mp4' }).error,
+      ).toEqual('Videos from example.com are not allowed');
+      expect(
+        sendCommand({ type: 'PlaylistEnqueue', video: `https://youtu.be/${youTubeID}` }).isOK,
+      ).toBe(true);
+      expect((town.getInteractable('Name3') as ViewingArea).queue[0].video).toEqual(
+        normalizedVideo,
+      );
+    });
+  });
+
+  describe('playback sync', () => {
+    const playingVideo = createVideoURLForTesting();
+    let syncedTown: Town;
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      syncedTown = new Town(nanoid(), false, nanoid(), townEmitter, hashPassword(nanoid()));
+      syncedTown.initializeFromMap(testingMaps.twoConvTwoViewing);
+      const viewer = mockPlayer(syncedTown.townID);
+      await syncedTown.addPlayer(viewer.userName, viewer.socket);
+      syncedTown.addViewingArea({
+        id: 'Name3',
+        isPlaying: true,
+        elapsedTimeSec: 10,
+        video: playingVideo,
+        occupants: [],
+        type: 'ViewingArea',
+      });
+      mockClear(townEmitter);
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    function syncEvents() {
+      return townEmitter.emit.mock.calls.filter(
+        eachCall => eachCall[0] === 'viewingAreaPlaybackSync',
+      );
+    }
+    it('Periodically sends the clock of each viewing area that is playing a video', () => {
+      jest.advanceTimersByTime(DEFAULT_PLAYBACK_SYNC_INTERVAL_MS);
+      // Name4 shows its default video, but does not autoplay it
+      expect(syncEvents()).toEqual([
+        [
+          'viewingAreaPlaybackSync',
+          {
+            interactableID: 'Name3',
+            video: playingVideo,
+            isPlaying: true,
+            elapsedTimeSec: 10 + DEFAULT_PLAYBACK_SYNC_INTERVAL_MS / 1000,
+            serverTime: Date.now(),
+          },
+        ],
+      ]);
+    });
+    it('Stops sending clocks when the town closes', () => {
+      syncedTown.disconnectAllPlayers();
+      jest.advanceTimersByTime(DEFAULT_PLAYBACK_SYNC_INTERVAL_MS * 2);
+      expect(syncEvents()).toEqual([]);
+    });
+    it('Restarts with a new interval, which must be positive', () => {
+      expect(() => {
+        syncedTown.playbackSyncIntervalMs = 0;
+      }).toThrowError();
+      syncedTown.playbackSyncIntervalMs = 1000;
+      jest.advanceTimersByTime(1000);
+      expect(syncEvents().length).toEqual(1);
+    });
+  });
+
+  describe('capacity and waitlist', () => {
+    beforeEach(() => {
+      town.reconnectGracePeriodSec = 0;
+    });
+    function joinWaitlist(): { waiter: MockedPlayer; admit: jest.Mock } {
+      const waiter = mockPlayer(town.townID);
+      const admit = jest.fn(async () => {
+        await town.addPlayer(waiter.userName, waiter.socket);
+      });
+      town.joinWaitlist(waiter.socket, admit);
+      return { waiter, admit };
+    }
+    it('Defaults to a capacity of DEFAULT_TOWN_CAPACITY', () => {
+      expect(town.capacity).toBe(DEFAULT_TOWN_CAPACITY);
+      expect(town.isFull).toBe(false);
+    });
+    it('Is full once the occupancy reaches the capacity', () => {
+      town.capacity = 1;
+      expect(town.isFull).toBe(true);
+      expect(getLastEmittedEvent(townEmitter, 'townSettingsUpdated')).toEqual({ capacity: 1 });
+    });
+    it.each([0, -1, 1.5, NaN])('Rejects an invalid capacity (%p)', capacity => {
+      expect(() => {
+        town.capacity = capacity;
+      }).toThrowError();
+      expect(town.capacity).toBe(DEFAULT_TOWN_CAPACITY);
+    });
+    it('Informs each waiting client of its position', () => {
+      town.capacity = 1;
+      const first = joinWaitlist();
+      const second = joinWaitlist();
+      expect(getLastEmittedEvent(first.waiter.socket, 'waitlistUpdated').position).toBe(1);
+      expect(getLastEmittedEvent(second.waiter.socket, 'waitlistUpdated').position).toBe(2);
+      expect(town.waitlistLength).toBe(2);
+    });
+    it('Admits waiting clients in order when a slot frees up', async () => {
+      town.capacity = 1;
+      const first = joinWaitlist();
+      const second = joinWaitlist();
+      getEventListener(playerTestData.socket, 'disconnect')('transport close');
+
+      expect(first.admit).toBeCalledTimes(1);
+      expect(second.admit).not.toBeCalled();
+      expect(town.occupancy).toBe(1);
+      expect(getLastEmittedEvent(second.waiter.socket, 'waitlistUpdated').position).toBe(1);
+    });
+    it('Admits as many waiting clients as fit when the capacity increases', () => {
+      town.capacity = 1;
+      const waiters = [joinWaitlist(), joinWaitlist(), joinWaitlist()];
+      town.capacity = 3;
+      expect(waiters.map(eachWaiter => eachWaiter.admit.mock.calls.length)).toEqual([1, 1, 0]);
+      expect(town.occupancy).toBe(3);
+      expect(getLastEmittedEvent(waiters[2].waiter.socket, 'waitlistUpdated').position).toBe(1);
+    });
+    it('Removes clients from the waitlist when they disconnect', () => {
+      town.capacity = 1;
+      const first = joinWaitlist();
+      const second = joinWaitlist();
+      getEventListener(first.waiter.socket, 'disconnect')('transport close');
+      expect(town.waitlistLength).toBe(1);
+      expect(getLastEmittedEvent(second.waiter.socket, 'waitlistUpdated').position).toBe(1);
+
+      getEventListener(playerTestData.socket, 'disconnect')('transport close');
+      expect(first.admit).not.toBeCalled();
+      expect(second.admit).toBeCalled();
+    });
+    it('Disconnects waiting clients when the town closes', () => {
+      town.capacity = 1;
+      const { waiter, admit } = joinWaitlist();
+      town.disconnectAllPlayers();
+      expect(waiter.socket.disconnect).toBeCalledWith(true);
+      expect(town.waitlistLength).toBe(0);
+      expect(admit).not.toBeCalled();
+    });
+  });
+  describe('moderation', () => {
+    it('Kicks a player: informs the town and the player, removes them and disconnects them', () => {
+      town.initializeFromMap(testingMaps.twoConvOneViewing);
+      playerTestData.moveTo(45, 122); // Inside of "Name1" area
+      town.addConversationArea({
+        id: 'Name1',
+        topic: 'test',
+        occupants: [],
+        type: 'ConversationArea',
+      });
+      const conversationArea = town.getInteractable('Name1');
+      expect(conversationArea.occupantsByID).toEqual([player.id]);
+
+      expect(town.kickPlayer(player.id, 'spamming')).toBe(true);
+      expect(getLastEmittedEvent(townEmitter, 'playerModerated')).toEqual({
+        action: 'kick',
+        playerID: player.id,
+        reason: 'spamming',
+      });
+      expect(getLastEmittedEvent(playerTestData.socket, 'removedFromTown')).toEqual({
+        isBan: false,
+        reason: 'spamming',
+      });
+      expect(playerTestData.socket.disconnect).toBeCalledWith(true);
+      expect(town.occupancy).toBe(0);
+      expect(conversationArea.occupantsByID).toEqual([]);
+      expect(getLastEmittedEvent(townEmitter, 'playerDisconnect').id).toEqual(player.id);
+      expect(town.isBanned(player.sessionToken)).toBe(false);
+    });
+    it('Does not hold a reconnect grace period for kicked players', () => {
+      town.kickPlayer(player.id);
+      mockClear(townEmitter);
+      getEventListener(playerTestData.socket, 'disconnect')('server namespace disconnect');
+      expect(() => getLastEmittedEvent(townEmitter, 'playerReconnecting')).toThrowError();
+      expect(
+        town.resumePlayer(player.sessionToken, mockPlayer(town.townID).socket),
+      ).toBeUndefined();
+    });
+    it('Bans a player, blocking their session', () => {
+      expect(town.banPlayer(player.id, 'trolling')).toBe(true);
+      expect(getLastEmittedEvent(townEmitter, 'playerModerated').action).toEqual('ban');
+      expect(getLastEmittedEvent(playerTestData.socket, 'removedFromTown').isBan).toBe(true);
+      expect(town.isBanned(player.sessionToken)).toBe(true);
+      expect(town.occupancy).toBe(0);
+    });
+    it('Returns false when acting on a player who is not in the town', () => {
+      expect(town.kickPlayer(nanoid())).toBe(false);
+      expect(town.banPlayer(nanoid())).toBe(false);
+      expect(town.mutePlayer(nanoid(), 10)).toBe(false);
+      expect(() => getLastEmittedEvent(townEmitter, 'playerModerated')).toThrowError();
+    });
+    describe('mutePlayer', () => {
+      let chatHandler: (message: ChatMessageRequest) => void;
+      beforeEach(() => {
+        jest.useFakeTimers();
+        chatHandler = getEventListener(playerTestData.socket, 'chatMessage');
+      });
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+      it('Rejects chat messages from the player until the mute ends', () => {
+        expect(town.mutePlayer(player.id, 60, 'calm down')).toBe(true);
+        const action = getLastEmittedEvent(townEmitter, 'playerModerated');
+        expect(action.action).toEqual('mute');
+        expect(action.mutedUntil?.getTime()).toEqual(Date.now() + 60000);
+
+        chatHandler({ body: 'hello?' });
+        expect(() => getLastEmittedEvent(townEmitter, 'chatMessage')).toThrowError();
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+          'chatMessage',
+        );
+
+        jest.advanceTimersByTime(60000);
+        expect(town.isMuted(player.id)).toBe(false);
+        chatHandler({ body: 'hello!' });
+        expect(getLastEmittedEvent(townEmitter, 'chatMessage').body).toEqual('hello!');
+      });
+      it('Lifts a mute when muted for a duration of 0', () => {
+        town.mutePlayer(player.id, 60);
+        town.mutePlayer(player.id, 0);
+        expect(town.isMuted(player.id)).toBe(false);
+      });
+      it.each([-1, NaN, Infinity])('Rejects an invalid duration (%p)', durationSec => {
+        expect(town.mutePlayer(player.id, durationSec)).toBe(false);
+        expect(town.isMuted(player.id)).toBe(false);
+      });
+    });
+  });
+  describe('roles and permissions', () => {
+    let owner: MockedPlayer;
+    beforeEach(async () => {
+      owner = mockPlayer(town.townID);
+      owner.player = await town.addPlayer(owner.userName, owner.socket, 'owner');
+    });
+    it('Gives players the default role unless another role is specified', () => {
+      expect(player.role).toEqual('member');
+      expect(player.toPlayerModel().role).toEqual('member');
+      expect(owner.player?.role).toEqual('owner');
+    });
+    it('Grants each role its configured permissions', () => {
+      expect(town.hasPermission(player, 'startGame')).toBe(true);
+      expect(town.hasPermission(player, 'moderate')).toBe(false);
+      town.rolePermissions.setPermissions('member', ['moderate']);
+      expect(town.hasPermission(player, 'startGame')).toBe(false);
+      expect(town.hasPermission(player, 'moderate')).toBe(true);
+    });
+    it('Changes the role of a player and informs the town', () => {
+      expect(town.setPlayerRole(player.id, 'moderator')).toBe(true);
+      expect(player.role).toEqual('moderator');
+      expect(getLastEmittedEvent(townEmitter, 'playerRoleChanged')).toEqual(player.toPlayerModel());
+      expect(town.setPlayerRole(nanoid(), 'moderator')).toBe(false);
+    });
+    describe('setPlayerRole socket event', () => {
+      it('Allows a player with the assignRoles permission to change the role of another player', () => {
+        getEventListener(owner.socket, 'setPlayerRole')({ playerID: player.id, role: 'guest' });
+        expect(player.role).toEqual('guest');
+      });
+      it('Rejects requests from players without the assignRoles permission', () => {
+        getEventListener(
+          playerTestData.socket,
+          'setPlayerRole',
+        )({
+          playerID: owner.player?.id ?? '',
+          role: 'guest',
+        });
+        expect(owner.player?.role).toEqual('owner');
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+          'setPlayerRole',
+        );
+      });
+      it('Does not allow a player to change their own role', () => {
+        getEventListener(
+          owner.socket,
+          'setPlayerRole',
+        )({
+          playerID: owner.player?.id ?? '',
+          role: 'guest',
+        });
+        expect(owner.player?.role).toEqual('owner');
+      });
+      it('Allows only owners to grant ownership or change the roles of owners', async () => {
+        town.rolePermissions.setPermissions('moderator', ['assignRoles']);
+        town.setPlayerRole(player.id, 'moderator');
+        const other = mockPlayer(town.townID);
+        const otherPlayer = await town.addPlayer(other.userName, other.socket);
+        const setRole = getEventListener(playerTestData.socket, 'setPlayerRole');
+
+        setRole({ playerID: owner.player?.id ?? '', role: 'guest' });
+        expect(owner.player?.role).toEqual('owner');
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').message).toEqual(
+          PERMISSION_DENIED_MESSAGE,
+        );
+        setRole({ playerID: otherPlayer.id, role: 'owner' });
+        expect(otherPlayer.role).toEqual('member');
+
+        setRole({ playerID: otherPlayer.id, role: 'guest' });
+        expect(otherPlayer.role).toEqual('guest');
+        getEventListener(
+          owner.socket,
+          'setPlayerRole',
+        )({ playerID: otherPlayer.id, role: 'owner' });
+        expect(otherPlayer.role).toEqual('owner');
+      });
+    });
+    describe('moderatePlayer socket event', () => {
+      it('Allows a player with the moderate permission to kick another player', () => {
+        getEventListener(
+          owner.socket,
+          'moderatePlayer',
+        )({
+          action: 'kick',
+          playerID: player.id,
+          reason: 'spamming',
+        });
+        expect(getLastEmittedEvent(playerTestData.socket, 'removedFromTown')).toEqual({
+          isBan: false,
+          reason: 'spamming',
+        });
+      });
+      it('Mutes a player for the requested duration', () => {
+        getEventListener(
+          owner.socket,
+          'moderatePlayer',
+        )({
+          action: 'mute',
+          playerID: player.id,
+          durationSec: 60,
+        });
+        expect(town.isMuted(player.id)).toBe(true);
+      });
+      it('Rejects requests from players without the moderate permission', () => {
+        getEventListener(
+          playerTestData.socket,
+          'moderatePlayer',
+        )({
+          action: 'ban',
+          playerID: owner.player?.id ?? '',
+        });
+        expect(town.isBanned(owner.player?.sessionToken ?? '')).toBe(false);
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+          'moderatePlayer',
+        );
+      });
+      it('Does not allow moderators to act on the owner', () => {
+        town.setPlayerRole(player.id, 'moderator');
+        getEventListener(
+          playerTestData.socket,
+          'moderatePlayer',
+        )({
+          action: 'kick',
+          playerID: owner.player?.id ?? '',
+        });
+        expect(town.players).toContain(owner.player);
+      });
+    });
+    describe('interactables', () => {
+      beforeEach(() => {
+        town.initializeFromMap(testingMaps.twoConvOneViewing);
+        town.setPlayerRole(player.id, 'guest');
+      });
+      it('Rejects viewing area updates that change the video from players without permission', () => {
+        getEventListener(
+          playerTestData.socket,
+          'interactableUpdate',
+        )({
+          id: 'Name3',
+          isPlaying: true,
+          elapsedTimeSec: 0,
+          video: createVideoURLForTesting(),
+          occupants: [],
+          type: 'ViewingArea',
+        } as ViewingAreaModel);
+        expect(town.getInteractable('Name3').toModel()).toMatchObject({ video: 'someURL' });
+        expect(getLastEmittedEvent(playerTestData.socket, 'eventRejected').event).toEqual(
+          'interactableUpdate',
+        );
+      });
+      it('Lets players remove only their own videos from playlists, unless they may moderate', async () => {
+        town.setPlayerRole(player.id, 'member');
+        const other = mockPlayer(town.townID);
+        await town.addPlayer(other.userName, other.socket);
+        playerTestData.moveTo(160, 570); // Inside of "Name3" area
+        other.moveTo(170, 570);
+        town.addViewingArea({
+          id: 'Name3',
+          isPlaying: true,
+          elapsedTimeSec: 0,
+          video: createVideoURLForTesting(),
+          occupants: [],
+          type: 'ViewingArea',
+        });
+        const sendCommand = (sender: MockedPlayer, command: InteractableCommand) => {
+          getEventListener(
+            sender.socket,
+            'interactableCommand',
+          )({ commandID: nanoid(), interactableID: 'Name3', ...command });
+          return getLastEmittedEvent(sender.socket, 'commandResponse');
+        };
+        const mine = sendCommand(playerTestData, {
+          type: 'PlaylistEnqueue',
+          video: createVideoURLForTesting(),
+        });
+        const theirs = sendCommand(other, {
+          type: 'PlaylistEnqueue',
+          video: createVideoURLForTesting(),
+        });
+        expect(mine.isOK).toBe(true);
+        const remove = (response: typeof mine) =>
+          sendCommand(playerTestData, {
+            type: 'PlaylistRemove',
+            itemID: (response.payload as { itemID: string }).itemID,
+          });
+        expect(remove(theirs).error).toEqual('Permission denied');
+        expect(remove(mine).isOK).toBe(true);
+        town.setPlayerRole(player.id, 'moderator');
+        expect(remove(theirs).isOK).toBe(true);
+        expect((town.getInteractable('Name3') as ViewingArea).queue).toEqual([]);
+      });
+      it('Rejects commands that need a permission the player does not have', () => {
+        const viewingArea = town.getInteractable('Name3');
+        const handleCommandSpy = jest.spyOn(viewingArea, 'handleCommand');
+        const commandID = nanoid();
+        getEventListener(
+          playerTestData.socket,
+          'interactableCommand',
+        )({
+          commandID,
+          interactableID: 'Name3',
+          type: 'StartGame',
+          gameID: nanoid(),
+        });
+        expect(handleCommandSpy).not.toHaveBeenCalled();
+        expect(getLastEmittedEvent(playerTestData.socket, 'commandResponse')).toEqual({
+          commandID,
+          interactableID: 'Name3',
+          isOK: false,
+          error: 'Permission denied',
+        });
+      });
+      it('Lets only players who may set conversation topics set or clear them', () => {
+        playerTestData.moveTo(45, 122); // Inside of "Name1" area
+        const sendCommand = (command: InteractableCommand) => {
+          getEventListener(
+            playerTestData.socket,
+            'interactableCommand',
+          )({ commandID: nanoid(), interactableID: 'Name1', ...command });
+          return getLastEmittedEvent(playerTestData.socket, 'commandResponse');
+        };
+        const conversationArea = town.getInteractable('Name1') as ConversationArea;
+        expect(sendCommand({ type: 'SetConversationTopic', topic: 'Lunch' }).error).toEqual(
+          'Permission denied',
+        );
+        expect(conversationArea.topic).toBeUndefined();
+
+        town.setPlayerRole(player.id, 'member');
+        expect(sendCommand({ type: 'SetConversationTopic', topic: 'Lunch' }).isOK).toBe(true);
+        expect(conversationArea.topic).toEqual('Lunch');
+        expect(conversationArea.topicHistory).toEqual([
+          { topic: 'Lunch', setBy: player.id, setAt: expect.any(Date) },
+        ]);
+        expect(conversationArea.occupantsByID).toEqual([player.id]);
+        expect(player.location.interactableID).toEqual('Name1');
+
+        town.setPlayerRole(player.id, 'guest');
+        expect(sendCommand({ type: 'ClearConversationTopic' }).error).toEqual('Permission denied');
+        expect(conversationArea.topic).toEqual('Lunch');
+      });
     });
   });
+  describe('movement broadcasting', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      // Restart the tick loop (which started when the first player joined) on the fake timers
+      town.movementBroadcaster.stop();
+      town.movementBroadcaster.start();
+    });
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+    it('Runs the tick loop while there are players in the town', () => {
+      expect(town.movementBroadcaster.isRunning).toBe(true);
+      town.reconnectGracePeriodSec = 0;
+      getEventListener(playerTestData.socket, 'disconnect')('transport close');
+      expect(town.movementBroadcaster.isRunning).toBe(false);
+    });
+    it('Sends far fewer messages than broadcasting every movement to every player (load test)', async () => {
+      const numPlayers = 60;
+      const movesPerTick = 5;
+      const numTicks = 20;
+      const players = [playerTestData];
+      for (let i = 1; i < numPlayers; i++) {
+        const eachPlayer = mockPlayer(town.townID);
+        eachPlayer.player = await town.addPlayer(eachPlayer.userName, eachPlayer.socket);
+        players.push(eachPlayer);
+      }
+      // Spread the players over a large map, in a 10 x 6 grid of 400px cells
+      const home = players.map((_, i) => ({ x: (i % 10) * 400, y: Math.floor(i / 10) * 400 }));
+      players.forEach(eachPlayer => eachPlayer.socket.emit.mockClear());
 
+      let numMovements = 0;
+      for (let tick = 0; tick < numTicks; tick++) {
+        for (let move = 0; move < movesPerTick; move++) {
+          players.forEach((eachPlayer, i) => {
+            eachPlayer.moveTo(home[i].x + tick, home[i].y + move, 'right', true);
+            numMovements += 1;
+          });
+        }
+        jest.advanceTimersByTime(town.movementBroadcaster.tickIntervalMs);
+      }
+
+      const batches = players.flatMap(eachPlayer =>
+        eachPlayer.socket.emit.mock.calls
+          .filter(eachCall => eachCall[0] === 'playersMoved')
+          .map(eachCall => eachCall[1] as PlayerMovementBatch),
+      );
+      const messagesIfUnbatched = numMovements * (numPlayers - 1);
+      expect(batches.length).toBeGreaterThan(0);
+      expect(batches.length * 10).toBeLessThan(messagesIfUnbatched);
+      // Every player still learns every other player's final location
+      const lastSeen = new Map<string, PlayerLocation>();
+      batches.forEach(eachBatch =>
+        eachBatch.movements.forEach(eachMovement =>
+          lastSeen.set(eachMovement.id, eachMovement.location),
+        ),
+      );
+      players.forEach(eachPlayer =>
+        expect(lastSeen.get(eachPlayer.player?.id ?? '')).toEqual(eachPlayer.player?.location),
+      );
+    });
+  });
   describe('disconnectAllPlayers', () => {
     beforeEach(() => {
       town.disconnectAllPlayers();
@@ -798,6 +2191,73 @@ describe('Town', () => {
     it('Throws an error if there are duplicate interactable object IDs', async () => {
       expectInitializingFromMapToThrowError(testingMaps.duplicateNames);
     });
+    it('Handles maps with thousands of areas and players', async () => {
+      const columns = 60;
+      const rows = 50;
+      const map: ITiledMap = {
+        tiledversion: '1.9.0',
+        tileheight: 32,
+        tilesets: [],
+        tilewidth: 32,
+        type: 'map',
+        layers: [
+          {
+            id: 4,
+            name: 'Objects',
+            objects: Array.from({ length: columns * rows }, (_, i) => ({
+              type: 'ConversationArea',
+              height: 40,
+              id: i,
+              name: `Table${i}`,
+              rotation: 0,
+              visible: true,
+              width: 40,
+              x: (i % columns) * 100,
+              y: Math.floor(i / columns) * 120,
+            })),
+            opacity: 1,
+            type: 'objectgroup',
+            visible: true,
+            x: 0,
+            y: 0,
+          },
+        ],
+      };
+      town.initializeFromMap(map);
+      expect(town.interactables.length).toBe(columns * rows);
+      const players = await Promise.all(
+        Array.from({ length: 1000 }, async () => {
+          const mockedPlayer = mockPlayer(town.townID);
+          mockedPlayer.player = await town.addPlayer(mockedPlayer.userName, mockedPlayer.socket);
+          return mockedPlayer;
+        }),
+      );
+      players.forEach((eachPlayer, i) => eachPlayer.moveTo((i * 37) % 6000, (i * 53) % 6000));
+      town.interactables.forEach(eachArea =>
+        town.addConversationArea({
+          id: eachArea.id,
+          topic: 'test',
+          occupants: [],
+          type: 'ConversationArea',
+        }),
+      );
+      players.forEach(eachPlayer => {
+        const { location } = eachPlayer.player as Player;
+        const containingArea = town.interactables.find(eachArea => eachArea.contains(location));
+        expect(location.interactableID).toEqual(containingArea?.id);
+      });
+    });
+    it('Places new players at the spawn point of the map', async () => {
+      town.initializeFromMap(testingMaps.transporter);
+      const newPlayer = await town.addPlayer(nanoid(), mockPlayer(town.townID).socket);
+      expect(newPlayer.location).toMatchObject({ x: 100, y: 100 });
+    });
+    it('Throws an error if a transporter does not have a valid target', () => {
+      const map: ITiledMap = JSON.parse(JSON.stringify(testingMaps.transporter));
+      const objectLayer = map.layers[0] as ITiledMapObjectLayer;
+      objectLayer.objects = objectLayer.objects.filter(eachObject => eachObject.id !== 3);
+      expect(() => town.initializeFromMap(map)).toThrowError();
+    });
     it('Throws an error if there are overlapping objects', async () => {
       expectInitializingFromMapToThrowError(testingMaps.overlapping);
     });
@@ -842,9 +2302,11 @@ describe('Town', () => {
         // Check that the player's location was updated
         expect(newPlayerObj.location.interactableID).toEqual('Name1');
 
-        // Check that a movement event was emitted with the correct label
-        const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-        expect(lastEmittedMovement.location.interactableID).toEqual('Name1');
+        // Check that the movement was sent to the other players with the correct label
+        const movements = sendMovementsTo(playerTestData);
+        expect(
+          movements.find(eachMovement => eachMovement.id === newPlayerObj.id)?.location,
+        ).toMatchObject({ interactableID: 'Name1' });
 
         // Check that the conversation area occupants was updated
         const occupants = town.getInteractable('Name1').occupantsByID;
@@ -857,6 +2319,122 @@ describe('Town', () => {
       });
     });
   });
+  describe('replaceMap', () => {
+    /** A copy of the twoConv map, with area Name1 moved to the given coordinates */
+    function twoConvWithName1At(x: number, y: number): ITiledMap {
+      const map = JSON.parse(JSON.stringify(testingMaps.twoConv)) as ITiledMap;
+      const name1 = (map.layers[0] as ITiledMapObjectLayer).objects[0];
+      name1.x = x;
+      name1.y = y;
+      return map;
+    }
+    beforeEach(() => {
+      town.initializeFromMap(testingMaps.twoConvOneViewing);
+      playerTestData.moveTo(51, 121);
+      expect(
+        town.addConversationArea({
+          id: 'Name1',
+          topic: 'test',
+          occupants: [],
+          type: 'ConversationArea',
+        }),
+      ).toBe(true);
+      mockClear(townEmitter);
+    });
+    it('Keeps the state and occupants of areas that are in both maps, and retires the others', () => {
+      const name1 = town.getInteractable('Name1');
+      town.replaceMap(testingMaps.twoConv, 'mapID');
+      expect(town.getInteractable('Name1')).toBe(name1);
+      expect((name1 as ConversationArea).topic).toEqual('test');
+      expect(name1.occupantsByID).toEqual([player.id]);
+      expect(() => town.getInteractable('Name3')).toThrowError();
+      expect(player.location.interactableID).toEqual('Name1');
+    });
+    it('Sends a single mapChanged event with the new interactables', () => {
+      town.replaceMap(testingMaps.twoConv, 'mapID');
+      const mapChanges = townEmitter.emit.mock.calls.filter(
+        eachCall => eachCall[0] === 'mapChanged',
+      );
+      expect(mapChanges).toEqual([
+        [
+          'mapChanged',
+          {
+            mapID: 'mapID',
+            interactables: [
+              {
+                id: 'Name1',
+                type: 'ConversationArea',
+                topic: 'test',
+                occupants: [player.id],
+                topicHistory: [],
+              },
+              {
+                id: 'Name2',
+                type: 'ConversationArea',
+                topic: undefined,
+                occupants: [],
+                topicHistory: [],
+              },
+            ],
+          },
+        ],
+      ]);
+      expect(() => getLastEmittedEvent(townEmitter, 'townClosing')).toThrowError();
+    });
+    it('Moves kept areas to their new bounds, removing players who are no longer in them', async () => {
+      const observer = mockPlayer(town.townID);
+      await town.addPlayer(observer.userName, observer.socket);
+      town.replaceMap(twoConvWithName1At(40, 800));
+      const name1 = town.getInteractable('Name1');
+      expect(name1.boundingBox).toEqual({ x: 40, y: 800, width: 326, height: 237 });
+      expect(name1.occupantsByID).toEqual([]);
+      expect(player.location.interactableID).toBeUndefined();
+      const movement = sendMovementsTo(observer).find(
+        eachMovement => eachMovement.id === player.id,
+      );
+      expect(movement).toBeDefined();
+      expect(movement?.location.interactableID).toBeUndefined();
+    });
+    it('Evicts the occupants of areas whose type has changed', () => {
+      const name1 = town.getInteractable('Name1');
+      town.replaceMap(testingMaps.twoViewing);
+      expect(name1.occupantsByID).toEqual([]);
+      expect(town.getInteractable('Name1').toModel().type).toEqual('ViewingArea');
+      expect(player.location.interactableID).toBeUndefined();
+    });
+    it('Retires game areas with spectators in them, removing the players from the game', async () => {
+      const gameMap = JSON.parse(JSON.stringify(testingMaps.twoConv)) as ITiledMap;
+      const name2 = (gameMap.layers[0] as ITiledMapObjectLayer).objects[1];
+      name2.type = 'GameArea';
+      name2.properties = [{ name: 'type', type: 'string', value: 'TicTacToe' }];
+      const gameTown = new Town(nanoid(), false, nanoid(), townEmitter, hashPassword(nanoid()));
+      gameTown.initializeFromMap(gameMap);
+      const playerData = mockPlayer(gameTown.townID);
+      const gamePlayer = await gameTown.addPlayer(playerData.userName, playerData.socket);
+      playerData.player = gamePlayer;
+      const spectatorData = mockPlayer(gameTown.townID);
+      spectatorData.player = await gameTown.addPlayer(spectatorData.userName, spectatorData.socket);
+      playerData.moveTo(700, 200);
+      spectatorData.moveTo(800, 200);
+      const gameArea = gameTown.getInteractable('Name2') as TicTacToeGameArea;
+      gameTown.handleInteractableCommand(gamePlayer, gameArea, { type: 'JoinGame' });
+      expect(gameArea.occupantsByID).toHaveLength(2);
+
+      gameTown.replaceMap(twoConvWithName1At(40, 800));
+      expect(gameArea.occupantsByID).toEqual([]);
+      expect(gameArea.game?.hasPlayer(gamePlayer)).toBe(false);
+      expect(gameTown.getInteractable('Name1').boundingBox.y).toEqual(800);
+      expect(gameTown.getInteractable('Name2').toModel().type).toEqual('ConversationArea');
+    });
+    it('Leaves the town unchanged if the new map is invalid', () => {
+      const interactables = town.interactables;
+      expect(() => town.replaceMap(testingMaps.overlapping)).toThrowError();
+      expect(() => town.replaceMap(testingMaps.noObjects)).toThrowError();
+      expect(town.interactables).toBe(interactables);
+      expect(town.getInteractable('Name1').occupantsByID).toEqual([player.id]);
+      expect(() => getLastEmittedEvent(townEmitter, 'mapChanged')).toThrowError();
+    });
+  });
   describe('Updating town settings', () => {
     it('Emits townSettingsUpdated events when friendlyName changes', async () => {
       const newFriendlyName = nanoid();
@@ -1,29 +1,91 @@
 import { ITiledMap, ITiledMapObjectLayer } from '@jonbell/tiled-map-type-guard';
 import { nanoid } from 'nanoid';
 import { BroadcastOperator } from 'socket.io';
-import InvalidParametersError from '../lib/InvalidParametersError';
+import InvalidParametersError, {
+  INVALID_COMMAND_MESSAGE,
+  PERMISSION_DENIED_MESSAGE,
+} from '../lib/InvalidParametersError';
 import IVideoClient from '../lib/IVideoClient';
+import MediaPolicy from '../lib/MediaPolicy';
 import Player from '../lib/Player';
+import SpatialIndex from '../lib/SpatialIndex';
 import TwilioVideo from '../lib/TwilioVideo';
-import { isViewingArea } from '../TestUtils';
 import {
   ChatMessage,
+  ChatMessageRequest,
+  ChatScope,
+  ClientToServerEvents,
   ConversationArea as ConversationAreaModel,
   CoveyTownSocket,
+  DirectMessage,
+  DirectMessageError,
+  DirectMessageReadReceipt,
+  DirectMessageRequest,
   Interactable,
   InteractableCommand,
   InteractableCommandBase,
+  InteractableCommandReturnType,
+  ModerationCommand,
+  PlayerBlockUpdate,
+  PlayerID,
   PlayerLocation,
+  PlayerRole,
+  PlayerRoleUpdate,
   ServerToClientEvents,
   SocketData,
+  TownPermission,
   ViewingArea as ViewingAreaModel,
 } from '../types/CoveyTownSocket';
 import { logError } from '../Utils';
+import { BUILT_IN_CHAT_COMMANDS } from './BuiltInChatCommands';
+import ChatCommandRegistry, { ChatCommandResult, parseChatCommand } from './ChatCommandRegistry';
+import ChatLog from './ChatLog';
+import validateClientEvent from './ClientEventValidators';
+import CollisionGrid from './CollisionGrid';
 import ConversationArea from './ConversationArea';
+import DirectMessages from './DirectMessages';
+import GameArea from './games/GameArea';
 import GameAreaFactory from './games/GameAreaFactory';
 import InteractableArea from './InteractableArea';
+import MovementBroadcaster from './MovementBroadcaster';
+import RolePermissions from './RolePermissions';
+import Transporter, { MapPoint, SPAWN_POINT_NAME } from './Transporter';
 import ViewingArea from './ViewingArea';
 
+/**
+ * How long (in seconds) a player whose socket disconnects keeps their place in the town, so that
+ * they can resume their session by reconnecting with their session token
+ */
+export const DEFAULT_RECONNECT_GRACE_PERIOD_SEC = 30;
+
+/** The number of players that may be in a town at once, unless configured otherwise */
+export const DEFAULT_TOWN_CAPACITY = 50;
+
+/** The maximum number of characters in the body of a chat message */
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+/**
+ * The fastest that a player may move, in pixels per second. Clients move players at 175px/s; the extra
+ * allows for movement updates that are delayed and then delivered together.
+ */
+export const MAX_PLAYER_SPEED = 350;
+
+/**
+ * How far (in pixels) a player may move at once after joining, and how far beyond one second of
+ * movement at MAX_PLAYER_SPEED a player who has stood still may move at once
+ */
+export const MOVEMENT_TOLERANCE = 64;
+
+/**
+ * The most distance (in pixels) that a player may save up by standing still: each player's movement
+ * budget refills at MAX_PLAYER_SPEED, up to this amount, and each accepted movement spends the
+ * distance moved, so that no rate of movement updates lets a player move faster than MAX_PLAYER_SPEED
+ */
+export const MAX_MOVEMENT_BUDGET = MAX_PLAYER_SPEED + MOVEMENT_TOLERANCE;
+
+/** How often (in ms) the clock of each playing viewing area is sent to the players in the town */
+export const DEFAULT_PLAYBACK_SYNC_INTERVAL_MS = 5000;
+
 /**
  * The Town class implements the logic for each town: managing the various events that
  * can occur (e.g. joining a town, moving, leaving a town)
@@ -33,6 +95,30 @@ export default class Town {
     return this._capacity;
   }
 
+  /**
+   * Changes the maximum number of players in this town. Players already in the town are never removed
+   * because of a reduced capacity; if the capacity increases, players on the waitlist are admitted.
+   *
+   * @throws Error if the capacity is not a positive integer
+   */
+  set capacity(value: number) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error('Capacity must be a positive integer');
+    }
+    this._capacity = value;
+    this._broadcastEmitter.emit('townSettingsUpdated', { capacity: value });
+    this._admitFromWaitlist();
+  }
+
+  get isFull(): boolean {
+    return this.occupancy >= this._capacity;
+  }
+
+  /** The number of clients waiting to join this town * */
+  get waitlistLength(): number {
+    return this._waitlist.length;
+  }
+
   set isPubliclyListed(value: boolean) {
     this._isPubliclyListed = value;
     this._broadcastEmitter.emit('townSettingsUpdated', { isPubliclyListed: value });
@@ -42,8 +128,8 @@ export default class Town {
     return this._isPubliclyListed;
   }
 
-  get townUpdatePassword(): string {
-    return this._townUpdatePassword;
+  get townUpdatePasswordHash(): string {
+    return this._townUpdatePasswordHash;
   }
 
   get players(): Player[] {
@@ -71,6 +157,71 @@ export default class Town {
     return this._interactables;
   }
 
+  /** The commands that players can run by sending chat messages that start with "/" */
+  get chatCommands(): ChatCommandRegistry {
+    return this._chatCommands;
+  }
+
+  /** Sends the movements of players in this town to the other players, in batches * */
+  get movementBroadcaster(): MovementBroadcaster {
+    return this._movementBroadcaster;
+  }
+
+  /** The permissions granted to each role in this town * */
+  get rolePermissions(): RolePermissions {
+    return this._rolePermissions;
+  }
+
+  set rolePermissions(rolePermissions: RolePermissions) {
+    this._rolePermissions = rolePermissions;
+  }
+
+  get reconnectGracePeriodSec(): number {
+    return this._reconnectGracePeriodSec;
+  }
+
+  set reconnectGracePeriodSec(value: number) {
+    this._reconnectGracePeriodSec = value;
+  }
+
+  /** The chat messages that have been sent in this town */
+  get chatLog(): ChatLog {
+    return this._chatLog;
+  }
+
+  set chatLog(chatLog: ChatLog) {
+    this._chatLog = chatLog;
+  }
+
+  /** Decides which videos may be played in this town's viewing areas, and resolves their metadata */
+  get mediaPolicy(): MediaPolicy {
+    return this._mediaPolicy;
+  }
+
+  set mediaPolicy(mediaPolicy: MediaPolicy) {
+    this._mediaPolicy = mediaPolicy;
+  }
+
+  get playbackSyncIntervalMs(): number {
+    return this._playbackSyncIntervalMs;
+  }
+
+  /**
+   * Changes how often the clocks of viewing areas are sent, restarting the timer if it is running
+   *
+   * @throws Error if the interval is not positive
+   */
+  set playbackSyncIntervalMs(value: number) {
+    if (!(value > 0)) {
+      throw new Error('Playback sync interval must be positive');
+    }
+    this._playbackSyncIntervalMs = value;
+    if (this._playbackSyncTimer) {
+      this._stopPlaybackSync();
+      this._startPlaybackSync();
+    }
+  }
+
   /** The list of players currently in the town * */
   private _players: Player[] = [];
 
@@ -79,11 +230,17 @@ export default class Town {
 
   private _interactables: InteractableArea[] = [];
 
+  /** The interactables of this town, indexed by their interactionBounds */
+  private _interactableIndex: SpatialIndex<InteractableArea> = new SpatialIndex();
+
+  /** The players in this town, indexed by their location */
+  private _playerIndex: SpatialIndex<Player> = new SpatialIndex();
+
   private readonly _townID: string;
 
   private _friendlyName: string;
 
-  private readonly _townUpdatePassword: string;
+  private readonly _townUpdatePasswordHash: string;
 
   private _isPubliclyListed: boolean;
 
@@ -93,15 +250,70 @@ export default class Town {
 
   private _connectedSockets: Set<CoveyTownSocket> = new Set();
 
+  /** The socket that each player is currently connected through, absent while they are reconnecting */
+  private _playerSockets: Map<string, CoveyTownSocket> = new Map();
+
+  /** Timers that will remove each player who is reconnecting once their grace period expires */
+  private _reconnectTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+  private _reconnectGracePeriodSec = DEFAULT_RECONNECT_GRACE_PERIOD_SEC;
+
+  private _rolePermissions: RolePermissions = new RolePermissions();
+
+  /** Session tokens of players who have been banned, and may not rejoin this town */
+  private _bannedSessionTokens: Set<string> = new Set();
+
+  private _directMessages: DirectMessages = new DirectMessages();
+
+  /** For each muted player, the time (in ms since the epoch) at which their mute ends */
+  private _mutedUntil: Map<string, number> = new Map();
+
+  /** The walkable space of this town's map, undefined if the map has no Walls layer */
+  private _collisionGrid?: CollisionGrid;
+
+  /** Where new players are placed when they join, undefined if the map has no spawn point */
+  private _spawnPoint?: MapPoint;
+
+  private _transporters: Transporter[] = [];
+
+  /**
+   * For each player, how far (in pixels) they may still move, as of a time (in ms since the epoch).
+   * Players who have not yet moved, in a town without a spawn point, have no budget.
+   */
+  private _movementBudgets: Map<string, { distance: number; updatedAt: number }> = new Map();
+
+  private _movementBroadcaster: MovementBroadcaster = new MovementBroadcaster(() =>
+    this._players.flatMap(eachPlayer => {
+      const socket = this._playerSockets.get(eachPlayer.id);
+      return socket ? [{ player: eachPlayer, socket }] : [];
+    }),
+  );
+
+  private _mediaPolicy: MediaPolicy = new MediaPolicy();
+
+  private _chatLog: ChatLog = new ChatLog();
+
+  private _chatCommands: ChatCommandRegistry = new ChatCommandRegistry(BUILT_IN_CHAT_COMMANDS);
+
+  /** Sends the clocks of playing viewing areas while there are players in the town */
+  private _playbackSyncTimer?: ReturnType<typeof setInterval>;
+
+  private _playbackSyncIntervalMs = DEFAULT_PLAYBACK_SYNC_INTERVAL_MS;
+
+  /** Clients waiting for a free slot in this town, in the order that they will be admitted */
+  private _waitlist: { socket: CoveyTownSocket; admit: () => Promise<void> }[] = [];
+
   constructor(
     friendlyName: string,
     isPubliclyListed: boolean,
     townID: string,
     broadcastEmitter: BroadcastOperator<ServerToClientEvents, SocketData>,
+    townUpdatePasswordHash: string,
+    capacity = DEFAULT_TOWN_CAPACITY,
   ) {
     this._townID = townID;
-    this._capacity = 50;
-    this._townUpdatePassword = nanoid(24);
+    this._capacity = capacity;
+    this._townUpdatePasswordHash = townUpdatePasswordHash;
     this._isPubliclyListed = isPubliclyListed;
     this._friendlyName = friendlyName;
     this._broadcastEmitter = broadcastEmitter;
@@ -111,11 +323,23 @@ export default class Town {
    * Adds a player to this Covey Town, provisioning the necessary credentials for the
    * player, and returning them
    *
-   * @param newPlayer The new player to add to the town
+   * @param userName The new player's requested username
+   * @param socket The new player's socket
+   * @param role The new player's role, defaults to DEFAULT_PLAYER_ROLE
    */
-  async addPlayer(userName: string, socket: CoveyTownSocket): Promise<Player> {
-    const newPlayer = new Player(userName, socket.to(this._townID));
+  async addPlayer(userName: string, socket: CoveyTownSocket, role?: PlayerRole): Promise<Player> {
+    const newPlayer = new Player(userName, socket.to(this._townID), role, this._spawnPoint);
     this._players.push(newPlayer);
+    this._indexPlayer(newPlayer);
+    this._movementBroadcaster.start();
+    this._startPlaybackSync();
+    if (this._spawnPoint) {
+      // The player starts at the spawn point, so their first movement is limited by their speed too
+      this._movementBudgets.set(newPlayer.id, {
+        distance: MOVEMENT_TOLERANCE,
+        updatedAt: Date.now(),
+      });
+    }
 
     this._connectedSockets.add(socket);
 
@@ -125,23 +349,177 @@ export default class Town {
     // Notify other players that this player has joined
     this._broadcastEmitter.emit('playerJoined', newPlayer.toPlayerModel());
 
-    // Register an event listener for the client socket: if the client disconnects,
-    // clean up our listener adapter, and then let the CoveyTownController know that the
-    // player's session is disconnected
+    this._registerSocketListeners(newPlayer, socket);
+    return newPlayer;
+  }
+
+  /**
+   * Places a client that wants to join this town (which is full) at the end of the waitlist, and
+   * informs the client of its position. When a slot frees up, the client at the front of the waitlist
+   * is admitted by calling its admit callback, which is expected to add the player to this town.
+   * Clients that disconnect while waiting are removed from the waitlist.
+   *
+   * @param socket the waiting client's socket
+   * @param admit callback that admits the client to the town
+   */
+  public joinWaitlist(socket: CoveyTownSocket, admit: () => Promise<void>): void {
+    this._waitlist.push({ socket, admit });
+    socket.emit('waitlistUpdated', { position: this._waitlist.length });
+    socket.on('disconnect', () => {
+      if (this._waitlist.some(eachEntry => eachEntry.socket === socket)) {
+        this._waitlist = this._waitlist.filter(eachEntry => eachEntry.socket !== socket);
+        this._emitWaitlistPositions();
+      }
+    });
+  }
+
+  /**
+   * Admits clients from the front of the waitlist until the town is full or nobody is waiting,
+   * and then informs the remaining clients of their new positions
+   */
+  private _admitFromWaitlist(): void {
+    if (this._waitlist.length === 0) {
+      return;
+    }
+    while (!this.isFull && this._waitlist.length > 0) {
+      const next = this._waitlist.shift();
+      // The admit callback adds the player to the town before it first yields, so the
+      // occupancy is up to date by the time that the loop condition is checked again
+      next?.admit().catch(err => logError(err));
+    }
+    this._emitWaitlistPositions();
+  }
+
+  private _emitWaitlistPositions(): void {
+    this._waitlist.forEach((eachEntry, index) =>
+      eachEntry.socket.emit('waitlistUpdated', { position: index + 1 }),
+    );
+  }
+
+  /**
+   * Resumes the session of a player who is already in this town (typically, one whose socket
+   * has disconnected and who is within their reconnect grace period) on a new socket. The player
+   * keeps their ID, location, interactable membership and any game they are playing.
+   *
+   * If the player's previous socket is somehow still connected, it is disconnected.
+   *
+   * @param sessionToken the session token that was issued to the player when they first joined
+   * @param socket the player's new socket
+   * @returns the resumed player, or undefined if no player in this town has that session token
+   */
+  public resumePlayer(sessionToken: string, socket: CoveyTownSocket): Player | undefined {
+    const player = this.getPlayerBySessionToken(sessionToken);
+    if (!player) {
+      return undefined;
+    }
+    const reconnectTimer = this._reconnectTimers.get(player.id);
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      this._reconnectTimers.delete(player.id);
+    }
+    const previousSocket = this._playerSockets.get(player.id);
+
+    player.townEmitter = socket.to(this._townID);
+    this._connectedSockets.add(socket);
+    this._registerSocketListeners(player, socket);
+
+    if (previousSocket) {
+      this._connectedSockets.delete(previousSocket);
+      previousSocket.disconnect(true);
+    }
+    this._broadcastEmitter.emit('playerReconnected', player.toPlayerModel());
+    return player;
+  }
+
+  /**
+   * Registers the event listeners for a client socket on behalf of a player, making that socket
+   * the player's current connection
+   *
+   * @param player the player that the socket belongs to
+   * @param socket the player's socket
+   */
+  private _registerSocketListeners(player: Player, socket: CoveyTownSocket): void {
+    this._playerSockets.set(player.id, socket);
+
+    // Register an event listener for the client socket: if the client disconnects, hold the
+    // player's place in the town for the reconnect grace period, and then remove them.
+    // A socket that has already been replaced by a resumed session is simply forgotten.
     socket.on('disconnect', () => {
-      this._removePlayer(newPlayer);
       this._connectedSockets.delete(socket);
+      if (this._playerSockets.get(player.id) !== socket) {
+        return;
+      }
+      this._playerSockets.delete(player.id);
+      if (this._reconnectGracePeriodSec <= 0) {
+        this._removePlayer(player);
+        return;
+      }
+      this._broadcastEmitter.emit('playerReconnecting', player.toPlayerModel());
+      this._reconnectTimers.set(
+        player.id,
+        setTimeout(() => this._removePlayer(player), this._reconnectGracePeriodSec * 1000),
+      );
     });
 
-    // Set up a listener to forward all chat messages to all clients in the town
-    socket.on('chatMessage', (message: ChatMessage) => {
-      this._broadcastEmitter.emit('chatMessage', message);
+    // Set up a listener to forward chat messages to all clients in the town, or to the occupants of
+    // an area if the message is scoped to one. The server decides who the author is, what the
+    // message's ID is and when it was sent; only the body and scope are taken from the client
+    socket.on('chatMessage', (message: ChatMessageRequest) => {
+      if (this._rejectMalformedPayload(socket, 'chatMessage', message)) {
+        return;
+      }
+      if (this.isMuted(player.id)) {
+        socket.emit('eventRejected', {
+          event: 'chatMessage',
+          message: 'You have been muted by a moderator',
+        });
+        return;
+      }
+      const { body } = message;
+      if (body.trim().length === 0) {
+        socket.emit('eventRejected', {
+          event: 'chatMessage',
+          message: 'Chat messages must not be empty',
+        });
+        return;
+      }
+      if (body.length > MAX_CHAT_MESSAGE_LENGTH) {
+        socket.emit('eventRejected', {
+          event: 'chatMessage',
+          message: `Chat messages must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters long`,
+        });
+        return;
+      }
+      let area: InteractableArea | undefined;
+      try {
+        area = this._chatArea(player, message.scope);
+      } catch (err) {
+        socket.emit('eventRejected', {
+          event: 'chatMessage',
+          message: (err as Error).message,
+        });
+        return;
+      }
+      if (parseChatCommand(body)) {
+        this._runChatCommand(player, body, area);
+        return;
+      }
+      this._sendChatMessage(player, body, area);
     });
 
     // Register an event listener for the client socket: if the client updates their
     // location, inform the CoveyTownController
     socket.on('playerMovement', (movementData: PlayerLocation) => {
-      this._updatePlayerLocation(newPlayer, movementData);
+      if (this._rejectMalformedPayload(socket, 'playerMovement', movementData)) {
+        return;
+      }
+      const location = this._transport(this._validateMovement(player, movementData));
+      if (location !== movementData) {
+        socket.emit('playerLocationCorrected', location);
+      }
+      if (location !== player.location) {
+        this._updatePlayerLocation(player, location);
+      }
     });
 
     // Set up a listener to process updates to interactables.
@@ -151,13 +529,40 @@ export default class Town {
     // corresponds to the interactable being updated. Does not throw an error if
     // the specified viewing area does not exist.
     socket.on('interactableUpdate', (update: Interactable) => {
-      if (isViewingArea(update)) {
-        newPlayer.townEmitter.emit('interactableUpdate', update);
+      if (this._rejectMalformedPayload(socket, 'interactableUpdate', update)) {
+        return;
+      }
+      if (update.type === 'ViewingArea') {
         const viewingArea = this._interactables.find(
           eachInteractable => eachInteractable.id === update.id,
         );
-        if (viewingArea) {
-          (viewingArea as ViewingArea).updateModel(update);
+        if (!(viewingArea instanceof ViewingArea)) {
+          player.townEmitter.emit('interactableUpdate', update);
+          return;
+        }
+        let video: string | undefined;
+        try {
+          video = this._normalizeVideo((update as ViewingAreaModel).video);
+        } catch (err) {
+          socket.emit('eventRejected', {
+            event: 'interactableUpdate',
+            message: (err as Error).message,
+          });
+          return;
+        }
+        const changesVideo = viewingArea.video !== video;
+        if (changesVideo && !this.hasPermission(player, 'changeViewingAreaVideo')) {
+          socket.emit('eventRejected', {
+            event: 'interactableUpdate',
+            message: PERMISSION_DENIED_MESSAGE,
+          });
+          return;
+        }
+        // The update is an intent to play, pause or seek: send others the state that it results in
+        viewingArea.updateModel({ ...(update as ViewingAreaModel), video });
+        player.townEmitter.emit('interactableUpdate', viewingArea.toModel());
+        if (changesVideo) {
+          this._resolveMetadata(viewingArea, video);
         }
       }
     });
@@ -165,12 +570,24 @@ export default class Town {
     // Set up a listener to process commands to interactables.
     // Dispatches commands to the appropriate interactable and sends the response back to the client
     socket.on('interactableCommand', (command: InteractableCommand & InteractableCommandBase) => {
+      if (this._rejectMalformedPayload(socket, 'interactableCommand', command)) {
+        // If the command can be identified, also respond to it so that the client is not left waiting
+        if (typeof command?.commandID === 'string' && typeof command?.interactableID === 'string') {
+          socket.emit('commandResponse', {
+            commandID: command.commandID,
+            interactableID: command.interactableID,
+            isOK: false,
+            error: INVALID_COMMAND_MESSAGE,
+          });
+        }
+        return;
+      }
       const interactable = this._interactables.find(
         eachInteractable => eachInteractable.id === command.interactableID,
       );
       if (interactable) {
         try {
-          const payload = interactable.handleCommand(command, newPlayer);
+          const payload = this.handleInteractableCommand(player, interactable, command);
           socket.emit('commandResponse', {
             commandID: command.commandID,
             interactableID: command.interactableID,
@@ -204,7 +621,296 @@ export default class Town {
         });
       }
     });
-    return newPlayer;
+
+    // Set up a listener for players (with the assignRoles permission) changing other players' roles.
+    // Players may not change their own roles, and only owners may grant or take away ownership
+    socket.on('setPlayerRole', (update: PlayerRoleUpdate) => {
+      if (this._rejectMalformedPayload(socket, 'setPlayerRole', update)) {
+        return;
+      }
+      const target = this._players.find(eachPlayer => eachPlayer.id === update.playerID);
+      if (
+        !this.hasPermission(player, 'assignRoles') ||
+        update.playerID === player.id ||
+        // Only owners may make other players owners, or change the roles of other owners
+        (player.role !== 'owner' && (update.role === 'owner' || target?.role === 'owner'))
+      ) {
+        socket.emit('eventRejected', {
+          event: 'setPlayerRole',
+          message: PERMISSION_DENIED_MESSAGE,
+        });
+        return;
+      }
+      if (!this.setPlayerRole(update.playerID, update.role)) {
+        socket.emit('eventRejected', {
+          event: 'setPlayerRole',
+          message: `No such player ${update.playerID}`,
+        });
+      }
+    });
+
+    // Set up a listener for players (with the moderate permission) kicking, banning or muting other players
+    socket.on('moderatePlayer', (command: ModerationCommand) => {
+      if (this._rejectMalformedPayload(socket, 'moderatePlayer', command)) {
+        return;
+      }
+      const target = this._players.find(eachPlayer => eachPlayer.id === command.playerID);
+      if (!this.hasPermission(player, 'moderate') || target?.role === 'owner') {
+        socket.emit('eventRejected', {
+          event: 'moderatePlayer',
+          message: PERMISSION_DENIED_MESSAGE,
+        });
+        return;
+      }
+      let success: boolean;
+      if (command.action === 'kick') {
+        success = this.kickPlayer(command.playerID, command.reason);
+      } else if (command.action === 'ban') {
+        success = this.banPlayer(command.playerID, command.reason);
+      } else {
+        success = this.mutePlayer(command.playerID, command.durationSec ?? 0, command.reason);
+      }
+      if (!success) {
+        socket.emit('eventRejected', {
+          event: 'moderatePlayer',
+          message: `Unable to ${command.action} player ${command.playerID}`,
+        });
+      }
+    });
+
+    // Set up a listener to deliver direct messages to the socket of their recipient only. The
+    // sender is told that the message was delivered (or why it could not be) by a response that
+    // carries the ID that they chose for their request
+    socket.on('directMessage', (request: DirectMessageRequest) => {
+      if (this._rejectMalformedPayload(socket, 'directMessage', request)) {
+        return;
+      }
+      const error = this._directMessageError(player, request);
+      const recipientSocket = this._playerSockets.get(request.to);
+      if (error || !recipientSocket) {
+        socket.emit('directMessageResponse', {
+          requestID: request.requestID,
+          isOK: false,
+          error: error ?? { type: 'offline', message: 'That player is offline' },
+        });
+        return;
+      }
+      const now = new Date();
+      const directMessage: DirectMessage = {
+        id: nanoid(),
+        from: player.id,
+        to: request.to,
+        body: request.body,
+        dateCreated: now,
+        dateDelivered: now,
+      };
+      this._directMessages.add(directMessage);
+      recipientSocket.emit('directMessage', directMessage);
+      socket.emit('directMessageResponse', {
+        requestID: request.requestID,
+        isOK: true,
+        message: directMessage,
+      });
+    });
+
+    // Set up a listener for read receipts, which are passed on to the senders of the messages
+    socket.on('directMessageRead', (receipt: DirectMessageReadReceipt) => {
+      if (this._rejectMalformedPayload(socket, 'directMessageRead', receipt)) {
+        return;
+      }
+      this._directMessages
+        .markRead(player.id, receipt.messageIDs)
+        .forEach(eachMessage =>
+          this._playerSockets.get(eachMessage.from)?.emit('directMessageRead', eachMessage),
+        );
+    });
+
+    socket.on('blockPlayer', (update: PlayerBlockUpdate) => {
+      if (this._rejectMalformedPayload(socket, 'blockPlayer', update)) {
+        return;
+      }
+      if (
+        update.playerID === player.id ||
+        !this._players.some(eachPlayer => eachPlayer.id === update.playerID)
+      ) {
+        socket.emit('eventRejected', {
+          event: 'blockPlayer',
+          message: `Unable to block player ${update.playerID}`,
+        });
+        return;
+      }
+      this._directMessages.setBlocked(player.id, update.playerID, update.isBlocked);
+    });
+
+    socket.on('directMessageHistory', (playerID: PlayerID) => {
+      if (this._rejectMalformedPayload(socket, 'directMessageHistory', playerID)) {
+        return;
+      }
+      socket.emit('directMessageHistory', {
+        playerID,
+        messages: this._directMessages.history(player.id, playerID),
+      });
+    });
+  }
+
+  /**
+   * Applies a command that a player sent to an interactable, after applying the town's media policy
+   * and checking that the player has permission to send it
+   *
+   * @param player the player who sent the command
+   * @param interactable the interactable that the command is for
+   * @param command the command
+   * @returns the interactable's response to the command
+   * @throws InvalidParametersError if the player may not send the command, or the interactable
+   *  rejects it
+   */
+  public handleInteractableCommand(
+    player: Player,
+    interactable: InteractableArea,
+    command: InteractableCommand,
+  ): InteractableCommandReturnType<InteractableCommand> {
+    const allowedCommand = this._applyMediaPolicy(command);
+    this._checkCommandPermission(player, interactable, allowedCommand);
+    const previousVideo = interactable instanceof ViewingArea ? interactable.video : undefined;
+    const wasInactive = !interactable.isActive;
+    const payload = interactable.handleCommand(allowedCommand, player);
+    if (interactable instanceof ConversationArea && wasInactive && interactable.topic) {
+      // A conversation has started in an area that nobody could enter before
+      this._addPlayersWithinBounds(interactable);
+    }
+    if (interactable instanceof ViewingArea) {
+      if (allowedCommand.type === 'PlaylistEnqueue') {
+        this._resolveMetadata(interactable, allowedCommand.video);
+      } else if (interactable.video !== previousVideo) {
+        this._resolveMetadata(interactable, interactable.video);
+      }
+    }
+    return payload;
+  }
+
+  /**
+   * @returns why a player may not send a direct message, or undefined if they may (which does not
+   *  check whether the recipient is connected)
+   */
+  private _directMessageError(
+    sender: Player,
+    request: DirectMessageRequest,
+  ): DirectMessageError | undefined {
+    if (this.isMuted(sender.id)) {
+      return { type: 'muted', message: 'You have been muted by a moderator' };
+    }
+    if (request.body.trim().length === 0) {
+      return { type: 'invalidMessage', message: 'Direct messages must not be empty' };
+    }
+    if (request.body.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return {
+        type: 'invalidMessage',
+        message: `Direct messages must be at most ${MAX_CHAT_MESSAGE_LENGTH} characters long`,
+      };
+    }
+    if (request.to === sender.id) {
+      return { type: 'invalidMessage', message: 'You can not send a direct message to yourself' };
+    }
+    if (!this._players.some(eachPlayer => eachPlayer.id === request.to)) {
+      return { type: 'unknownPlayer', message: `No player with ID ${request.to} is in this town` };
+    }
+    if (this._directMessages.isBlocked(request.to, sender.id)) {
+      return { type: 'blocked', message: 'That player is not accepting messages from you' };
+    }
+    return undefined;
+  }
+
+  /**
+   * @returns true if the player's role grants them the permission in this town
+   */
+  public hasPermission(player: Player, permission: TownPermission): boolean {
+    return this._rolePermissions.hasPermission(player.role, permission);
+  }
+
+  /**
+   * Changes the role of a player in this town, and informs all players of the change
+   *
+   * @param playerID the player whose role to change
+   * @param role the player's new role
+   * @returns false if there is no such player in this town
+   */
+  public setPlayerRole(playerID: string, role: PlayerRole): boolean {
+    const player = this._players.find(eachPlayer => eachPlayer.id === playerID);
+    if (!player) {
+      return false;
+    }
+    player.role = role;
+    this._broadcastEmitter.emit('playerRoleChanged', player.toPlayerModel());
+    return true;
+  }
+
+  /**
+   * Checks that a player's role permits them to send a command to an interactable: changing the video
+   * of a viewing area, or adding to its playlist, requires changeViewingAreaVideo; removing another
+   * player's video from a playlist requires moderate; setting or clearing the topic of a conversation
+   * area requires setConversationTopic; and starting a new game (joining a game area with no game in
+   * progress, or sending StartGame) requires startGame
+   *
+   * @throws InvalidParametersError if the player is not permitted to send the command
+   */
+  private _checkCommandPermission(
+    player: Player,
+    interactable: InteractableArea,
+    command: InteractableCommand,
+  ): void {
+    let permission: TownPermission | undefined;
+    if (
+      command.type === 'ViewingAreaUpdate' &&
+      interactable instanceof ViewingArea &&
+      command.update.video !== interactable.video
+    ) {
+      permission = 'changeViewingAreaVideo';
+    } else if (command.type === 'PlaylistEnqueue') {
+      permission = 'changeViewingAreaVideo';
+    } else if (command.type === 'PlaylistRemove' && interactable instanceof ViewingArea) {
+      // Anyone who may change the video may remove their own videos from the playlist
+      const item = interactable.queue.find(eachItem => eachItem.id === command.itemID);
+      permission = item?.addedBy === player.id ? 'changeViewingAreaVideo' : 'moderate';
+    } else if (
+      command.type === 'SetConversationTopic' ||
+      command.type === 'ClearConversationTopic'
+    ) {
+      permission = 'setConversationTopic';
+    } else if (command.type === 'StartGame') {
+      permission = 'startGame';
+    } else if (
+      command.type === 'JoinGame' &&
+      interactable instanceof GameArea &&
+      (!interactable.game || interactable.game.state.status === 'OVER')
+    ) {
+      permission = 'startGame';
+    }
+    if (permission && !this.hasPermission(player, permission)) {
+      throw new InvalidParametersError(PERMISSION_DENIED_MESSAGE);
+    }
+  }
+
+  /**
+   * Checks the payload of an event sent by a client against the type declared for that event in
+   * ClientToServerEvents. If the payload is malformed, the client is sent an eventRejected event
+   * describing the problems.
+   *
+   * @param socket the client socket that sent the event
+   * @param event the name of the event
+   * @param payload the payload that the client sent
+   * @returns true if the payload was malformed and has been rejected, false if it is valid
+   */
+  private _rejectMalformedPayload(
+    socket: CoveyTownSocket,
+    event: keyof ClientToServerEvents,
+    payload: unknown,
+  ): boolean {
+    const issues = validateClientEvent(event, payload);
+    if (issues.length === 0) {
+      return false;
+    }
+    socket.emit('eventRejected', { event, message: 'Malformed payload', issues });
+    return true;
   }
 
   /**
@@ -213,11 +919,154 @@ export default class Town {
    * @param session PlayerSession to destroy
    */
   private _removePlayer(player: Player): void {
+    const reconnectTimer = this._reconnectTimers.get(player.id);
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      this._reconnectTimers.delete(player.id);
+    }
+    this._playerSockets.delete(player.id);
+    this._movementBudgets.delete(player.id);
+    this._directMessages.removePlayer(player.id);
     if (player.location.interactableID) {
       this._removePlayerFromInteractable(player);
     }
     this._players = this._players.filter(p => p.id !== player.id);
+    this._playerIndex.remove(player);
+    this._movementBroadcaster.playerRemoved(player);
+    if (this._players.length === 0) {
+      this._movementBroadcaster.stop();
+      this._stopPlaybackSync();
+    }
     this._broadcastEmitter.emit('playerDisconnect', player.toPlayerModel());
+    this._admitFromWaitlist();
+  }
+
+  /**
+   * Removes a player from this town immediately (without a reconnect grace period), informing them
+   * and the rest of the town why, and disconnects their socket. The player may join again.
+   *
+   * @param playerID the player to remove
+   * @param reason an explanation for the player and the town
+   * @returns false if there is no such player in this town
+   */
+  public kickPlayer(playerID: string, reason?: string): boolean {
+    return this._removeByModerator(playerID, 'kick', reason);
+  }
+
+  /**
+   * Removes a player from this town like kickPlayer, and also prevents them from rejoining the town
+   * with their session token for as long as the town exists
+   *
+   * @param playerID the player to ban
+   * @param reason an explanation for the player and the town
+   * @returns false if there is no such player in this town
+   */
+  public banPlayer(playerID: string, reason?: string): boolean {
+    const player = this._players.find(eachPlayer => eachPlayer.id === playerID);
+    if (!player) {
+      return false;
+    }
+    this._bannedSessionTokens.add(player.sessionToken);
+    return this._removeByModerator(playerID, 'ban', reason);
+  }
+
+  /**
+   * @returns true if the client with this session token has been banned from this town
+   */
+  public isBanned(sessionToken: string): boolean {
+    return this._bannedSessionTokens.has(sessionToken);
+  }
+
+  /**
+   * @returns true if a client that wants to join this town has been banned from it, because its
+   *  socket presents the session token of a banned player
+   */
+  public isClientBanned(socket: CoveyTownSocket): boolean {
+    const { sessionToken } = socket.handshake.auth as { sessionToken?: unknown };
+    return typeof sessionToken === 'string' && this.isBanned(sessionToken);
+  }
+
+  /**
+   * Rejects a player's chat messages for a period of time, informing the town
+   *
+   * @param playerID the player to mute
+   * @param durationSec how long to mute them for; a duration of 0 lifts an existing mute
+   * @param reason an explanation for the player and the town
+   * @returns false if there is no such player in this town or the duration is invalid
+   */
+  public mutePlayer(playerID: string, durationSec: number, reason?: string): boolean {
+    if (!this._players.find(eachPlayer => eachPlayer.id === playerID)) {
+      return false;
+    }
+    if (!Number.isFinite(durationSec) || durationSec < 0) {
+      return false;
+    }
+    const mutedUntil = Date.now() + durationSec * 1000;
+    if (durationSec === 0) {
+      this._mutedUntil.delete(playerID);
+    } else {
+      this._mutedUntil.set(playerID, mutedUntil);
+    }
+    this._broadcastEmitter.emit('playerModerated', {
+      action: 'mute',
+      playerID,
+      reason,
+      mutedUntil: new Date(mutedUntil),
+    });
+    return true;
+  }
+
+  /**
+   * @returns true if the player is currently muted
+   */
+  public isMuted(playerID: string): boolean {
+    const mutedUntil = this._mutedUntil.get(playerID);
+    if (mutedUntil === undefined) {
+      return false;
+    }
+    if (mutedUntil <= Date.now()) {
+      this._mutedUntil.delete(playerID);
+      return false;
+    }
+    return true;
+  }
+
+  private _removeByModerator(
+    playerID: string,
+    action: 'kick' | 'ban',
+    reason: string | undefined,
+  ): boolean {
+    const player = this._players.find(eachPlayer => eachPlayer.id === playerID);
+    if (!player) {
+      return false;
+    }
+    this._broadcastEmitter.emit('playerModerated', { action, playerID, reason });
+    const socket = this._playerSockets.get(playerID);
+    this._removePlayer(player);
+    this._mutedUntil.delete(playerID);
+    if (socket) {
+      socket.emit('removedFromTown', { isBan: action === 'ban', reason });
+      this._connectedSockets.delete(socket);
+      socket.disconnect(true);
+    }
+    return true;
+  }
+
+  /**
+   * Moves a player to a location, as though they had walked there, and tells them where they now are
+   *
+   * @param player the player to move
+   * @param destination where to move them to
+   */
+  public teleportPlayer(player: Player, destination: { x: number; y: number }): void {
+    const location: PlayerLocation = {
+      ...player.location,
+      x: destination.x,
+      y: destination.y,
+      moving: false,
+    };
+    this._updatePlayerLocation(player, location);
+    this._playerSockets.get(player.id)?.emit('playerLocationCorrected', location);
   }
 
   /**
@@ -225,7 +1074,8 @@ export default class Town {
    *
    * If the player has changed conversation areas, this method also updates the
    * corresponding ConversationArea objects tracked by the town controller, and dispatches
-   * any onConversationUpdated events as appropriate
+   * any onConversationUpdated events as appropriate. The movement is sent to the other players
+   * in the town by the movement broadcaster's next tick.
    *
    * @param player Player to update location for
    * @param location New location for this player
@@ -240,9 +1090,9 @@ export default class Town {
         // Remove from old area
         prevInteractable.remove(player);
       }
-      const newInteractable = this._interactables.find(
-        eachArea => eachArea.isActive && eachArea.contains(location),
-      );
+      const newInteractable = this._interactableIndex
+        .searchPoint(location.x, location.y)
+        .find(eachArea => eachArea.isActive && eachArea.contains(location));
       if (newInteractable) {
         newInteractable.add(player);
       }
@@ -252,8 +1102,280 @@ export default class Town {
     }
 
     player.location = location;
+    this._indexPlayer(player);
+    this._movementBroadcaster.playerMoved(player);
+  }
+
+  /**
+   * Records a player's current location in the index of players
+   */
+  private _indexPlayer(player: Player): void {
+    this._playerIndex.insert(player, {
+      x: player.location.x,
+      y: player.location.y,
+      width: 0,
+      height: 0,
+    });
+  }
+
+  /**
+   * Finds the area that a chat message is scoped to. Only the occupants of an area may chat in it,
+   * and only occupants receive its messages, so a player sees an area's chat from when they enter it.
+   *
+   * @param player the player who sent the message
+   * @param scope the scope that the player requested
+   * @returns the area whose occupants the message should be sent to, or undefined to send it to the
+   *  whole town
+   * @throws InvalidParametersError if the area does not exist or the player is not in it
+   */
+  private _chatArea(
+    player: Player,
+    scope: ChatScope = { type: 'town' },
+  ): InteractableArea | undefined {
+    if (scope.type === 'town') {
+      return undefined;
+    }
+    const interactableID =
+      scope.type === 'currentArea' ? player.location.interactableID : scope.interactableID;
+    if (!interactableID) {
+      throw new InvalidParametersError('You are not in an area');
+    }
+    const area = this._interactables.find(eachArea => eachArea.id === interactableID);
+    if (!area) {
+      throw new InvalidParametersError(`No area with ID ${interactableID}`);
+    }
+    if (!area.occupants.includes(player)) {
+      throw new InvalidParametersError('Only players in an area may chat in it');
+    }
+    return area;
+  }
 
-    this._broadcastEmitter.emit('playerMoved', player.toPlayerModel());
+  /**
+   * Sends a chat message to the whole town, or to the occupants of an area, and adds it to the chat log
+   *
+   * @param author the player who sent the message, or who ran the command that it is the output of
+   * @param body the message
+   * @param area the area whose occupants the message is for, or undefined to send it to the whole town
+   * @param isSystemMessage true if the message is the output of a chat command
+   */
+  private _sendChatMessage(
+    author: Player,
+    body: string,
+    area: InteractableArea | undefined,
+    isSystemMessage = false,
+  ): void {
+    const id = nanoid();
+    const chatMessage: ChatMessage = {
+      id,
+      sid: id,
+      author: author.id,
+      body,
+      dateCreated: new Date(),
+      interactableID: area?.id,
+    };
+    if (isSystemMessage) {
+      chatMessage.isSystemMessage = true;
+    }
+    if (area) {
+      area.occupants.forEach(eachOccupant =>
+        this._playerSockets.get(eachOccupant.id)?.emit('chatMessage', chatMessage),
+      );
+      this._chatLog.add(
+        chatMessage,
+        area.occupants.map(eachOccupant => eachOccupant.id),
+      );
+    } else {
+      this._broadcastEmitter.emit('chatMessage', chatMessage);
+      this._chatLog.add(chatMessage);
+    }
+  }
+
+  /**
+   * Runs the chat command in a player's message. Its output is sent to the players who would have
+   * received the message, or only to the player, as a system message; so are any errors, which only
+   * the player sees. Messages that only the player sees are not added to the chat log.
+   *
+   * @param player the player who sent the message
+   * @param body the message, which is a chat command
+   * @param area the area that the message was sent to, if any
+   */
+  private _runChatCommand(player: Player, body: string, area: InteractableArea | undefined): void {
+    let result: ChatCommandResult | undefined;
+    try {
+      result = this._chatCommands.execute(this, player, body);
+    } catch (err) {
+      if (!(err instanceof InvalidParametersError)) {
+        logError(err);
+      }
+      result = {
+        body: err instanceof InvalidParametersError ? err.message : 'The command failed',
+        audience: 'issuer',
+      };
+    }
+    if (!result) {
+      return;
+    }
+    if (result.audience === 'town') {
+      this._sendChatMessage(player, result.body, area, true);
+      return;
+    }
+    const id = nanoid();
+    this._playerSockets.get(player.id)?.emit('chatMessage', {
+      id,
+      sid: id,
+      author: player.id,
+      body: result.body,
+      dateCreated: new Date(),
+      isSystemMessage: true,
+    });
+  }
+
+  /**
+   * Adds the players who are within an interactable area to it, and sends their new interactableIDs
+   * to the other players
+   */
+  private _addPlayersWithinBounds(area: InteractableArea): void {
+    area.addPlayersWithinBounds(this._playerIndex.search(area.interactionBounds));
+    area.occupants.forEach(eachOccupant => this._movementBroadcaster.playerMoved(eachOccupant));
+  }
+
+  /**
+   * @returns the normalized URL of a video that a player asked to play, or undefined for no video
+   * @throws InvalidParametersError if the town's media policy does not allow the video
+   */
+  private _normalizeVideo(video: string | undefined): string | undefined {
+    return video ? this._mediaPolicy.normalizeURL(video) : undefined;
+  }
+
+  /**
+   * @returns the command with the URL of any video that it plays or enqueues normalized
+   * @throws InvalidParametersError if the town's media policy does not allow the video
+   */
+  private _applyMediaPolicy(command: InteractableCommand): InteractableCommand {
+    if (command.type === 'ViewingAreaUpdate') {
+      return {
+        ...command,
+        update: { ...command.update, video: this._normalizeVideo(command.update.video) },
+      };
+    }
+    if (command.type === 'PlaylistEnqueue') {
+      return { ...command, video: this._mediaPolicy.normalizeURL(command.video) };
+    }
+    return command;
+  }
+
+  /**
+   * Resolves the metadata of a video in the background, and records it in the viewing area (which
+   * sends it to the players) once it is known
+   */
+  private _resolveMetadata(area: ViewingArea, video: string | undefined): void {
+    if (!video) {
+      return;
+    }
+    this._mediaPolicy
+      .resolveMetadata(video)
+      .then(metadata => area.setMetadata(video, metadata))
+      .catch(err => logError(err));
+  }
+
+  /**
+   * Advances the playlist of each viewing area whose video has ended, and then sends the clock of each
+   * viewing area that is playing a video to all of the players in the town, so that their players can
+   * correct for drift
+   */
+  public syncPlayback(): void {
+    this._interactables.forEach(eachArea => {
+      if (eachArea instanceof ViewingArea) {
+        eachArea.advanceIfEnded();
+      }
+      if (eachArea instanceof ViewingArea && eachArea.video && eachArea.isPlaying) {
+        this._broadcastEmitter.emit('viewingAreaPlaybackSync', eachArea.toPlaybackSync());
+      }
+    });
+  }
+
+  /**
+   * Starts sending the clocks of playing viewing areas periodically, if not already. The timer does not
+   * keep the process alive.
+   */
+  private _startPlaybackSync(): void {
+    if (this._playbackSyncTimer) {
+      return;
+    }
+    this._playbackSyncTimer = setInterval(() => this.syncPlayback(), this._playbackSyncIntervalMs);
+    this._playbackSyncTimer.unref?.();
+  }
+
+  private _stopPlaybackSync(): void {
+    if (this._playbackSyncTimer) {
+      clearInterval(this._playbackSyncTimer);
+      this._playbackSyncTimer = undefined;
+    }
+  }
+
+  /**
+   * Checks a movement requested by a player against the town's collision grid. Moves that leave the map
+   * are clamped to its edge; moves that land on or pass through a wall, or that are further than the
+   * player's movement budget allows (see MAX_MOVEMENT_BUDGET), are rejected. Movements are not checked
+   * if the town's map has no collision grid.
+   *
+   * @param player the player who is moving
+   * @param location the location that the player requested
+   * @returns the requested location if it is valid, a clamped copy of it, or the player's current
+   *  location if the movement is rejected
+   */
+  private _validateMovement(player: Player, location: PlayerLocation): PlayerLocation {
+    const grid = this._collisionGrid;
+    if (!grid) {
+      return location;
+    }
+    const validLocation = grid.isInBounds(location.x, location.y)
+      ? location
+      : { ...location, ...grid.clamp(location.x, location.y) };
+    if (grid.isWall(validLocation.x, validLocation.y)) {
+      return player.location;
+    }
+    const now = Date.now();
+    const budget = this._movementBudgets.get(player.id);
+    // If the town has no spawn point, a player's first movement places them at the client's choice of
+    // spawn point, which may be anywhere on the map
+    if (!budget) {
+      this._movementBudgets.set(player.id, { distance: MOVEMENT_TOLERANCE, updatedAt: now });
+      return validLocation;
+    }
+    const available = Math.min(
+      MAX_MOVEMENT_BUDGET,
+      budget.distance + (MAX_PLAYER_SPEED * (now - budget.updatedAt)) / 1000,
+    );
+    const distance = Math.hypot(
+      validLocation.x - player.location.x,
+      validLocation.y - player.location.y,
+    );
+    if (
+      distance > available ||
+      !grid.isPathClear(player.location.x, player.location.y, validLocation.x, validLocation.y)
+    ) {
+      return player.location;
+    }
+    this._movementBudgets.set(player.id, { distance: available - distance, updatedAt: now });
+    return validLocation;
+  }
+
+  /**
+   * Moves a player who has entered a transporter to the transporter's target
+   *
+   * @param location the player's new location
+   * @returns the location of the transporter's target (facing the same way, and not moving) if the
+   *  location is in a transporter, or the location otherwise
+   */
+  private _transport(location: PlayerLocation): PlayerLocation {
+    const transporter = this._transporters.find(eachTransporter =>
+      eachTransporter.contains(location),
+    );
+    if (!transporter) {
+      return location;
+    }
+    return { ...location, x: transporter.target.x, y: transporter.target.y, moving: false };
   }
 
   /**
@@ -283,20 +1405,26 @@ export default class Town {
    *
    * @param conversationArea Information describing the conversation area to create. Ignores any
    *  occupantsById that are set on the conversation area that is passed to this method.
+   * @param setBy the player who is creating the conversation area, who is recorded in its topic
+   *  history
    *
    * @returns true if the conversation is successfully created, or false if there is no known
    * conversation area with the specified ID or if there is already an active conversation area
    * with the specified ID
    */
-  public addConversationArea(conversationArea: ConversationAreaModel): boolean {
+  public addConversationArea(conversationArea: ConversationAreaModel, setBy?: Player): boolean {
     const area = this._interactables.find(
       eachArea => eachArea.id === conversationArea.id,
     ) as ConversationArea;
     if (!area || !conversationArea.topic || area.topic) {
       return false;
     }
-    area.topic = conversationArea.topic;
-    area.addPlayersWithinBounds(this._players);
+    if (setBy) {
+      area.setTopic(conversationArea.topic, setBy);
+    } else {
+      area.topic = conversationArea.topic;
+    }
+    this._addPlayersWithinBounds(area);
     this._broadcastEmitter.emit('interactableUpdate', area.toModel());
     return true;
   }
@@ -305,7 +1433,7 @@ export default class Town {
    * Creates a new viewing area in this town if there is not currently an active
    * viewing area with the same ID. The viewing area ID must match the name of a
    * viewing area that exists in this town's map, and the viewing area must not
-   * already have a video set.
+   * already have a video set (other than the default video given by the map).
    *
    * If successful creating the viewing area, this method:
    *    Adds any players who are in the region defined by the viewing area to it
@@ -314,19 +1442,25 @@ export default class Town {
    *
    * @param viewingArea Information describing the viewing area to create.
    *
+   * The video must be allowed by the town's media policy, which also normalizes its URL
+   * and resolves its title and length (which are sent to players once they are known).
+   *
    * @returns True if the viewing area was created or false if there is no known
    * viewing area with the specified ID or if there is already an active viewing area
    * with the specified ID or if there is no video URL specified
+   * @throws InvalidParametersError if the town's media policy does not allow the video
    */
   public addViewingArea(viewingArea: ViewingAreaModel): boolean {
     const area = this._interactables.find(
       eachArea => eachArea.id === viewingArea.id,
     ) as ViewingArea;
-    if (!area || !viewingArea.video || area.video) {
+    if (!area || !viewingArea.video || (area.video && area.video !== area.options.defaultVideo)) {
       return false;
     }
-    area.updateModel(viewingArea);
-    area.addPlayersWithinBounds(this._players);
+    const video = this._normalizeVideo(viewingArea.video);
+    area.updateModel({ ...viewingArea, video });
+    this._resolveMetadata(area, video);
+    this._addPlayersWithinBounds(area);
     this._broadcastEmitter.emit('interactableUpdate', area.toModel());
     return true;
   }
@@ -362,6 +1496,16 @@ export default class Town {
    */
   public disconnectAllPlayers(): void {
     this._broadcastEmitter.emit('townClosing');
+    this._movementBroadcaster.stop();
+    this._stopPlaybackSync();
+    this._reconnectTimers.forEach(eachTimer => clearTimeout(eachTimer));
+    this._reconnectTimers.clear();
+    const waitingSockets = this._waitlist.map(eachEntry => eachEntry.socket);
+    this._waitlist = [];
+    waitingSockets.forEach(eachSocket => {
+      eachSocket.emit('townClosing');
+      eachSocket.disconnect(true);
+    });
     this._connectedSockets.forEach(eachSocket => eachSocket.disconnect(true));
   }
 
@@ -382,12 +1526,90 @@ export default class Town {
    *  names are not unique
    */
   public initializeFromMap(map: ITiledMap) {
-    const objectLayer = map.layers.find(
-      eachLayer => eachLayer.name === 'Objects',
-    ) as ITiledMapObjectLayer;
-    if (!objectLayer) {
-      throw new Error(`Unable to find objects layer in map`);
-    }
+    const objectLayer = findObjectLayer(map);
+    this._setNavigation(createNavigation(map, objectLayer));
+    this._interactables = this._interactables.concat(this._createInteractables(objectLayer));
+    this._interactableIndex = indexInteractables(this._interactables);
+    validateInteractables(this._interactables, this._interactableIndex);
+  }
+
+  /**
+   * Replaces the map of this town while players are in it, without disconnecting them.
+   *
+   * The interactables of the new map are matched with the current ones by ID: an area that is in
+   * both maps (with the same type) keeps its state, such as its topic, video or game in progress,
+   * and takes its bounds and shape from the new map. Areas that are not in the new map are retired, after
+   * removing their occupants from them. Players stay where they are, and join or leave areas as if
+   * they had moved there. Finally, every player is sent a single mapChanged event with the new
+   * interactables.
+   *
+   * The new map is checked before anything is changed, so an invalid map leaves the town as it was.
+   *
+   * @param map the new map
+   * @param mapID the ID of the new map in the map library, which is sent to the players so that they
+   *  can fetch it
+   * @throws Error if there is no layer named "Objects" in the map, if the objects overlap or if object
+   *  names are not unique
+   */
+  public replaceMap(map: ITiledMap, mapID?: string): void {
+    const objectLayer = findObjectLayer(map);
+    const navigation = createNavigation(map, objectLayer);
+    const newInteractables = this._createInteractables(objectLayer);
+    validateInteractables(newInteractables, indexInteractables(newInteractables));
+    /** The areas that are in both maps, with the new area that each takes its geometry from */
+    const keptAreas = new Map<InteractableArea, InteractableArea>();
+    const interactables = newInteractables.map(eachNewArea => {
+      const existingArea = this._interactables.find(
+        eachArea =>
+          eachArea.id === eachNewArea.id && eachArea.toModel().type === eachNewArea.toModel().type,
+      );
+      if (!existingArea) {
+        return eachNewArea;
+      }
+      keptAreas.set(existingArea, eachNewArea);
+      return existingArea;
+    });
+
+    this._interactables
+      .filter(eachArea => !keptAreas.has(eachArea))
+      .forEach(eachRetiredArea =>
+        [...eachRetiredArea.occupants].forEach(eachOccupant =>
+          eachRetiredArea.remove(eachOccupant),
+        ),
+      );
+    keptAreas.forEach((eachNewArea, eachExistingArea) => {
+      eachExistingArea.boundingBox = eachNewArea.boundingBox;
+      eachExistingArea.shape = eachNewArea.shape;
+      if (eachExistingArea instanceof ViewingArea && eachNewArea instanceof ViewingArea) {
+        eachExistingArea.options = eachNewArea.options;
+      }
+    });
+    this._setNavigation(navigation);
+    this._interactables = interactables;
+    this._interactableIndex = indexInteractables(interactables);
+    this._players.forEach(eachPlayer =>
+      this._updatePlayerLocation(eachPlayer, { ...eachPlayer.location }),
+    );
+
+    this._broadcastEmitter.emit('mapChanged', {
+      mapID,
+      interactables: interactables.map(eachInteractable => eachInteractable.toModel()),
+    });
+  }
+
+  /**
+   * Sets the collision grid, spawn point and transporters of this town
+   */
+  private _setNavigation({ collisionGrid, spawnPoint, transporters }: Navigation): void {
+    this._collisionGrid = collisionGrid;
+    this._spawnPoint = spawnPoint;
+    this._transporters = transporters;
+  }
+
+  /**
+   * Creates an interactable area for each viewing area, conversation area and game area in a map
+   */
+  private _createInteractables(objectLayer: ITiledMapObjectLayer): InteractableArea[] {
     const viewingAreas = objectLayer.objects
       .filter(eachObject => eachObject.type === 'ViewingArea')
       .map(eachViewingAreaObject =>
@@ -404,33 +1626,90 @@ export default class Town {
       .filter(eachObject => eachObject.type === 'GameArea')
       .map(eachGameAreaObj => GameAreaFactory(eachGameAreaObj, this._broadcastEmitter));
 
-    this._interactables = this._interactables
-      .concat(viewingAreas)
-      .concat(conversationAreas)
-      .concat(gameAreas);
-    this._validateInteractables();
+    return (viewingAreas as InteractableArea[]).concat(conversationAreas).concat(gameAreas);
   }
+}
 
-  private _validateInteractables() {
-    // Make sure that the IDs are unique
-    const interactableIDs = this._interactables.map(eachInteractable => eachInteractable.id);
-    if (
-      interactableIDs.some(
-        item => interactableIDs.indexOf(item) !== interactableIDs.lastIndexOf(item),
-      )
-    ) {
-      throw new Error(
-        `Expected all interactable IDs to be unique, but found duplicate interactable ID in ${interactableIDs}`,
-      );
-    }
-    // Make sure that there are no overlapping objects
-    for (const interactable of this._interactables) {
-      for (const otherInteractable of this._interactables) {
-        if (interactable !== otherInteractable && interactable.overlaps(otherInteractable)) {
-          throw new Error(
-            `Expected interactables not to overlap, but found overlap between ${interactable.id} and ${otherInteractable.id}`,
-          );
-        }
+/** Where players in a town may walk, where they start, and the transporters that move them */
+type Navigation = {
+  collisionGrid?: CollisionGrid;
+  spawnPoint?: MapPoint;
+  transporters: Transporter[];
+};
+
+/**
+ * Builds the collision grid, spawn point and transporters of a map. Transporters whose targets are on
+ * walls (as stairs commonly are) instead move players to the closest walkable tile, from which they
+ * can walk away.
+ *
+ * @throws Error if the map's Walls layer or transporters are malformed
+ */
+function createNavigation(map: ITiledMap, objectLayer: ITiledMapObjectLayer): Navigation {
+  const collisionGrid = CollisionGrid.fromMap(map);
+  const spawnPoint = objectLayer.objects.find(eachObject => eachObject.name === SPAWN_POINT_NAME);
+  const transporters = objectLayer.objects
+    .filter(eachObject => eachObject.type === 'Transporter')
+    .map(eachTransporter => Transporter.fromMapObject(eachTransporter, objectLayer.objects))
+    .map(eachTransporter => {
+      const { x, y } = eachTransporter.target;
+      const target = collisionGrid?.nearestWalkable(x, y);
+      return target && (target.x !== x || target.y !== y)
+        ? new Transporter(eachTransporter.name, eachTransporter.boundingBox, target)
+        : eachTransporter;
+    });
+  return {
+    collisionGrid,
+    spawnPoint: spawnPoint && { x: spawnPoint.x, y: spawnPoint.y },
+    transporters,
+  };
+}
+
+/**
+ * @throws Error if there is no layer named "Objects" in the map
+ */
+function findObjectLayer(map: ITiledMap): ITiledMapObjectLayer {
+  const objectLayer = map.layers.find(
+    eachLayer => eachLayer.name === 'Objects',
+  ) as ITiledMapObjectLayer;
+  if (!objectLayer) {
+    throw new Error(`Unable to find objects layer in map`);
+  }
+  return objectLayer;
+}
+
+/**
+ * Indexes interactables by their interactionBounds
+ */
+function indexInteractables(interactables: InteractableArea[]): SpatialIndex<InteractableArea> {
+  const index = new SpatialIndex<InteractableArea>();
+  interactables.forEach(eachInteractable =>
+    index.insert(eachInteractable, eachInteractable.interactionBounds),
+  );
+  return index;
+}
+
+/**
+ * @throws Error if the IDs of the interactables are not unique, or if any of them overlap
+ */
+function validateInteractables(
+  interactables: InteractableArea[],
+  index: SpatialIndex<InteractableArea>,
+) {
+  // Make sure that the IDs are unique
+  const interactableIDs = interactables.map(eachInteractable => eachInteractable.id);
+  if (new Set(interactableIDs).size !== interactableIDs.length) {
+    throw new Error(
+      `Expected all interactable IDs to be unique, but found duplicate interactable ID in ${interactableIDs}`,
+    );
+  }
+  // Make sure that there are no overlapping objects. Two interactables can only overlap if their
+  // interactionBounds intersect, so only those that the index finds need to be checked.
+  for (const interactable of interactables) {
+    for (const otherInteractable of index.search(interactable.interactionBounds)) {
+      if (interactable !== otherInteractable && interactable.overlaps(otherInteractable)) {
+        throw new Error(
+          `Expected interactables not to overlap, but found overlap between ${interactable.id} and ${otherInteractable.id}`,
+        );
       }
     }
   }
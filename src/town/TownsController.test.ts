@@ -1,18 +1,26 @@
 import assert from 'assert';
+import fs from 'fs/promises';
 import { DeepMockProxy, mockDeep } from 'jest-mock-extended';
 import { nanoid } from 'nanoid';
 import { Town } from '../api/Model';
 import { ConversationArea, Interactable, TownEmitter, ViewingArea } from '../types/CoveyTownSocket';
+import IChatLogStore from '../lib/IChatLogStore';
+import InMemoryTownsStore from '../lib/InMemoryTownsStore';
+import InvalidParametersError from '../lib/InvalidParametersError';
+import MapLibrary, { InvalidMapError } from '../lib/MapLibrary';
 import TownsStore from '../lib/TownsStore';
 import {
   createConversationForTesting,
+  createVideoURLForTesting,
   getLastEmittedEvent,
   extractSessionToken,
+  getEventListener,
   mockPlayer,
   isViewingArea,
   isConversationArea,
   MockedPlayer,
 } from '../TestUtils';
+import { ChatLogEntry } from './ChatLog';
 import { TownsController } from './TownsController';
 
 type TestTownData = {
@@ -36,6 +44,7 @@ function expectTownListMatches(towns: Town[], town: TestTownData) {
 const broadcastEmitter = jest.fn();
 describe('TownsController integration tests', () => {
   let controller: TownsController;
+  let indoorsMap: unknown;
 
   const createdTownEmitters: Map<string, DeepMockProxy<TownEmitter>> = new Map();
   async function createTownForTesting(
@@ -49,7 +58,7 @@ describe('TownsController integration tests', () => {
     const ret = await controller.createTown({
       friendlyName,
       isPubliclyListed: isPublic,
-      mapFile: 'testData/indoors.json',
+      map: indoorsMap,
     });
     return {
       friendlyName,
@@ -66,7 +75,8 @@ describe('TownsController integration tests', () => {
     return ret;
   }
 
-  beforeAll(() => {
+  beforeAll(async () => {
+    indoorsMap = JSON.parse(await fs.readFile('testData/indoors.json', 'utf-8'));
     // Set the twilio tokens to dummy values so that the unit tests can run
     process.env.TWILIO_API_AUTH_TOKEN = 'testing';
     process.env.TWILIO_ACCOUNT_SID = 'ACtesting';
@@ -93,6 +103,64 @@ describe('TownsController integration tests', () => {
     it('Prohibits a blank friendlyName', async () => {
       await expect(createTownForTesting('')).rejects.toThrowError();
     });
+    it('Creates a town from a map in the map library', async () => {
+      const mapID = await TownsStore.getInstance().mapLibrary.addMap(indoorsMap);
+      const { townID } = await controller.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        mapID,
+      });
+      const player = mockPlayer(townID);
+      await controller.joinTown(player.socket);
+      expect(getLastEmittedEvent(player.socket, 'initialize').interactables.length).toBeGreaterThan(
+        0,
+      );
+    });
+    it('Adds an uploaded map to the map library', async () => {
+      await createTownForTesting();
+      const mapID = await TownsStore.getInstance().mapLibrary.addMap(indoorsMap);
+      expect(await TownsStore.getInstance().mapLibrary.getMap(mapID)).toBeDefined();
+    });
+    it('Rejects a mapID that is not in the map library', async () => {
+      await expect(
+        controller.createTown({
+          friendlyName: nanoid(),
+          isPubliclyListed: true,
+          mapID: 'a'.repeat(64),
+        }),
+      ).rejects.toThrow(InvalidParametersError);
+      await expect(
+        controller.createTown({
+          friendlyName: nanoid(),
+          isPubliclyListed: true,
+          mapID: '../../testData/indoors',
+        }),
+      ).rejects.toThrow(InvalidParametersError);
+    });
+    it('Rejects a request that specifies both a map and a mapID', async () => {
+      const mapID = await TownsStore.getInstance().mapLibrary.addMap(indoorsMap);
+      await expect(
+        controller.createTown({
+          friendlyName: nanoid(),
+          isPubliclyListed: true,
+          map: indoorsMap,
+          mapID,
+        }),
+      ).rejects.toThrow(InvalidParametersError);
+    });
+    it('Rejects an invalid map, reporting its problems', async () => {
+      const promise = controller.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        map: { type: 'map', tiledversion: '1.9.0', tilesets: [], layers: [] },
+      });
+      await expect(promise).rejects.toThrow(InvalidMapError);
+      await expect(promise).rejects.toMatchObject({
+        status: 400,
+        issues: [expect.objectContaining({ message: 'Unable to find objects layer in map' })],
+      });
+      expect(await controller.listTowns()).toEqual([]);
+    });
   });
 
   describe('listTowns', () => {
@@ -194,6 +262,437 @@ describe('TownsController integration tests', () => {
     });
   });
 
+  describe('updateTownMap', () => {
+    /** The indoors map, without one of its conversation areas */
+    function indoorsMapWithout(areaName: string) {
+      const map = JSON.parse(JSON.stringify(indoorsMap));
+      const objectLayer = map.layers.find(
+        (eachLayer: { name: string }) => eachLayer.name === 'Objects',
+      );
+      objectLayer.objects = objectLayer.objects.filter(
+        (eachObject: { name: string }) => eachObject.name !== areaName,
+      );
+      return map;
+    }
+    it('Replaces the map of a running town without disconnecting its players', async () => {
+      const testTown = await createTownForTesting(undefined, true);
+      const player = mockPlayer(testTown.townID);
+      await controller.joinTown(player.socket);
+      const town = TownsStore.getInstance().getTownByID(testTown.townID);
+      assert(town);
+      // New players are placed at the spawn point, which is in this area
+      expect(
+        town.addConversationArea({
+          id: 'Basement Dining Table 1',
+          topic: 'lunch',
+          occupants: [],
+          type: 'ConversationArea',
+        }),
+      ).toBe(true);
+
+      await controller.updateTownMap(testTown.townID, testTown.townUpdatePassword, {
+        map: indoorsMapWithout('Foyer Table 2'),
+      });
+      const mapChange = getLastEmittedEvent(
+        getBroadcastEmitterForTownID(testTown.townID),
+        'mapChanged',
+      );
+      expect(mapChange.mapID).toMatch(/^[0-9a-f]{64}$/);
+      const areaIDs = mapChange.interactables.map(eachInteractable => eachInteractable.id);
+      expect(areaIDs).not.toContain('Foyer Table 2');
+      expect(areaIDs).toContain('Foyer Table 1');
+      expect(mapChange.interactables).toContainEqual(
+        expect.objectContaining({ id: 'Basement Dining Table 1', topic: 'lunch' }),
+      );
+      expect(player.socket.disconnect).not.toBeCalled();
+      expect(town.players).toHaveLength(1);
+    });
+    it('Checks the password before changing the map', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await expect(
+        controller.updateTownMap(town.townID, `${town.townUpdatePassword}*`, {
+          map: indoorsMapWithout('Foyer Table 2'),
+        }),
+      ).rejects.toThrow(InvalidParametersError);
+      expect(() =>
+        getLastEmittedEvent(getBroadcastEmitterForTownID(town.townID), 'mapChanged'),
+      ).toThrowError();
+    });
+    it('Requires exactly one of a map and a mapID, which must be in the map library', async () => {
+      const town = await createTownForTesting(undefined, true);
+      const mapID = await TownsStore.getInstance().mapLibrary.addMap(indoorsMap);
+      await expect(
+        controller.updateTownMap(town.townID, town.townUpdatePassword, {}),
+      ).rejects.toThrow(InvalidParametersError);
+      await expect(
+        controller.updateTownMap(town.townID, town.townUpdatePassword, { map: indoorsMap, mapID }),
+      ).rejects.toThrow(InvalidParametersError);
+      await expect(
+        controller.updateTownMap(town.townID, town.townUpdatePassword, { mapID: 'a'.repeat(64) }),
+      ).rejects.toThrow(InvalidParametersError);
+      await expect(
+        controller.updateTownMap(town.townID, town.townUpdatePassword, { mapID }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('Capacity', () => {
+    async function createTownWithCapacity(capacity: number) {
+      const { townID, townUpdatePassword } = await controller.createTown({
+        friendlyName: nanoid(),
+        isPubliclyListed: true,
+        map: indoorsMap,
+        capacity,
+      });
+      const town = TownsStore.getInstance().getTownByID(townID);
+      assert(town);
+      town.reconnectGracePeriodSec = 0;
+      return { townID, townUpdatePassword };
+    }
+    it('Lists the configured capacity as the maximum occupancy', async () => {
+      const { townID } = await createTownWithCapacity(7);
+      const listed = (await controller.listTowns()).find(eachTown => eachTown.townID === townID);
+      expect(listed?.maximumOccupancy).toBe(7);
+    });
+    it('Prohibits an invalid capacity', async () => {
+      await expect(createTownWithCapacity(0)).rejects.toThrowError();
+    });
+    it('Places players who join a full town on the waitlist, admitting them when a slot frees up', async () => {
+      const { townID } = await createTownWithCapacity(1);
+      const firstPlayer = mockPlayer(townID);
+      await controller.joinTown(firstPlayer.socket);
+      const waitingPlayer = mockPlayer(townID);
+      await controller.joinTown(waitingPlayer.socket);
+
+      expect(getLastEmittedEvent(waitingPlayer.socket, 'waitlistUpdated').position).toBe(1);
+      expect(() => getLastEmittedEvent(waitingPlayer.socket, 'initialize')).toThrowError();
+      expect(waitingPlayer.socket.join).not.toBeCalled();
+
+      getEventListener(firstPlayer.socket, 'disconnect')('transport close');
+      // Admission finishes asynchronously, after the video token is issued
+      await new Promise(resolve => setImmediate(resolve));
+      const initialData = getLastEmittedEvent(waitingPlayer.socket, 'initialize');
+      expect(initialData.currentPlayers.map(eachPlayer => eachPlayer.userName)).toEqual([
+        waitingPlayer.userName,
+      ]);
+      expect(waitingPlayer.socket.join).toBeCalledWith(townID);
+    });
+    it('Admits waiting players when the capacity is increased', async () => {
+      const { townID, townUpdatePassword } = await createTownWithCapacity(1);
+      await controller.joinTown(mockPlayer(townID).socket);
+      const waitingPlayer = mockPlayer(townID);
+      await controller.joinTown(waitingPlayer.socket);
+
+      await controller.updateTown(townID, townUpdatePassword, { capacity: 2 });
+      await new Promise(resolve => setImmediate(resolve));
+      expect(getLastEmittedEvent(waitingPlayer.socket, 'initialize').currentPlayers).toHaveLength(
+        2,
+      );
+    });
+    it('Rejects an invalid capacity update without changing any other settings', async () => {
+      const { townID, townUpdatePassword } = await createTownWithCapacity(1);
+      await expect(
+        controller.updateTown(townID, townUpdatePassword, { friendlyName: 'new', capacity: -2 }),
+      ).rejects.toThrowError();
+      const town = TownsStore.getInstance().getTownByID(townID);
+      expect(town?.capacity).toBe(1);
+      expect(town?.friendlyName).not.toEqual('new');
+    });
+    it('Persists the capacity', async () => {
+      const backingStore = new InMemoryTownsStore();
+      const mapLibrary = new MapLibrary();
+      TownsStore.initializeTownsStore(broadcastEmitter, backingStore, mapLibrary);
+      controller = new TownsController();
+      const { townID } = await createTownWithCapacity(3);
+      TownsStore.initializeTownsStore(broadcastEmitter, backingStore, mapLibrary);
+      await TownsStore.getInstance().rehydrateTowns();
+      expect(TownsStore.getInstance().getTownByID(townID)?.capacity).toBe(3);
+    });
+  });
+
+  describe('Moderation', () => {
+    let town: TestTownData;
+    let target: MockedPlayer;
+    let targetID: string;
+    beforeEach(async () => {
+      town = await createTownForTesting(undefined, true);
+      target = mockPlayer(town.townID);
+      await controller.joinTown(target.socket);
+      targetID = getLastEmittedEvent(target.socket, 'initialize').userID;
+    });
+    it('Checks the password before acting on a player', async () => {
+      const wrongPassword = `${town.townUpdatePassword}*`;
+      await expect(
+        controller.kickPlayer(town.townID, targetID, wrongPassword, {}),
+      ).rejects.toThrowError();
+      await expect(
+        controller.banPlayer(town.townID, targetID, wrongPassword, {}),
+      ).rejects.toThrowError();
+      await expect(
+        controller.mutePlayer(town.townID, targetID, wrongPassword, { durationSec: 10 }),
+      ).rejects.toThrowError();
+      expect(target.socket.disconnect).not.toBeCalled();
+    });
+    it('Throws an error if the player is not in the town', async () => {
+      await expect(
+        controller.kickPlayer(town.townID, nanoid(), town.townUpdatePassword, {}),
+      ).rejects.toThrowError();
+    });
+    it('Kicks a player, notifying the town', async () => {
+      await controller.kickPlayer(town.townID, targetID, town.townUpdatePassword, {
+        reason: 'test',
+      });
+      expect(target.socket.disconnect).toBeCalledWith(true);
+      const action = getLastEmittedEvent(
+        getBroadcastEmitterForTownID(town.townID),
+        'playerModerated',
+      );
+      expect(action).toEqual({ action: 'kick', playerID: targetID, reason: 'test' });
+    });
+    it('Bans a player, blocking them from rejoining with their session', async () => {
+      const { sessionToken } = getLastEmittedEvent(target.socket, 'initialize');
+      await controller.banPlayer(town.townID, targetID, town.townUpdatePassword, {});
+
+      const rejoining = mockPlayer(town.townID);
+      rejoining.socket.handshake.auth = {
+        userName: target.userName,
+        townID: town.townID,
+        sessionToken,
+      };
+      await controller.joinTown(rejoining.socket);
+      expect(getLastEmittedEvent(rejoining.socket, 'removedFromTown').isBan).toBe(true);
+      expect(rejoining.socket.disconnect).toBeCalledWith(true);
+      expect(() => getLastEmittedEvent(rejoining.socket, 'initialize')).toThrowError();
+    });
+    it('Does not block other clients with the name or address of a banned player', async () => {
+      await controller.banPlayer(town.townID, targetID, town.townUpdatePassword, {});
+
+      const sameName = mockPlayer(town.townID);
+      sameName.socket.handshake.auth = { userName: target.userName, townID: town.townID };
+      sameName.socket.handshake.address = target.socket.handshake.address;
+      await controller.joinTown(sameName.socket);
+      getLastEmittedEvent(sameName.socket, 'initialize');
+      expect(() => getLastEmittedEvent(sameName.socket, 'removedFromTown')).toThrowError();
+    });
+    it('Mutes a player', async () => {
+      await controller.mutePlayer(town.townID, targetID, town.townUpdatePassword, {
+        durationSec: 30,
+      });
+      expect(TownsStore.getInstance().getTownByID(town.townID)?.isMuted(targetID)).toBe(true);
+      await expect(
+        controller.mutePlayer(town.townID, targetID, town.townUpdatePassword, { durationSec: -1 }),
+      ).rejects.toThrowError();
+    });
+  });
+
+  describe('Roles', () => {
+    let town: TestTownData;
+    let target: MockedPlayer;
+    let targetID: string;
+    beforeEach(async () => {
+      town = await createTownForTesting(undefined, true);
+      target = mockPlayer(town.townID);
+      await controller.joinTown(target.socket);
+      targetID = getLastEmittedEvent(target.socket, 'initialize').userID;
+    });
+    it('Admits players as members, or as the owner if they provide the town update password', async () => {
+      expect(getLastEmittedEvent(target.socket, 'initialize').currentPlayers[0].role).toEqual(
+        'member',
+      );
+
+      const owner = mockPlayer(town.townID);
+      owner.socket.handshake.auth = {
+        userName: owner.userName,
+        townID: town.townID,
+        townUpdatePassword: town.townUpdatePassword,
+      };
+      await controller.joinTown(owner.socket);
+      const initialData = getLastEmittedEvent(owner.socket, 'initialize');
+      expect(
+        initialData.currentPlayers.find(eachPlayer => eachPlayer.id === initialData.userID)?.role,
+      ).toEqual('owner');
+    });
+    it('Changes the role of a player, checking the password', async () => {
+      await expect(
+        controller.setPlayerRole(town.townID, targetID, `${town.townUpdatePassword}*`, {
+          role: 'moderator',
+        }),
+      ).rejects.toThrowError();
+      await controller.setPlayerRole(town.townID, targetID, town.townUpdatePassword, {
+        role: 'moderator',
+      });
+      const roleChange = getLastEmittedEvent(
+        getBroadcastEmitterForTownID(town.townID),
+        'playerRoleChanged',
+      );
+      expect(roleChange.id).toEqual(targetID);
+      expect(roleChange.role).toEqual('moderator');
+    });
+    it('Configures the permissions of a role, except for the owner role', async () => {
+      await controller.setRolePermissions(town.townID, 'member', town.townUpdatePassword, {
+        permissions: ['startGame'],
+      });
+      expect(
+        TownsStore.getInstance().getTownByID(town.townID)?.rolePermissions.getPermissions('member'),
+      ).toEqual(['startGame']);
+      await expect(
+        controller.setRolePermissions(town.townID, 'owner', town.townUpdatePassword, {
+          permissions: [],
+        }),
+      ).rejects.toThrowError();
+      await expect(
+        controller.setRolePermissions(town.townID, 'guest', `${town.townUpdatePassword}*`, {
+          permissions: [],
+        }),
+      ).rejects.toThrowError();
+    });
+    it('Does not allow players without permission to set conversation topics', async () => {
+      await controller.setPlayerRole(town.townID, targetID, town.townUpdatePassword, {
+        role: 'guest',
+      });
+      const conversationID = getLastEmittedEvent(target.socket, 'initialize').interactables.find(
+        isConversationArea,
+      )?.id;
+      await expect(
+        controller.createConversationArea(
+          town.townID,
+          extractSessionToken(target),
+          createConversationForTesting({ conversationID }),
+        ),
+      ).rejects.toThrowError('Permission denied');
+    });
+  });
+
+  describe('Persistence', () => {
+    let backingStore: InMemoryTownsStore;
+    let mapLibrary: MapLibrary;
+    let chatLogs: Map<string, ChatLogEntry[]>;
+    let chatLogStore: IChatLogStore;
+    beforeEach(() => {
+      backingStore = new InMemoryTownsStore();
+      mapLibrary = new MapLibrary();
+      chatLogs = new Map();
+      chatLogStore = {
+        getChatLog: async townID => chatLogs.get(townID) ?? [],
+        putChatLog: async (townID, entries) => {
+          chatLogs.set(townID, entries);
+        },
+        deleteChatLog: async townID => {
+          chatLogs.delete(townID);
+        },
+      };
+      TownsStore.initializeTownsStore(
+        broadcastEmitter,
+        backingStore,
+        mapLibrary,
+        undefined,
+        chatLogStore,
+      );
+      controller = new TownsController();
+    });
+    function restartServer() {
+      TownsStore.initializeTownsStore(
+        broadcastEmitter,
+        backingStore,
+        mapLibrary,
+        undefined,
+        chatLogStore,
+      );
+      controller = new TownsController();
+      return TownsStore.getInstance().rehydrateTowns();
+    }
+    it('Saves each new town, without storing the plaintext password', async () => {
+      const town = await createTownForTesting(undefined, true);
+      const records = await backingStore.getAllTowns();
+      expect(records).toHaveLength(1);
+      expect(records[0].townID).toEqual(town.townID);
+      expect(records[0].friendlyName).toEqual(town.friendlyName);
+      expect(records[0].isPubliclyListed).toBe(true);
+      expect(records[0].mapID).toEqual(await mapLibrary.addMap(indoorsMap));
+      expect(records[0].mapFile).toBeUndefined();
+      expect(records[0].townUpdatePasswordHash).not.toContain(town.townUpdatePassword);
+    });
+    it('Restores towns with the same ID, settings and password after a restart', async () => {
+      const pubTown = await createTownForTesting(undefined, true);
+      const privTown = await createTownForTesting(undefined, false);
+      const restored = await restartServer();
+      expect(restored).toHaveLength(2);
+
+      const towns = await controller.listTowns();
+      expectTownListMatches(towns, pubTown);
+      expectTownListMatches(towns, privTown);
+
+      await controller.updateTown(privTown.townID, privTown.townUpdatePassword, {
+        isPubliclyListed: true,
+      });
+      privTown.isPubliclyListed = true;
+      expectTownListMatches(await controller.listTowns(), privTown);
+
+      const player = mockPlayer(privTown.townID);
+      await controller.joinTown(player.socket);
+      const initialData = getLastEmittedEvent(player.socket, 'initialize');
+      expect(initialData.interactables.length).toBeGreaterThan(0);
+    });
+    it('Persists updates to town settings', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await controller.updateTown(town.townID, town.townUpdatePassword, {
+        friendlyName: 'newName',
+        isPubliclyListed: false,
+      });
+      await restartServer();
+      town.friendlyName = 'newName';
+      town.isPubliclyListed = false;
+      expectTownListMatches(await controller.listTowns(), town);
+      await expect(
+        controller.updateTown(town.townID, town.townUpdatePassword, { isPubliclyListed: true }),
+      ).resolves.toBeUndefined();
+    });
+    it('Persists the permissions of each role', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await controller.setRolePermissions(town.townID, 'guest', town.townUpdatePassword, {
+        permissions: ['setConversationTopic'],
+      });
+      await restartServer();
+      const { rolePermissions } = TownsStore.getInstance().getTownByID(town.townID) ?? {};
+      expect(rolePermissions?.getPermissions('guest')).toEqual(['setConversationTopic']);
+    });
+    it('Persists a replaced map', async () => {
+      const town = await createTownForTesting(undefined, true);
+      const newMap = JSON.parse(JSON.stringify(indoorsMap));
+      newMap.properties = [{ name: 'layout', type: 'string', value: 'v2' }];
+      await controller.updateTownMap(town.townID, town.townUpdatePassword, { map: newMap });
+      await restartServer();
+      const records = await backingStore.getAllTowns();
+      expect(records[0].mapID).toEqual(await mapLibrary.addMap(newMap));
+    });
+    it('Persists the chat history and retention limits of each town', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await controller.setChatRetention(town.townID, town.townUpdatePassword, {
+        maxMessages: 2,
+      });
+      const player = mockPlayer(town.townID);
+      await controller.joinTown(player.socket);
+      ['first', 'second', 'third'].forEach(body =>
+        getEventListener(player.socket, 'chatMessage')({ body }),
+      );
+      await restartServer();
+
+      const restoredLog = TownsStore.getInstance().getTownByID(town.townID)?.chatLog;
+      expect(restoredLog?.retention).toEqual({ maxMessages: 2 });
+      expect(restoredLog?.entries.map(eachEntry => eachEntry.message.body)).toEqual([
+        'second',
+        'third',
+      ]);
+    });
+    it('Does not restore deleted towns', async () => {
+      const town = await createTownForTesting(undefined, true);
+      await controller.deleteTown(town.townID, town.townUpdatePassword);
+      expect(await restartServer()).toHaveLength(0);
+      expect(TownsStore.getInstance().getTownByID(town.townID)).toBeUndefined();
+      expect(chatLogs.has(town.townID)).toBe(false);
+    });
+  });
+
   describe('joinTown', () => {
     it('Disconnects the socket if the town does not exist', async () => {
       await createTownForTesting(undefined, true);
@@ -224,6 +723,38 @@ describe('TownsController integration tests', () => {
       await joinAndCheckInitialData(true);
       await joinAndCheckInitialData(false);
     });
+    it('Resumes an existing player session when reconnecting with its session token', async () => {
+      const town = await createTownForTesting(undefined, true);
+      const player = mockPlayer(town.townID);
+      await controller.joinTown(player.socket);
+      const initialData = getLastEmittedEvent(player.socket, 'initialize');
+
+      const reconnected = mockPlayer(town.townID);
+      reconnected.socket.handshake.auth = {
+        userName: player.userName,
+        townID: town.townID,
+        sessionToken: initialData.sessionToken,
+      };
+      await controller.joinTown(reconnected.socket);
+      const resumedData = getLastEmittedEvent(reconnected.socket, 'initialize');
+      expect(resumedData.userID).toEqual(initialData.userID);
+      expect(resumedData.sessionToken).toEqual(initialData.sessionToken);
+      expect(resumedData.currentPlayers.length).toBe(1);
+      expect(player.socket.disconnect).toBeCalledWith(true);
+    });
+    it('Admits a new player if the session token is not known', async () => {
+      const town = await createTownForTesting(undefined, true);
+      const player = mockPlayer(town.townID);
+      player.socket.handshake.auth = {
+        userName: player.userName,
+        townID: town.townID,
+        sessionToken: nanoid(),
+      };
+      await controller.joinTown(player.socket);
+      const initialData = getLastEmittedEvent(player.socket, 'initialize');
+      expect(initialData.currentPlayers.length).toBe(1);
+      expect(initialData.currentPlayers[0].userName).toEqual(player.userName);
+    });
     it('Includes active conversation areas in the initial join data', async () => {
       const town = await createTownForTesting(undefined, true);
       const player = mockPlayer(town.townID);
@@ -251,6 +782,71 @@ describe('TownsController integration tests', () => {
       expect(initialData2.interactables.length).toEqual(initialData.interactables.length);
     });
   });
+  describe('Chat history', () => {
+    let town: TestTownData;
+    let player: MockedPlayer;
+    function sendChatMessages(sender: MockedPlayer, bodies: string[]) {
+      bodies.forEach(body => getEventListener(sender.socket, 'chatMessage')({ body }));
+    }
+    beforeEach(async () => {
+      town = await createTownForTesting(undefined, true);
+      player = mockPlayer(town.townID);
+      await controller.joinTown(player.socket);
+    });
+    it('Sends the most recent chat messages to players who join', async () => {
+      sendChatMessages(player, ['first', 'second']);
+      const latecomer = mockPlayer(town.townID);
+      await controller.joinTown(latecomer.socket);
+      expect(
+        getLastEmittedEvent(latecomer.socket, 'initialize').chatHistory.map(
+          eachMessage => eachMessage.body,
+        ),
+      ).toEqual(['first', 'second']);
+    });
+    it('Pages backwards through the chat history by cursor', async () => {
+      sendChatMessages(player, ['1', '2', '3', '4', '5']);
+      const sessionToken = extractSessionToken(player);
+      const bodies = (page: { messages: { body: string }[] }) =>
+        page.messages.map(eachMessage => eachMessage.body);
+
+      const first = await controller.getChatHistory(town.townID, sessionToken, undefined, 2);
+      expect(bodies(first)).toEqual(['4', '5']);
+      const second = await controller.getChatHistory(
+        town.townID,
+        sessionToken,
+        first.nextCursor,
+        2,
+      );
+      expect(bodies(second)).toEqual(['2', '3']);
+      const last = await controller.getChatHistory(town.townID, sessionToken, second.nextCursor, 2);
+      expect(bodies(last)).toEqual(['1']);
+      expect(last.nextCursor).toBeUndefined();
+    });
+    it('Checks for a valid session token and cursor', async () => {
+      await expect(controller.getChatHistory(town.townID, nanoid())).rejects.toThrow(
+        InvalidParametersError,
+      );
+      await expect(
+        controller.getChatHistory(nanoid(), extractSessionToken(player)),
+      ).rejects.toThrow(InvalidParametersError);
+      await expect(
+        controller.getChatHistory(town.townID, extractSessionToken(player), nanoid()),
+      ).rejects.toThrow(InvalidParametersError);
+    });
+    it('Configures how many messages are kept, checking the password', async () => {
+      await expect(
+        controller.setChatRetention(town.townID, nanoid(), { maxMessages: 1 }),
+      ).rejects.toThrow(InvalidParametersError);
+      await expect(
+        controller.setChatRetention(town.townID, town.townUpdatePassword, { maxMessages: 0 }),
+      ).rejects.toThrow(InvalidParametersError);
+
+      sendChatMessages(player, ['first', 'second']);
+      await controller.setChatRetention(town.townID, town.townUpdatePassword, { maxMessages: 1 });
+      const page = await controller.getChatHistory(town.townID, extractSessionToken(player));
+      expect(page.messages.map(eachMessage => eachMessage.body)).toEqual(['second']);
+    });
+  });
   describe('Interactables', () => {
     let testingTown: TestTownData;
     let player: MockedPlayer;
@@ -301,7 +897,12 @@ describe('TownsController integration tests', () => {
     });
 
     describe('[T1] Create Viewing Area', () => {
+      afterEach(() => {
+        jest.useRealTimers();
+      });
       it('Executes without error when creating a new viewing area', async () => {
+        // Stop the clock, so that the video does not advance while it plays
+        jest.useFakeTimers();
         const viewingArea = interactables.find(isViewingArea) as ViewingArea;
         if (!viewingArea) {
           fail('Expected at least one viewing area to be returned in the initial join data');
@@ -309,9 +910,11 @@ describe('TownsController integration tests', () => {
           const newViewingArea: ViewingArea = {
             elapsedTimeSec: 100,
             id: viewingArea.id,
-            video: nanoid(),
+            video: createVideoURLForTesting(),
             isPlaying: true,
             occupants: [],
+            queue: [],
+            skipVotes: [],
             type: 'ViewingArea',
           };
           await controller.createViewingArea(testingTown.townID, sessionToken, newViewingArea);
@@ -319,7 +922,9 @@ describe('TownsController integration tests', () => {
           const townEmitter = getBroadcastEmitterForTownID(testingTown.townID);
           const updateMessage = getLastEmittedEvent(townEmitter, 'interactableUpdate');
           if (isViewingArea(updateMessage)) {
-            expect(updateMessage).toEqual(newViewingArea);
+            // The player joined at the map's spawn point, which is within the first viewing area
+            const { userID } = getLastEmittedEvent(player.socket, 'initialize');
+            expect(updateMessage).toEqual({ ...newViewingArea, occupants: [userID] });
           } else {
             fail('Expected an interactableUpdate to be dispatched with the new viewing area');
           }
@@ -330,7 +935,7 @@ describe('TownsController integration tests', () => {
         const newViewingArea: ViewingArea = {
           elapsedTimeSec: 100,
           id: viewingArea.id,
-          video: nanoid(),
+          video: createVideoURLForTesting(),
           isPlaying: true,
           occupants: [],
           type: 'ViewingArea',
@@ -345,7 +950,7 @@ describe('TownsController integration tests', () => {
         const newViewingArea: ViewingArea = {
           elapsedTimeSec: 100,
           id: viewingArea.id,
-          video: nanoid(),
+          video: createVideoURLForTesting(),
           isPlaying: true,
           occupants: [],
           type: 'ViewingArea',
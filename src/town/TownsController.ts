@@ -9,20 +9,37 @@ import {
   Patch,
   Path,
   Post,
+  Put,
+  Query,
   Response,
   Route,
   Tags,
 } from 'tsoa';
 
-import { Town, TownCreateParams, TownCreateResponse } from '../api/Model';
-import InvalidParametersError from '../lib/InvalidParametersError';
+import {
+  ChatHistoryPage,
+  ChatRetention,
+  ModerationRequest,
+  MuteRequest,
+  RoleAssignmentRequest,
+  RolePermissionsRequest,
+  Town,
+  TownCreateParams,
+  TownCreateResponse,
+  TownMapUpdateParams,
+} from '../api/Model';
+import InvalidParametersError, { PERMISSION_DENIED_MESSAGE } from '../lib/InvalidParametersError';
+import { InvalidMapError } from '../lib/MapLibrary';
+import Player from '../lib/Player';
 import CoveyTownsStore from '../lib/TownsStore';
 import {
   ConversationArea,
   CoveyTownSocket,
+  PlayerRole,
   TownSettingsUpdate,
   ViewingArea,
 } from '../types/CoveyTownSocket';
+import CoveyTown from './Town';
 
 /**
  * This is the town route
@@ -47,20 +64,30 @@ export class TownsController extends Controller {
   /**
    * Create a new town
    *
-   * @param request The public-facing information for the new town
+   * @param request The public-facing information for the new town, and optionally the map to create it from
    * @example request {"friendlyName": "My testing town public name", "isPubliclyListed": true}
    * @returns The ID of the newly created town, and a secret password that will be needed to update or delete this town.
    */
   @Example<TownCreateResponse>({ townID: 'stringID', townUpdatePassword: 'secretPassword' })
   @Post()
+  @Response<InvalidMapError>(400, 'Invalid map, or no such map in the map library')
+  @Response<InvalidMapError>(413, 'Map is too large')
   public async createTown(@Body() request: TownCreateParams): Promise<TownCreateResponse> {
-    const { townID, townUpdatePassword } = await this._townsStore.createTown(
+    let { mapID } = request;
+    if (request.map !== undefined) {
+      if (mapID !== undefined) {
+        throw new InvalidParametersError('Specify either a map or a mapID, not both');
+      }
+      mapID = await this._townsStore.mapLibrary.addMap(request.map);
+    }
+    const { town, townUpdatePassword } = await this._townsStore.createTown(
       request.friendlyName,
       request.isPubliclyListed,
-      request.mapFile,
+      mapID,
+      request.capacity,
     );
     return {
-      townID,
+      townID: town.townID,
       townUpdatePassword,
     };
   }
@@ -79,17 +106,52 @@ export class TownsController extends Controller {
     @Header('X-CoveyTown-Password') townUpdatePassword: string,
     @Body() requestBody: TownSettingsUpdate,
   ): Promise<void> {
-    const success = this._townsStore.updateTown(
+    const success = await this._townsStore.updateTown(
       townID,
       townUpdatePassword,
       requestBody.friendlyName,
       requestBody.isPubliclyListed,
+      requestBody.capacity,
     );
     if (!success) {
       throw new InvalidParametersError('Invalid password or update values specified');
     }
   }
 
+  /**
+   * Replaces the map of a running town without disconnecting its players. Areas that are in both the
+   * old and the new map keep their state; players in areas that are not in the new map are removed
+   * from them. Every player in the town is sent a mapChanged event.
+   *
+   * @param townID ID of the town to update
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The new map, or the ID of a map in the map library
+   */
+  @Put('{townID}/map')
+  @Response<InvalidParametersError>(400, 'Invalid password or map specified')
+  @Response<InvalidMapError>(413, 'Map is too large')
+  public async updateTownMap(
+    @Path() townID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: TownMapUpdateParams,
+  ): Promise<void> {
+    let { mapID } = requestBody;
+    if ((requestBody.map === undefined) === (mapID === undefined)) {
+      throw new InvalidParametersError('Specify either a map or a mapID');
+    }
+    if (!this._townsStore.isTownUpdatePassword(townID, townUpdatePassword)) {
+      throw new InvalidParametersError('Invalid password or map specified');
+    }
+    if (requestBody.map !== undefined) {
+      mapID = await this._townsStore.mapLibrary.addMap(requestBody.map);
+    }
+    assert(mapID !== undefined);
+    const success = await this._townsStore.updateTownMap(townID, townUpdatePassword, mapID);
+    if (!success) {
+      throw new InvalidParametersError('Invalid password or map specified');
+    }
+  }
+
   /**
    * Deletes a town
    * @param townID ID of the town to delete
@@ -101,12 +163,149 @@ export class TownsController extends Controller {
     @Path() townID: string,
     @Header('X-CoveyTown-Password') townUpdatePassword: string,
   ): Promise<void> {
-    const success = this._townsStore.deleteTown(townID, townUpdatePassword);
+    const success = await this._townsStore.deleteTown(townID, townUpdatePassword);
     if (!success) {
       throw new InvalidParametersError('Invalid password or update values specified');
     }
   }
 
+  /**
+   * Kicks a player out of a town, disconnecting them. They may rejoin the town.
+   *
+   * @param townID ID of the town that the player is in
+   * @param playerID ID of the player to kick
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The reason for the kick, which is shown to the player and to the town
+   */
+  @Post('{townID}/players/{playerID}/kick')
+  @Response<InvalidParametersError>(400, 'Invalid password or player specified')
+  public async kickPlayer(
+    @Path() townID: string,
+    @Path() playerID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: ModerationRequest,
+  ): Promise<void> {
+    const success = this._townsStore.kickPlayer(
+      townID,
+      townUpdatePassword,
+      playerID,
+      requestBody.reason,
+    );
+    if (!success) {
+      throw new InvalidParametersError('Invalid password or player specified');
+    }
+  }
+
+  /**
+   * Bans a player from a town, disconnecting them and blocking their session from rejoining the town
+   *
+   * @param townID ID of the town that the player is in
+   * @param playerID ID of the player to ban
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The reason for the ban, which is shown to the player and to the town
+   */
+  @Post('{townID}/players/{playerID}/ban')
+  @Response<InvalidParametersError>(400, 'Invalid password or player specified')
+  public async banPlayer(
+    @Path() townID: string,
+    @Path() playerID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: ModerationRequest,
+  ): Promise<void> {
+    const success = this._townsStore.banPlayer(
+      townID,
+      townUpdatePassword,
+      playerID,
+      requestBody.reason,
+    );
+    if (!success) {
+      throw new InvalidParametersError('Invalid password or player specified');
+    }
+  }
+
+  /**
+   * Mutes a player in a town: their chat messages are rejected until the mute ends
+   *
+   * @param townID ID of the town that the player is in
+   * @param playerID ID of the player to mute
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody How long to mute the player for, and why
+   */
+  @Post('{townID}/players/{playerID}/mute')
+  @Response<InvalidParametersError>(400, 'Invalid password, player or duration specified')
+  public async mutePlayer(
+    @Path() townID: string,
+    @Path() playerID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: MuteRequest,
+  ): Promise<void> {
+    const success = this._townsStore.mutePlayer(
+      townID,
+      townUpdatePassword,
+      playerID,
+      requestBody.durationSec,
+      requestBody.reason,
+    );
+    if (!success) {
+      throw new InvalidParametersError('Invalid password, player or duration specified');
+    }
+  }
+
+  /**
+   * Changes the role of a player in a town
+   *
+   * @param townID ID of the town that the player is in
+   * @param playerID ID of the player whose role to change
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The player's new role
+   */
+  @Post('{townID}/players/{playerID}/role')
+  @Response<InvalidParametersError>(400, 'Invalid password or player specified')
+  public async setPlayerRole(
+    @Path() townID: string,
+    @Path() playerID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: RoleAssignmentRequest,
+  ): Promise<void> {
+    const success = this._townsStore.setPlayerRole(
+      townID,
+      townUpdatePassword,
+      playerID,
+      requestBody.role,
+    );
+    if (!success) {
+      throw new InvalidParametersError('Invalid password or player specified');
+    }
+  }
+
+  /**
+   * Replaces the set of permissions that are granted to a role in a town. The permissions of the owner
+   * role can not be changed.
+   *
+   * @param townID ID of the town to configure
+   * @param role The role to configure
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The permissions to grant to the role
+   */
+  @Put('{townID}/roles/{role}')
+  @Response<InvalidParametersError>(400, 'Invalid password or role specified')
+  public async setRolePermissions(
+    @Path() townID: string,
+    @Path() role: PlayerRole,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: RolePermissionsRequest,
+  ): Promise<void> {
+    const success = await this._townsStore.setRolePermissions(
+      townID,
+      townUpdatePassword,
+      role,
+      requestBody.permissions,
+    );
+    if (!success) {
+      throw new InvalidParametersError('Invalid password or role specified');
+    }
+  }
+
   /**
    * Creates a conversation area in a given town
    * @param townID ID of the town in which to create the new conversation area
@@ -121,10 +320,14 @@ export class TownsController extends Controller {
     @Body() requestBody: Omit<ConversationArea, 'type'>,
   ): Promise<void> {
     const town = this._townsStore.getTownByID(townID);
-    if (!town?.getPlayerBySessionToken(sessionToken)) {
+    const player = town?.getPlayerBySessionToken(sessionToken);
+    if (!town || !player) {
       throw new InvalidParametersError('Invalid values specified');
     }
-    const success = town.addConversationArea({ ...requestBody, type: 'ConversationArea' });
+    if (!town.hasPermission(player, 'setConversationTopic')) {
+      throw new InvalidParametersError(PERMISSION_DENIED_MESSAGE);
+    }
+    const success = town.addConversationArea({ ...requestBody, type: 'ConversationArea' }, player);
     if (!success) {
       throw new InvalidParametersError('Invalid values specified');
     }
@@ -152,25 +355,97 @@ export class TownsController extends Controller {
     if (!town) {
       throw new InvalidParametersError('Invalid values specified');
     }
-    if (!town?.getPlayerBySessionToken(sessionToken)) {
+    const player = town.getPlayerBySessionToken(sessionToken);
+    if (!player) {
       throw new InvalidParametersError('Invalid values specified');
     }
+    if (requestBody.video && !town.hasPermission(player, 'changeViewingAreaVideo')) {
+      throw new InvalidParametersError(PERMISSION_DENIED_MESSAGE);
+    }
     const success = town.addViewingArea({ ...requestBody, type: 'ViewingArea' });
     if (!success) {
       throw new InvalidParametersError('Invalid values specified');
     }
   }
 
+  /**
+   * Retrieves a page of the chat history of a town: the messages sent to the whole town, and the
+   * messages sent to areas that the player received. Pages go backwards from the most recent
+   * messages; pass the nextCursor of one page as `before` to get the page before it.
+   *
+   * @param townID ID of the town
+   * @param sessionToken session token of the player making the request, must match the session token
+   *        returned when the player joined the town
+   * @param before the cursor of the page to get the messages before, if not the most recent page
+   * @param limit the most messages to return, defaults to 50
+   * @isInt limit
+   * @minimum limit 1
+   * @maximum limit 200
+   *
+   * @returns the page of messages, oldest first
+   * @throws InvalidParametersError if the session token or cursor is not valid
+   */
+  @Get('{townID}/chat')
+  @Response<InvalidParametersError>(400, 'Invalid values specified')
+  public async getChatHistory(
+    @Path() townID: string,
+    @Header('X-Session-Token') sessionToken: string,
+    @Query() before?: string,
+    @Query() limit?: number,
+  ): Promise<ChatHistoryPage> {
+    const town = this._townsStore.getTownByID(townID);
+    const player = town?.getPlayerBySessionToken(sessionToken);
+    if (!town || !player) {
+      throw new InvalidParametersError('Invalid values specified');
+    }
+    return town.chatLog.page(player.id, { before, limit });
+  }
+
+  /**
+   * Changes how many chat messages a town keeps, and for how long. Messages beyond the new limits are
+   * forgotten immediately.
+   *
+   * @param townID ID of the town to configure
+   * @param townUpdatePassword town update password, must match the password returned by createTown
+   * @param requestBody The new retention limits
+   */
+  @Put('{townID}/chat/retention')
+  @Response<InvalidParametersError>(400, 'Invalid password or retention specified')
+  public async setChatRetention(
+    @Path() townID: string,
+    @Header('X-CoveyTown-Password') townUpdatePassword: string,
+    @Body() requestBody: ChatRetention,
+  ): Promise<void> {
+    const success = await this._townsStore.setChatRetention(
+      townID,
+      townUpdatePassword,
+      requestBody,
+    );
+    if (!success) {
+      throw new InvalidParametersError('Invalid password or retention specified');
+    }
+  }
+
   /**
    * Connects a client's socket to the requested town, or disconnects the socket if no such town exists
    *
+   * If the socket's auth object also includes the sessionToken of a player who is still in the town
+   * (for example, one whose previous socket dropped and who is within the town's reconnect grace period),
+   * that player's session is resumed on this socket rather than a new player being created. If it includes
+   * the town's townUpdatePassword, the new player joins as the town's owner.
+   *
    * @param socket A new socket connection, with the userName and townID parameters of the socket's
    * auth object configured with the desired townID to join and username to use
    *
    */
   public async joinTown(socket: CoveyTownSocket) {
     // Parse the client's requested username from the connection
-    const { userName, townID } = socket.handshake.auth as { userName: string; townID: string };
+    const { userName, townID, sessionToken, townUpdatePassword } = socket.handshake.auth as {
+      userName: string;
+      townID: string;
+      sessionToken?: string;
+      townUpdatePassword?: string;
+    };
 
     const town = this._townsStore.getTownByID(townID);
     if (!town) {
@@ -178,10 +453,62 @@ export class TownsController extends Controller {
       return;
     }
 
+    if (this._rejectBannedClient(town, socket)) {
+      return;
+    }
+
+    const role: PlayerRole | undefined =
+      townUpdatePassword && this._townsStore.isTownUpdatePassword(townID, townUpdatePassword)
+        ? 'owner'
+        : undefined;
+    const resumedPlayer = sessionToken ? town.resumePlayer(sessionToken, socket) : undefined;
+    if (!resumedPlayer && town.isFull) {
+      // Hold the client on the waitlist until a slot frees up
+      town.joinWaitlist(socket, () => this._admitToTown(town, socket, userName, role));
+      return;
+    }
+    await this._admitToTown(town, socket, userName, role, resumedPlayer);
+  }
+
+  /**
+   * Informs a client that has been banned from a town that it may not join, and disconnects it
+   *
+   * @returns true if the client has been banned
+   */
+  private _rejectBannedClient(town: CoveyTown, socket: CoveyTownSocket): boolean {
+    if (!town.isClientBanned(socket)) {
+      return false;
+    }
+    socket.emit('removedFromTown', { isBan: true });
+    socket.disconnect(true);
+    return true;
+  }
+
+  /**
+   * Connects a client's socket to a town, adding a new player to the town (unless the client has resumed
+   * an existing player's session), and sends the client the initial data for the town
+   *
+   * @param town the town to connect to
+   * @param socket the client's socket
+   * @param userName the username requested by the client
+   * @param role the role to give a new player, if not the town's default role
+   * @param resumedPlayer the player whose session the client resumed, if any
+   */
+  private async _admitToTown(
+    town: CoveyTown,
+    socket: CoveyTownSocket,
+    userName: string,
+    role?: PlayerRole,
+    resumedPlayer?: Player,
+  ): Promise<void> {
+    // A client may have been banned while it waited for a slot
+    if (this._rejectBannedClient(town, socket)) {
+      return;
+    }
     // Connect the client to the socket.io broadcast room for this town
     socket.join(town.townID);
 
-    const newPlayer = await town.addPlayer(userName, socket);
+    const newPlayer = resumedPlayer || (await town.addPlayer(userName, socket, role));
     assert(newPlayer.videoToken);
     socket.emit('initialize', {
       userID: newPlayer.id,
@@ -191,6 +518,7 @@ export class TownsController extends Controller {
       friendlyName: town.friendlyName,
       isPubliclyListed: town.isPubliclyListed,
       interactables: town.interactables.map(eachInteractable => eachInteractable.toModel()),
+      chatHistory: town.chatLog.recent(newPlayer.id),
     });
   }
 }
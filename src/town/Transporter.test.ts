@@ -0,0 +1,80 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { nanoid } from 'nanoid';
+import Transporter from './Transporter';
+
+describe('Transporter', () => {
+  const transporterObject: ITiledMapObject = {
+    type: 'Transporter',
+    height: 100,
+    id: 1,
+    name: nanoid(),
+    properties: [{ name: 'target', type: 'object', value: 2 }],
+    rotation: 0,
+    visible: true,
+    width: 40,
+    x: 200,
+    y: 100,
+  };
+  const targetObject: ITiledMapObject = {
+    type: '',
+    height: 0,
+    id: 2,
+    name: 'upstairs_target',
+    point: true,
+    rotation: 0,
+    visible: true,
+    width: 0,
+    x: 500,
+    y: 600,
+  };
+  describe('fromMapObject', () => {
+    it('Creates a transporter with the bounds of the object and the location of its target', () => {
+      const transporter = Transporter.fromMapObject(transporterObject, [
+        transporterObject,
+        targetObject,
+      ]);
+      expect(transporter.name).toEqual(transporterObject.name);
+      expect(transporter.boundingBox).toEqual({ x: 200, y: 100, width: 40, height: 100 });
+      expect(transporter.target).toEqual({ x: 500, y: 600 });
+    });
+    it('Throws an error if the target object does not exist', () => {
+      expect(() =>
+        Transporter.fromMapObject(transporterObject, [transporterObject]),
+      ).toThrowError();
+    });
+    it('Throws an error if the object has no target property', () => {
+      expect(() =>
+        Transporter.fromMapObject({ ...transporterObject, properties: [] }, [
+          transporterObject,
+          targetObject,
+        ]),
+      ).toThrowError();
+    });
+    it('Throws an error if the object has no bounds', () => {
+      expect(() =>
+        Transporter.fromMapObject({ ...transporterObject, width: 0 }, [
+          transporterObject,
+          targetObject,
+        ]),
+      ).toThrowError();
+    });
+  });
+  describe('contains', () => {
+    const transporter = new Transporter(
+      nanoid(),
+      { x: 200, y: 100, width: 40, height: 100 },
+      {
+        x: 0,
+        y: 0,
+      },
+    );
+    it('Contains players who overlap the transporter', () => {
+      expect(transporter.contains({ x: 220, y: 150, rotation: 'front', moving: true })).toBe(true);
+      expect(transporter.contains({ x: 190, y: 150, rotation: 'front', moving: true })).toBe(true);
+    });
+    it('Does not contain players who do not overlap the transporter', () => {
+      expect(transporter.contains({ x: 180, y: 150, rotation: 'front', moving: true })).toBe(false);
+      expect(transporter.contains({ x: 220, y: 300, rotation: 'front', moving: true })).toBe(false);
+    });
+  });
+});
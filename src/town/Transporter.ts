@@ -0,0 +1,86 @@
+import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { BoundingBox, PlayerLocation } from '../types/CoveyTownSocket';
+import { PLAYER_SPRITE_HEIGHT, PLAYER_SPRITE_WIDTH } from './InteractableArea';
+
+/** The name of the map object at which new players are placed when they join a town */
+export const SPAWN_POINT_NAME = 'Spawn Point';
+
+/** A point on the map, such as a spawn point or the target of a transporter */
+export type MapPoint = { x: number; y: number };
+
+/**
+ * A region of the map (such as a staircase or a portal) that moves any player who enters it to a
+ * target point elsewhere on the map. Created from a map object of type Transporter, whose target is
+ * given by its `target` object property.
+ */
+export default class Transporter {
+  private readonly _name: string;
+
+  private readonly _boundingBox: BoundingBox;
+
+  private readonly _target: MapPoint;
+
+  public get name(): string {
+    return this._name;
+  }
+
+  public get boundingBox(): BoundingBox {
+    return this._boundingBox;
+  }
+
+  public get target(): MapPoint {
+    return this._target;
+  }
+
+  public constructor(name: string, boundingBox: BoundingBox, target: MapPoint) {
+    this._name = name;
+    this._boundingBox = boundingBox;
+    this._target = target;
+  }
+
+  /**
+   * Tests if a player has entered this transporter: if any part of the player is within it. As for
+   * InteractableArea, the location is the center of a player of PLAYER_SPRITE_WIDTH by PLAYER_SPRITE_HEIGHT.
+   *
+   * @param location location to check
+   * @returns true if a player at the location is in this transporter
+   */
+  public contains(location: PlayerLocation): boolean {
+    const { x, y, width, height } = this._boundingBox;
+    return (
+      location.x + PLAYER_SPRITE_WIDTH / 2 > x &&
+      location.x - PLAYER_SPRITE_WIDTH / 2 < x + width &&
+      location.y + PLAYER_SPRITE_HEIGHT / 2 > y &&
+      location.y - PLAYER_SPRITE_HEIGHT / 2 < y + height
+    );
+  }
+
+  /**
+   * Creates a transporter from a map object
+   *
+   * @param mapObject the Transporter object
+   * @param mapObjects all of the objects on the same map, which must include the transporter's target
+   * @throws Error if the object has no bounds, or its target property does not refer to another object
+   */
+  public static fromMapObject(
+    mapObject: ITiledMapObject,
+    mapObjects: ITiledMapObject[],
+  ): Transporter {
+    const { name, width, height } = mapObject;
+    if (!width || !height) {
+      throw new Error(`Malformed transporter ${name}`);
+    }
+    const targetID = mapObject.properties?.find(
+      eachProperty => eachProperty.name === 'target',
+    )?.value;
+    const target = mapObjects.find(eachObject => eachObject.id === targetID);
+    if (targetID === undefined || !target) {
+      throw new Error(`Transporter ${name} does not have a valid target object`);
+    }
+    return new Transporter(
+      name,
+      { x: mapObject.x, y: mapObject.y, width, height },
+      { x: target.x, y: target.y },
+    );
+  }
+}
@@ -3,7 +3,7 @@ import { nanoid } from 'nanoid';
 import Player from '../lib/Player';
 import { getLastEmittedEvent } from '../TestUtils';
 import { PlayerID, TownEmitter } from '../types/CoveyTownSocket';
-import ViewingArea from './ViewingArea';
+import ViewingArea, { SEEK_TOLERANCE_SEC } from './ViewingArea';
 
 describe('ViewingArea', () => {
   const testAreaBox = { x: 100, y: 100, width: 100, height: 100 };
@@ -17,6 +17,8 @@ describe('ViewingArea', () => {
   const occupants: PlayerID[] = [];
 
   beforeEach(() => {
+    // The area's clock advances with the (fake) time while its video plays
+    jest.useFakeTimers();
     mockClear(townEmitter);
     testArea = new ViewingArea(
       { id, isPlaying, elapsedTimeSec, video, occupants },
@@ -26,6 +28,9 @@ describe('ViewingArea', () => {
     newPlayer = new Player(nanoid(), mock<TownEmitter>());
     testArea.add(newPlayer);
   });
+  afterEach(() => {
+    jest.useRealTimers();
+  });
 
   describe('remove', () => {
     it('Removes the player from the list of occupants and emits an interactableUpdate event', () => {
@@ -42,38 +47,72 @@ describe('ViewingArea', () => {
         elapsedTimeSec,
         video,
         occupants: [extraPlayer.id],
+        queue: [],
+        skipVotes: [],
         type: 'ViewingArea',
       });
     });
-    it("Clears the player's conversationLabel and emits an update for their location", () => {
+    it("Clears the player's conversationLabel, leaving the town to send their movement", () => {
       testArea.remove(newPlayer);
       expect(newPlayer.location.interactableID).toBeUndefined();
-      const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-      expect(lastEmittedMovement.location.interactableID).toBeUndefined();
+      expect(() => getLastEmittedEvent(townEmitter, 'playersMoved')).toThrowError();
     });
-    it('Clears the video property when the last occupant leaves', () => {
+    it('Clears the video and everything about it when the last occupant leaves', () => {
+      testArea.setMetadata(video, { title: 'A video', durationSec: 600 });
       testArea.remove(newPlayer);
       const lastEmittedUpdate = getLastEmittedEvent(townEmitter, 'interactableUpdate');
       expect(lastEmittedUpdate).toEqual({
         id,
-        isPlaying,
-        elapsedTimeSec,
+        isPlaying: false,
+        elapsedTimeSec: 0,
         video: undefined,
+        title: undefined,
+        durationSec: undefined,
         occupants: [],
+        queue: [],
+        skipVotes: [],
         type: 'ViewingArea',
       });
       expect(testArea.video).toBeUndefined();
     });
+    describe('When the area has a default video', () => {
+      const defaultVideo = nanoid();
+      beforeEach(() => {
+        testArea.options = { defaultVideo, autoplay: true, loop: true };
+      });
+      it('Reverts to the default video from the beginning when the last occupant leaves', () => {
+        testArea.updateModel({ ...testArea.toModel(), isPlaying: false });
+        testArea.remove(newPlayer);
+        expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toEqual({
+          id,
+          isPlaying: true,
+          elapsedTimeSec: 0,
+          video: defaultVideo,
+          loop: true,
+          occupants: [],
+          queue: [],
+          skipVotes: [],
+          type: 'ViewingArea',
+        });
+      });
+      it('Keeps the progress of the default video if it was already showing', () => {
+        testArea.updateModel({ ...testArea.toModel(), video: defaultVideo });
+        testArea.options = { defaultVideo };
+        testArea.remove(newPlayer);
+        expect(testArea.video).toEqual(defaultVideo);
+        expect(testArea.elapsedTimeSec).toEqual(elapsedTimeSec);
+        expect(testArea.isPlaying).toBe(false);
+      });
+    });
   });
   describe('add', () => {
     it('Adds the player to the occupants list', () => {
       expect(testArea.occupantsByID).toEqual([newPlayer.id]);
     });
-    it("Sets the player's conversationLabel and emits an update for their location", () => {
+    it("Sets the player's conversationLabel, leaving the town to send their movement", () => {
       expect(newPlayer.location.interactableID).toEqual(id);
 
-      const lastEmittedMovement = getLastEmittedEvent(townEmitter, 'playerMoved');
-      expect(lastEmittedMovement.location.interactableID).toEqual(id);
+      expect(() => getLastEmittedEvent(townEmitter, 'playersMoved')).toThrowError();
     });
   });
   test('toModel sets the ID, video, isPlaying, occupants, and elapsedTimeSec', () => {
@@ -84,6 +123,8 @@ describe('ViewingArea', () => {
       elapsedTimeSec,
       isPlaying,
       occupants: [newPlayer.id],
+      queue: [],
+      skipVotes: [],
       type: 'ViewingArea',
     });
   });
@@ -101,6 +142,251 @@ describe('ViewingArea', () => {
     expect(testArea.elapsedTimeSec).toBe(150);
     expect(testArea.video).toBe('test2');
   });
+  describe('playback clock', () => {
+    it('Advances the position of the video while it plays', () => {
+      jest.advanceTimersByTime(5000);
+      expect(testArea.elapsedTimeSec).toEqual(elapsedTimeSec + 5);
+      expect(testArea.toModel().elapsedTimeSec).toEqual(elapsedTimeSec + 5);
+    });
+    it('Holds the position of the video while it is paused, and resumes from there', () => {
+      jest.advanceTimersByTime(2000);
+      testArea.pause();
+      jest.advanceTimersByTime(5000);
+      expect(testArea.elapsedTimeSec).toEqual(elapsedTimeSec + 2);
+      testArea.play();
+      jest.advanceTimersByTime(1000);
+      expect(testArea.elapsedTimeSec).toEqual(elapsedTimeSec + 3);
+    });
+    it('Ignores positions reported by clients that are within the seek tolerance', () => {
+      jest.advanceTimersByTime(3000);
+      testArea.updateModel({
+        ...testArea.toModel(),
+        elapsedTimeSec: elapsedTimeSec + 3 - SEEK_TOLERANCE_SEC,
+      });
+      expect(testArea.elapsedTimeSec).toEqual(elapsedTimeSec + 3);
+    });
+    it('Treats positions further from its clock as seeks', () => {
+      testArea.updateModel({ ...testArea.toModel(), elapsedTimeSec: 60 });
+      jest.advanceTimersByTime(1000);
+      expect(testArea.elapsedTimeSec).toEqual(61);
+      expect(testArea.isPlaying).toBe(true);
+    });
+    it('Pauses at its own position when a client pauses', () => {
+      jest.advanceTimersByTime(4000);
+      testArea.updateModel({
+        ...testArea.toModel(),
+        isPlaying: false,
+        elapsedTimeSec: elapsedTimeSec + 5,
+      });
+      jest.advanceTimersByTime(4000);
+      expect(testArea.isPlaying).toBe(false);
+      expect(testArea.elapsedTimeSec).toEqual(elapsedTimeSec + 4);
+    });
+    it('Pauses exactly at the position that a client seeks to while pausing', () => {
+      // The clock keeps moving while the update is applied
+      const start = Date.now();
+      let calls = 0;
+      jest.spyOn(Date, 'now').mockImplementation(() => {
+        calls += 1;
+        return start + calls;
+      });
+      testArea.updateModel({ ...testArea.toModel(), isPlaying: false, elapsedTimeSec: 100 });
+      jest.mocked(Date.now).mockRestore();
+      expect(testArea.elapsedTimeSec).toEqual(100);
+    });
+    it('Starts a new video from the position the client gives', () => {
+      jest.advanceTimersByTime(4000);
+      testArea.updateModel({ ...testArea.toModel(), video: 'other', elapsedTimeSec: 0 });
+      expect(testArea.video).toEqual('other');
+      expect(testArea.elapsedTimeSec).toEqual(0);
+    });
+    it('Reports its clock along with the time on the server', () => {
+      jest.advanceTimersByTime(1500);
+      expect(testArea.toPlaybackSync()).toEqual({
+        interactableID: id,
+        video,
+        isPlaying,
+        elapsedTimeSec: elapsedTimeSec + 1.5,
+        serverTime: Date.now(),
+      });
+    });
+    it('Emits the resulting state to the town after a ViewingAreaUpdate command', () => {
+      testArea.handleCommand(
+        {
+          type: 'ViewingAreaUpdate',
+          update: { ...testArea.toModel(), isPlaying: false },
+        },
+        newPlayer,
+      );
+      expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toMatchObject({
+        isPlaying: false,
+        elapsedTimeSec,
+      });
+    });
+  });
+  describe('playlist', () => {
+    let secondPlayer: Player;
+    let thirdPlayer: Player;
+    beforeEach(() => {
+      secondPlayer = new Player(nanoid(), mock<TownEmitter>());
+      thirdPlayer = new Player(nanoid(), mock<TownEmitter>());
+      testArea.add(secondPlayer);
+      testArea.add(thirdPlayer);
+    });
+    function enqueue(queuedVideo: string, player = newPlayer, durationSec?: number): string {
+      const { itemID } = testArea.handleCommand(
+        { type: 'PlaylistEnqueue', video: queuedVideo },
+        player,
+      );
+      if (durationSec !== undefined) {
+        // As the town's media policy would, once it resolves the video's metadata
+        testArea.setMetadata(queuedVideo, { durationSec });
+      }
+      return itemID;
+    }
+    it('Queues videos behind the current one, and emits the queue', () => {
+      const itemID = enqueue('first');
+      expect(testArea.video).toEqual(video);
+      expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toMatchObject({
+        queue: [{ id: itemID, video: 'first', addedBy: newPlayer.id, votes: [] }],
+      });
+    });
+    it('Plays an enqueued video straight away if there is no video', () => {
+      testArea.loadVideo(undefined, 0, false);
+      enqueue('first', newPlayer, 60);
+      expect(testArea.video).toEqual('first');
+      expect(testArea.isPlaying).toBe(true);
+      expect(testArea.queue).toEqual([]);
+    });
+    it('Rejects commands from players who are not in the area', () => {
+      expect(() => enqueue('first', new Player(nanoid(), mock<TownEmitter>()))).toThrowError(
+        'Player is not in this viewing area',
+      );
+    });
+    it('Orders the queue by votes, and then by when each video was added', () => {
+      const first = enqueue('first');
+      const second = enqueue('second');
+      const third = enqueue('third');
+      testArea.handleCommand({ type: 'PlaylistVote', itemID: third }, newPlayer);
+      testArea.handleCommand({ type: 'PlaylistVote', itemID: third }, newPlayer);
+      testArea.handleCommand({ type: 'PlaylistVote', itemID: second }, secondPlayer);
+      expect(testArea.queue.map(eachItem => eachItem.id)).toEqual([third, second, first]);
+      testArea.handleCommand({ type: 'PlaylistVote', itemID: first }, secondPlayer);
+      testArea.handleCommand({ type: 'PlaylistVote', itemID: first }, thirdPlayer);
+      expect(testArea.queue.map(eachItem => eachItem.id)).toEqual([first, third, second]);
+      expect(testArea.queue[1].votes).toEqual([newPlayer.id]);
+      expect(() =>
+        testArea.handleCommand({ type: 'PlaylistVote', itemID: 'missing' }, newPlayer),
+      ).toThrowError('No such video in the playlist');
+    });
+    it('Removes videos from the queue', () => {
+      const first = enqueue('first');
+      const second = enqueue('second');
+      testArea.handleCommand({ type: 'PlaylistRemove', itemID: first }, newPlayer);
+      expect(testArea.queue.map(eachItem => eachItem.id)).toEqual([second]);
+    });
+    it('Skips the current video once a majority of the occupants vote to skip it', () => {
+      enqueue('first');
+      testArea.handleCommand({ type: 'PlaylistSkip' }, newPlayer);
+      testArea.handleCommand({ type: 'PlaylistSkip' }, newPlayer);
+      expect(testArea.video).toEqual(video);
+      expect(testArea.toModel().skipVotes).toEqual([newPlayer.id]);
+      testArea.handleCommand({ type: 'PlaylistSkip' }, secondPlayer);
+      expect(testArea.video).toEqual('first');
+      expect(testArea.elapsedTimeSec).toEqual(0);
+      expect(testArea.toModel().skipVotes).toEqual([]);
+    });
+    it('Skips the current video when an occupant leaves, if the remaining voters are a majority', () => {
+      testArea.handleCommand({ type: 'PlaylistSkip' }, newPlayer);
+      testArea.remove(thirdPlayer);
+      expect(testArea.video).toEqual(video);
+      expect(testArea.toModel().skipVotes).toEqual([newPlayer.id]);
+      testArea.remove(secondPlayer);
+      expect(testArea.video).toBeUndefined();
+    });
+    it('Plays the next video when the clock reaches the end of the current one', () => {
+      testArea.loadVideo(undefined, 0, false);
+      enqueue('first', newPlayer, 30);
+      enqueue('second');
+      jest.advanceTimersByTime(29000);
+      expect(testArea.advanceIfEnded()).toBe(false);
+      jest.advanceTimersByTime(1000);
+      expect(testArea.advanceIfEnded()).toBe(true);
+      expect(testArea.video).toEqual('second');
+      expect(getLastEmittedEvent(townEmitter, 'interactableUpdate')).toMatchObject({
+        video: 'second',
+      });
+      jest.advanceTimersByTime(60 * 60 * 1000);
+      // The length of the second video is not known, so only clients can report that it ended
+      expect(testArea.advanceIfEnded()).toBe(false);
+    });
+    it('Reverts to the default video, or no video, when the queue runs out', () => {
+      testArea.options = { defaultVideo: 'ambient', autoplay: true };
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video }, newPlayer);
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video }, secondPlayer);
+      expect(testArea.video).toEqual('ambient');
+      expect(testArea.isPlaying).toBe(true);
+      testArea.options = {};
+      testArea.playNext();
+      expect(testArea.video).toBeUndefined();
+    });
+    it('Advances once when clients report that the video ended, and only near its end', () => {
+      testArea.loadVideo(undefined, 0, false);
+      enqueue('first', newPlayer, 30);
+      enqueue('second');
+      enqueue('third');
+      expect(() =>
+        testArea.handleCommand({ type: 'PlaylistVideoEnded', video: 'first' }, newPlayer),
+      ).toThrowError('The video has not ended');
+      jest.advanceTimersByTime(29000);
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video: 'first' }, newPlayer);
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video: 'first' }, secondPlayer);
+      expect(testArea.video).toEqual('second');
+    });
+    it('Advances a video of unknown length only once a majority of the occupants report its end', () => {
+      enqueue('first');
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video }, newPlayer);
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video }, newPlayer);
+      expect(testArea.video).toEqual(video);
+      testArea.remove(thirdPlayer);
+      expect(testArea.video).toEqual(video);
+      testArea.handleCommand({ type: 'PlaylistVideoEnded', video }, secondPlayer);
+      expect(testArea.video).toEqual('first');
+    });
+    it('Clears the queue when the last occupant leaves', () => {
+      enqueue('first');
+      testArea.remove(newPlayer);
+      testArea.remove(secondPlayer);
+      testArea.remove(thirdPlayer);
+      expect(testArea.queue).toEqual([]);
+    });
+  });
+  describe('setMetadata', () => {
+    it('Records the metadata of the current video and queued copies of it, and emits it', () => {
+      testArea.handleCommand({ type: 'PlaylistEnqueue', video }, newPlayer);
+      expect(testArea.setMetadata(video, { title: 'A video', durationSec: 90 })).toBe(true);
+      const model = getLastEmittedEvent(townEmitter, 'interactableUpdate');
+      expect(model).toMatchObject({
+        title: 'A video',
+        durationSec: 90,
+        queue: [{ video, title: 'A video', durationSec: 90 }],
+      });
+      jest.advanceTimersByTime(80000);
+      expect(testArea.hasEnded).toBe(true);
+    });
+    it('Ignores metadata of videos that are no longer in the area, and empty metadata', () => {
+      mockClear(townEmitter);
+      expect(testArea.setMetadata('other', { title: 'Other' })).toBe(false);
+      expect(testArea.setMetadata(video, {})).toBe(false);
+      expect(testArea.toModel().title).toBeUndefined();
+      expect(() => getLastEmittedEvent(townEmitter, 'interactableUpdate')).toThrowError();
+    });
+    it('Forgets the metadata of the previous video when the video changes', () => {
+      testArea.setMetadata(video, { title: 'A video' });
+      testArea.loadVideo('other', 0, true);
+      expect(testArea.toModel().title).toBeUndefined();
+    });
+  });
   describe('fromMapObject', () => {
     it('Throws an error if the width or height are missing', () => {
       expect(() =>
@@ -127,5 +413,57 @@ describe('ViewingArea', () => {
       expect(val.video).toBeUndefined();
       expect(val.occupantsByID).toEqual([]);
     });
+    it('Starts with the default video, loop and autoplay options from the map properties', () => {
+      const val = ViewingArea.fromMapObject(
+        {
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          name: 'Fish tank',
+          id: 10,
+          visible: true,
+          properties: [
+            { name: 'video', type: 'string', value: 'https://www.youtube.com/watch?v=l40Ef1dg-6s' },
+            { name: 'loop', type: 'bool', value: true },
+            { name: 'autoplay', type: 'bool', value: true },
+          ],
+        },
+        townEmitter,
+      );
+      expect(val.options).toEqual({
+        defaultVideo: 'https://www.youtube.com/watch?v=l40Ef1dg-6s',
+        loop: true,
+        autoplay: true,
+      });
+      expect(val.toModel()).toMatchObject({
+        video: 'https://www.youtube.com/watch?v=l40Ef1dg-6s',
+        isPlaying: true,
+        elapsedTimeSec: 0,
+        loop: true,
+      });
+    });
+    it('Does not autoplay without a default video, and ignores properties of the wrong type', () => {
+      const val = ViewingArea.fromMapObject(
+        {
+          x: 0,
+          y: 0,
+          width: 10,
+          height: 10,
+          name: 'TV',
+          id: 10,
+          visible: true,
+          properties: [
+            { name: 'video', type: 'string', value: '' },
+            { name: 'loop', type: 'string', value: 'yes' },
+            { name: 'autoplay', type: 'bool', value: true },
+          ],
+        },
+        townEmitter,
+      );
+      expect(val.video).toBeUndefined();
+      expect(val.isPlaying).toBe(false);
+      expect(val.options.loop).toBeUndefined();
+    });
   });
 });
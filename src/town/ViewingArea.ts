@@ -1,4 +1,5 @@
 import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
+import { nanoid } from 'nanoid';
 import InvalidParametersError from '../lib/InvalidParametersError';
 import Player from '../lib/Player';
 import {
@@ -6,74 +7,331 @@ import {
   InteractableCommand,
   InteractableCommandReturnType,
   InteractableID,
+  MediaMetadata,
+  PlayerID,
+  PlaylistEnqueueCommand,
+  PlaylistItem,
+  PlaylistVideoEndedCommand,
+  PlaylistVoteCommand,
   TownEmitter,
   ViewingArea as ViewingAreaModel,
+  ViewingAreaPlaybackSync,
   ViewingAreaUpdateCommand,
 } from '../types/CoveyTownSocket';
+import { AreaShape, areaGeometryFromMapObject } from './AreaGeometry';
 import InteractableArea from './InteractableArea';
 
+/**
+ * How a viewing area behaves when nobody has chosen a video for it, as configured by the `video`,
+ * `loop` and `autoplay` properties of its map object
+ */
+export type ViewingAreaOptions = {
+  /** The video that the area shows when it is empty, rather than no video */
+  defaultVideo?: string;
+  /** Whether clients should restart the video when it ends */
+  loop?: boolean;
+  /** Whether the default video plays without anyone pressing play */
+  autoplay?: boolean;
+};
+
+/**
+ * An update that moves the position of a video by at most this many seconds is taken to be a client
+ * reporting (slightly drifted) progress, rather than a request to seek
+ */
+export const SEEK_TOLERANCE_SEC = 2;
+
+/** The most videos that may wait in the playlist of a viewing area */
+export const MAX_PLAYLIST_LENGTH = 100;
+
+/**
+ * A viewing area keeps the clock of its video: rather than storing the progress last reported by a
+ * client, it stores the position of the video at the moment it was last played, paused or seeked (its
+ * anchor), and computes the current position from the time that has passed since then.
+ *
+ * Occupants can also queue up videos to play next. The queue is ordered by upvotes (and then by when
+ * each video was added); the next video plays when the current one ends, or when a majority of the
+ * occupants vote to skip it.
+ */
 export default class ViewingArea extends InteractableArea {
   private _video?: string;
 
+  private _options: ViewingAreaOptions;
+
   private _isPlaying: boolean;
 
-  private _elapsedTimeSec: number;
+  /** The position (in seconds) of the video at the anchor time */
+  private _anchorPositionSec: number;
+
+  /** The time (in ms since the epoch) at which the video was last played, paused or seeked */
+  private _anchorTime: number;
+
+  /** The title of the current video, if known */
+  private _title?: string;
+
+  /** The length of the current video, if known */
+  private _durationSec?: number;
+
+  private _queue: PlaylistItem[] = [];
+
+  private _skipVotes: PlayerID[] = [];
+
+  /** The occupants who have reported that the current video ended, while its length is not known */
+  private _endReports: PlayerID[] = [];
 
   public get video() {
     return this._video;
   }
 
+  /** The current position of the video, which advances while it is playing */
   public get elapsedTimeSec() {
-    return this._elapsedTimeSec;
+    if (!this._isPlaying) {
+      return this._anchorPositionSec;
+    }
+    return this._anchorPositionSec + (Date.now() - this._anchorTime) / 1000;
   }
 
   public get isPlaying() {
     return this._isPlaying;
   }
 
+  public get queue(): PlaylistItem[] {
+    return this._queue;
+  }
+
+  /** True if the length of the current video is known, and the clock has reached it */
+  public get hasEnded(): boolean {
+    return this._durationSec !== undefined && this.elapsedTimeSec >= this._durationSec;
+  }
+
+  public get options(): ViewingAreaOptions {
+    return this._options;
+  }
+
+  /**
+   * Changes the options of this area (when the town's map is replaced). The current video is kept
+   * until the area empties.
+   */
+  public set options(options: ViewingAreaOptions) {
+    this._options = options;
+  }
+
   /**
    * Creates a new ViewingArea
    *
    * @param viewingArea model containing this area's starting state
    * @param coordinates the bounding box that defines this viewing area
    * @param townEmitter a broadcast emitter that can be used to emit updates to players
+   * @param shape the shape of this viewing area within its bounding box, a rectangle by default
+   * @param options the default video of this area, and how to play it
    */
   public constructor(
     { id, isPlaying, elapsedTimeSec: progress, video }: Omit<ViewingAreaModel, 'type'>,
     coordinates: BoundingBox,
     townEmitter: TownEmitter,
+    shape?: AreaShape,
+    options: ViewingAreaOptions = {},
   ) {
-    super(id, coordinates, townEmitter);
+    super(id, coordinates, townEmitter, shape);
     this._video = video;
-    this._elapsedTimeSec = progress;
     this._isPlaying = isPlaying;
+    this._anchorPositionSec = progress;
+    this._anchorTime = Date.now();
+    this._options = options;
+  }
+
+  /**
+   * Moves the video to a position, keeping it playing or paused
+   *
+   * @param positionSec the new position of the video, in seconds
+   */
+  public seek(positionSec: number): void {
+    this._anchorPositionSec = Math.max(0, positionSec);
+    this._anchorTime = Date.now();
+  }
+
+  /** Plays the video from its current position */
+  public play(): void {
+    if (!this._isPlaying) {
+      this.seek(this.elapsedTimeSec);
+      this._isPlaying = true;
+    }
+  }
+
+  /** Pauses the video at its current position */
+  public pause(): void {
+    if (this._isPlaying) {
+      this.seek(this.elapsedTimeSec);
+      this._isPlaying = false;
+    }
+  }
+
+  /**
+   * Changes the video that this area shows, starting it from a position. Any votes to skip the
+   * previous video are discarded.
+   *
+   * @param video the new video, or undefined for no video
+   * @param positionSec where to start the video
+   * @param isPlaying whether the video starts playing, or starts paused
+   * @param metadata the title and length of the video, if known
+   */
+  public loadVideo(
+    video: string | undefined,
+    positionSec: number,
+    isPlaying: boolean,
+    { title, durationSec }: MediaMetadata = {},
+  ): void {
+    this._video = video;
+    this._isPlaying = isPlaying;
+    this._title = title;
+    this._durationSec = durationSec;
+    this._skipVotes = [];
+    this._endReports = [];
+    this.seek(positionSec);
+  }
+
+  /**
+   * Records the metadata of a video once it has been resolved, for the current video and any queued
+   * copies of it, and emits the update to all of the players. Metadata of a video that has since
+   * left the area is ignored.
+   *
+   * @param video the video that the metadata describes
+   * @param metadata its title and length, as resolved by the town's media policy
+   * @returns true if the area was updated: there was some metadata, and the video is still here
+   */
+  public setMetadata(video: string, { title, durationSec }: MediaMetadata): boolean {
+    if (title === undefined && durationSec === undefined) {
+      return false;
+    }
+    let found = false;
+    if (this._video === video) {
+      this._title = title ?? this._title;
+      this._durationSec = durationSec ?? this._durationSec;
+      if (durationSec !== undefined) {
+        // Once the length is known, the area's clock decides when the video ends
+        this._endReports = [];
+      }
+      found = true;
+    }
+    this._queue = this._queue.map(eachItem => {
+      if (eachItem.video !== video) {
+        return eachItem;
+      }
+      found = true;
+      return {
+        ...eachItem,
+        title: title ?? eachItem.title,
+        durationSec: durationSec ?? eachItem.durationSec,
+      };
+    });
+    if (found) {
+      this._emitAreaChanged();
+    }
+    return found;
+  }
+
+  /**
+   * Plays the video at the front of the queue. If the queue is empty, reverts to the default video
+   * (if any), or clears the video.
+   */
+  public playNext(): void {
+    const [next, ...rest] = this._queue;
+    if (next) {
+      this._queue = rest;
+      this.loadVideo(next.video, 0, true, next);
+    } else {
+      const { defaultVideo, autoplay } = this._options;
+      this.loadVideo(defaultVideo, 0, defaultVideo !== undefined && !!autoplay);
+    }
+  }
+
+  /**
+   * Plays the next video if the current one has ended according to this area's clock, and emits the
+   * update to all of the players
+   *
+   * @returns true if the playlist advanced
+   */
+  public advanceIfEnded(): boolean {
+    if (!this.hasEnded) {
+      return false;
+    }
+    this.playNext();
+    this._emitAreaChanged();
+    return true;
   }
 
   /**
    * Removes a player from this viewing area.
    *
-   * When the last player leaves, this method clears the video of this area and
-   * emits that update to all of the players
+   * The player's vote to skip the current video (and any report that it ended) is withdrawn, which
+   * may leave a majority of the remaining occupants voting to skip it (or reporting that it ended).
+   *
+   * When the last player leaves, this method clears the queue and the video, or reverts the area to
+   * its default video if it has one (starting it from the beginning if it was showing another video,
+   * and playing it if the area autoplays), and emits that update to all of the players
    *
    * @param player
    */
   public remove(player: Player): void {
+    this._skipVotes = this._skipVotes.filter(eachVoter => eachVoter !== player.id);
+    this._endReports = this._endReports.filter(eachReporter => eachReporter !== player.id);
     super.remove(player);
+    if (this._occupants.length > 0 && (this._skipVotePassed() || this._endReportsPassed())) {
+      this.playNext();
+      this._emitAreaChanged();
+    }
     if (this._occupants.length === 0) {
-      this._video = undefined;
+      this._queue = [];
+      this._skipVotes = [];
+      const { defaultVideo, autoplay } = this._options;
+      if (defaultVideo === undefined) {
+        this.loadVideo(undefined, 0, false);
+      } else if (this._video !== defaultVideo) {
+        this.loadVideo(defaultVideo, 0, !!autoplay);
+      } else if (autoplay) {
+        this.play();
+      } else {
+        this.pause();
+      }
       this._emitAreaChanged();
     }
   }
 
   /**
-   * Updates the state of this ViewingArea, setting the video, isPlaying and progress properties
+   * Applies an update from a client to this ViewingArea. The update is treated as the client's intent
+   * rather than as the new state of the area: a different video is loaded from the given position;
+   * otherwise, a position that is more than SEEK_TOLERANCE_SEC from the area's own clock is a seek,
+   * and a change to isPlaying plays or pauses the video at its current position.
    *
    * @param viewingArea updated model
    */
   public updateModel({ isPlaying, elapsedTimeSec: progress, video }: ViewingAreaModel) {
-    this._video = video;
-    this._isPlaying = isPlaying;
-    this._elapsedTimeSec = progress;
+    if (video !== this._video) {
+      this.loadVideo(video, progress, isPlaying);
+      return;
+    }
+    const isSeek = Math.abs(progress - this.elapsedTimeSec) > SEEK_TOLERANCE_SEC;
+    if (isPlaying) {
+      this.play();
+    } else {
+      this.pause();
+    }
+    // Seek after playing or pausing, so that pausing does not add the time since the seek
+    if (isSeek) {
+      this.seek(progress);
+    }
+  }
+
+  /**
+   * @returns the current state of this area's clock, for clients to correct the drift of their players
+   */
+  public toPlaybackSync(): ViewingAreaPlaybackSync {
+    return {
+      interactableID: this.id,
+      video: this._video,
+      isPlaying: this._isPlaying,
+      elapsedTimeSec: this.elapsedTimeSec,
+      serverTime: Date.now(),
+    };
   }
 
   /**
@@ -85,7 +343,12 @@ export default class ViewingArea extends InteractableArea {
       id: this.id,
       video: this._video,
       isPlaying: this._isPlaying,
-      elapsedTimeSec: this._elapsedTimeSec,
+      elapsedTimeSec: this.elapsedTimeSec,
+      loop: this._options.loop,
+      queue: this._queue,
+      skipVotes: this._skipVotes,
+      title: this._title,
+      durationSec: this._durationSec,
       occupants: this.occupantsByID,
       type: 'ViewingArea',
     };
@@ -93,31 +356,175 @@ export default class ViewingArea extends InteractableArea {
 
   /**
    * Creates a new ViewingArea object that will represent a Viewing Area object in the town map.
-   * @param mapObject An ITiledMapObject that represents a rectangle in which this viewing area exists
+   *
+   * The area starts with the video given by the object's `video` property, if any, which it reverts to
+   * whenever it empties. A `loop` property asks clients to repeat the video, and an `autoplay` property
+   * starts the default video playing.
+   *
+   * @param mapObject An ITiledMapObject that represents a rectangle, ellipse or polygon in which this viewing area exists
    * @param townEmitter An emitter that can be used by this viewing area to broadcast updates to players in the town
    * @returns
    */
   public static fromMapObject(mapObject: ITiledMapObject, townEmitter: TownEmitter): ViewingArea {
-    const { name, width, height } = mapObject;
-    if (!width || !height) {
+    const { name } = mapObject;
+    const geometry = areaGeometryFromMapObject(mapObject);
+    if (!geometry) {
       throw new Error(`Malformed viewing area ${name}`);
     }
-    const rect: BoundingBox = { x: mapObject.x, y: mapObject.y, width, height };
+    const property = (propertyName: string) =>
+      mapObject.properties?.find(eachProperty => eachProperty.name === propertyName)?.value;
+    const video = property('video');
+    const loop = property('loop');
+    const autoplay = property('autoplay');
+    const options: ViewingAreaOptions = {
+      defaultVideo: typeof video === 'string' && video.length > 0 ? video : undefined,
+      loop: typeof loop === 'boolean' ? loop : undefined,
+      autoplay: typeof autoplay === 'boolean' ? autoplay : undefined,
+    };
     return new ViewingArea(
-      { isPlaying: false, id: name as InteractableID, elapsedTimeSec: 0, occupants: [] },
-      rect,
+      {
+        isPlaying: options.defaultVideo !== undefined && options.autoplay === true,
+        id: name as InteractableID,
+        elapsedTimeSec: 0,
+        video: options.defaultVideo,
+        occupants: [],
+      },
+      geometry.boundingBox,
       townEmitter,
+      geometry.shape,
+      options,
     );
   }
 
+  private _skipVotePassed(): boolean {
+    return this._skipVotes.length * 2 > this._occupants.length;
+  }
+
+  private _endReportsPassed(): boolean {
+    return this._endReports.length * 2 > this._occupants.length;
+  }
+
+  private _checkOccupant(player: Player): void {
+    if (!this._occupants.includes(player)) {
+      throw new InvalidParametersError('Player is not in this viewing area');
+    }
+  }
+
+  private _findQueued(itemID: string): PlaylistItem {
+    const item = this._queue.find(eachItem => eachItem.id === itemID);
+    if (!item) {
+      throw new InvalidParametersError('No such video in the playlist');
+    }
+    return item;
+  }
+
+  /**
+   * Adds a video to the end of the queue, or plays it straight away if the area is showing no video
+   * or only its default video
+   */
+  private _enqueue({ video }: PlaylistEnqueueCommand, player: Player): string {
+    if (!video) {
+      throw new InvalidParametersError('No video specified');
+    }
+    if (this._queue.length >= MAX_PLAYLIST_LENGTH) {
+      throw new InvalidParametersError('Playlist is full');
+    }
+    const item = { id: nanoid(), video, addedBy: player.id, votes: [] };
+    if (this._video === undefined || this._video === this._options.defaultVideo) {
+      this.loadVideo(video, 0, true);
+    } else {
+      this._queue = [...this._queue, item];
+    }
+    return item.id;
+  }
+
+  /**
+   * Upvotes a queued video, moving it ahead of the videos with fewer votes. Voting again for the same
+   * video has no effect.
+   */
+  private _vote({ itemID }: PlaylistVoteCommand, player: Player): void {
+    const item = this._findQueued(itemID);
+    if (!item.votes.includes(player.id)) {
+      item.votes = [...item.votes, player.id];
+      // Sorting is stable, so videos with the same number of votes stay in the order they were added
+      this._queue = [...this._queue].sort((a, b) => b.votes.length - a.votes.length);
+    }
+  }
+
+  /** Votes to skip the current video, which is skipped once a majority of the occupants have voted */
+  private _skip(player: Player): void {
+    if (this._video === undefined) {
+      throw new InvalidParametersError('No video to skip');
+    }
+    if (!this._skipVotes.includes(player.id)) {
+      this._skipVotes = [...this._skipVotes, player.id];
+    }
+    if (this._skipVotePassed()) {
+      this.playNext();
+    }
+  }
+
+  /**
+   * Advances the playlist when a client reports that the current video ended. Reports about a video
+   * that is no longer playing are ignored. If the length of the video is known, reports that come
+   * well before the area's clock reaches it are rejected; otherwise, the playlist advances only once
+   * a majority of the occupants have reported the end, so that no one occupant can skip the video.
+   */
+  private _videoEnded({ video }: PlaylistVideoEndedCommand, player: Player): void {
+    if (video !== this._video) {
+      return;
+    }
+    if (this._durationSec === undefined) {
+      if (!this._endReports.includes(player.id)) {
+        this._endReports = [...this._endReports, player.id];
+      }
+      if (this._endReportsPassed()) {
+        this.playNext();
+      }
+      return;
+    }
+    if (this.elapsedTimeSec < this._durationSec - SEEK_TOLERANCE_SEC) {
+      throw new InvalidParametersError('The video has not ended');
+    }
+    this.playNext();
+  }
+
   public handleCommand<CommandType extends InteractableCommand>(
     command: CommandType,
+    player: Player,
   ): InteractableCommandReturnType<CommandType> {
     if (command.type === 'ViewingAreaUpdate') {
       const viewingArea = command as ViewingAreaUpdateCommand;
       this.updateModel(viewingArea.update);
+      this._emitAreaChanged();
       return {} as InteractableCommandReturnType<CommandType>;
     }
-    throw new InvalidParametersError('Unknown command type');
+    const isPlaylistCommand =
+      command.type === 'PlaylistEnqueue' ||
+      command.type === 'PlaylistVote' ||
+      command.type === 'PlaylistSkip' ||
+      command.type === 'PlaylistRemove' ||
+      command.type === 'PlaylistVideoEnded';
+    if (!isPlaylistCommand) {
+      throw new InvalidParametersError('Unknown command type');
+    }
+    this._checkOccupant(player);
+    if (command.type === 'PlaylistEnqueue') {
+      const itemID = this._enqueue(command, player);
+      this._emitAreaChanged();
+      return { itemID } as InteractableCommandReturnType<CommandType>;
+    }
+    if (command.type === 'PlaylistVote') {
+      this._vote(command, player);
+    } else if (command.type === 'PlaylistSkip') {
+      this._skip(player);
+    } else if (command.type === 'PlaylistRemove') {
+      const item = this._findQueued(command.itemID);
+      this._queue = this._queue.filter(eachItem => eachItem !== item);
+    } else if (command.type === 'PlaylistVideoEnded') {
+      this._videoEnded(command, player);
+    }
+    this._emitAreaChanged();
+    return undefined as InteractableCommandReturnType<CommandType>;
   }
 }
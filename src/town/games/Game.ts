@@ -83,6 +83,13 @@ export default abstract class Game<StateType extends GameState, MoveType> {
     this._players = this._players.filter(p => p.id !== player.id);
   }
 
+  /**
+   * @returns true if the player has joined this game (and has not left it)
+   */
+  public hasPlayer(player: Player): boolean {
+    return this._players.some(eachPlayer => eachPlayer.id === player.id);
+  }
+
   public toModel(): GameInstance<StateType> {
     return {
       state: this._state,
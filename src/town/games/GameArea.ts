@@ -43,8 +43,12 @@ export default abstract class GameArea<
 
   protected abstract getType(): InteractableType;
 
+  /**
+   * Removes a player from this area, and from its game if they are playing it; occupants who are
+   * only watching the game do not need to leave it
+   */
   public remove(player: Player): void {
-    if (this._game) {
+    if (this._game?.hasPlayer(player)) {
       this._game.leave(player);
     }
     super.remove(player);
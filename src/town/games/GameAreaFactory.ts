@@ -1,9 +1,13 @@
 import { ITiledMapObject } from '@jonbell/tiled-map-type-guard';
-import { BoundingBox, TownEmitter } from '../../types/CoveyTownSocket';
+import { TownEmitter } from '../../types/CoveyTownSocket';
+import { areaGeometryFromMapObject } from '../AreaGeometry';
 import InteractableArea from '../InteractableArea';
 import ConnectFourGameArea from './ConnectFourGameArea';
 import TicTacToeGameArea from './TicTacToeGameArea';
 
+/** The values of the `type` property of a GameArea map object that select each kind of game */
+export const GAME_AREA_TYPES = ['TicTacToe', 'ConnectFour'];
+
 /**
  * Creates a new GameArea from a map object
  * @param mapObject the map object to create the game area from
@@ -15,17 +19,18 @@ export default function GameAreaFactory(
   mapObject: ITiledMapObject,
   broadcastEmitter: TownEmitter,
 ): InteractableArea {
-  const { name, width, height } = mapObject;
-  if (!width || !height) {
-    throw new Error(`Malformed viewing area ${name}`);
+  const { name } = mapObject;
+  const geometry = areaGeometryFromMapObject(mapObject);
+  if (!geometry) {
+    throw new Error(`Malformed game area ${name}`);
   }
-  const rect: BoundingBox = { x: mapObject.x, y: mapObject.y, width, height };
+  const { boundingBox, shape } = geometry;
   const gameType = mapObject.properties?.find(prop => prop.name === 'type')?.value;
   if (gameType === 'TicTacToe') {
-    return new TicTacToeGameArea(name, rect, broadcastEmitter);
+    return new TicTacToeGameArea(name, boundingBox, broadcastEmitter, shape);
   }
   if (gameType === 'ConnectFour') {
-    return new ConnectFourGameArea(name, rect, broadcastEmitter);
+    return new ConnectFourGameArea(name, boundingBox, broadcastEmitter, shape);
   }
-  throw new Error(`Unknown game area type ${mapObject.class}`);
+  throw new Error(`Unknown game area type ${gameType} in ${name}`);
 }
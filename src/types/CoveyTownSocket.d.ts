@@ -29,6 +29,8 @@ export type TownJoinResponse = {
   isPubliclyListed: boolean;
   /** Current state of interactables in this town */
   interactables: TypedInteractable[];
+  /** The most recent chat messages that this player may see, oldest first */
+  chatHistory: ChatMessage[];
 };
 
 export type InteractableType =
@@ -45,6 +47,62 @@ export interface Interactable {
 export type TownSettingsUpdate = {
   friendlyName?: string;
   isPubliclyListed?: boolean;
+  /**
+   * The maximum number of players that may be in the town at once
+   * @isInt
+   * @minimum 1
+   */
+  capacity?: number;
+};
+
+export type ModerationActionType = 'kick' | 'ban' | 'mute';
+
+/**
+ * Sent to every player in a town when a moderator acts on a player
+ */
+export interface ModerationAction {
+  action: ModerationActionType;
+  playerID: PlayerID;
+  reason?: string;
+  /** For mutes, when the mute ends. A mute that ends immediately lifts an earlier mute */
+  mutedUntil?: Date;
+}
+
+/**
+ * Sent by a client (with the moderate permission) to act on another player
+ */
+export interface ModerationCommand {
+  action: ModerationActionType;
+  playerID: PlayerID;
+  reason?: string;
+  /** For mutes, how long to mute the player for */
+  durationSec?: number;
+}
+
+/**
+ * Sent to a client just before the server disconnects it because it was kicked or banned from the town
+ */
+export interface RemovalNotice {
+  isBan: boolean;
+  reason?: string;
+}
+
+/**
+ * Sent to every player in a town when the town's map is replaced while the town is running
+ */
+export interface MapChange {
+  /** The ID of the new map in the map library, from which clients can fetch it */
+  mapID?: string;
+  /** The interactables of the new map, including the state of areas that were kept from the old map */
+  interactables: Interactable[];
+}
+
+/**
+ * Sent to a client that is waiting to join a town that is at capacity
+ */
+export type WaitlistUpdate = {
+  /** This client's place in line, starting at 1 for the next client to be admitted */
+  position: number;
 };
 
 export type Direction = 'front' | 'back' | 'left' | 'right';
@@ -54,6 +112,27 @@ export interface Player {
   id: PlayerID;
   userName: string;
   location: PlayerLocation;
+  role: PlayerRole;
+}
+
+/**
+ * Each player in a town has a role, which determines what they are permitted to do in the town
+ */
+export type PlayerRole = 'owner' | 'moderator' | 'member' | 'guest';
+
+export type TownPermission =
+  | 'setConversationTopic'
+  | 'changeViewingAreaVideo'
+  | 'startGame'
+  | 'moderate'
+  | 'assignRoles';
+
+/**
+ * Sent by a client to change the role of another player
+ */
+export interface PlayerRoleUpdate {
+  playerID: PlayerID;
+  role: PlayerRole;
 }
 
 export type XY = { x: number; y: number };
@@ -68,15 +147,151 @@ export interface PlayerLocation {
   moving: boolean;
   interactableID?: string;
 }
+/** The latest location of a player who has moved */
+export interface PlayerMovement {
+  id: PlayerID;
+  location: PlayerLocation;
+}
+
+/** The movements of other players that the server sends to a player on each tick */
+export interface PlayerMovementBatch {
+  movements: PlayerMovement[];
+}
+
+export type ChatMessageID = string;
+/**
+ * A chat message as delivered to clients. Every field is assigned by the server
+ */
 export type ChatMessage = {
-  author: string;
+  /** Unique ID of this message, which clients can use to refer to it later */
+  id: ChatMessageID;
+  /** The ID of the player who sent this message */
+  author: PlayerID;
+  /** @deprecated same value as id, retained for older clients */
   sid: string;
   body: string;
   dateCreated: Date;
+  /** The interactable area whose occupants this message was sent to, or undefined if it was sent to the whole town */
+  interactableID?: InteractableID;
+  /** True if this message is the output of a chat command that the author ran, rather than something they wrote */
+  isSystemMessage?: boolean;
+};
+
+/**
+ * Who a chat message is sent to: the whole town, the occupants of the area that the sender is in,
+ * or the occupants of a named area (which must be the area that the sender is in)
+ */
+export type ChatScope =
+  | { type: 'town' }
+  | { type: 'currentArea' }
+  | { type: 'area'; interactableID: InteractableID };
+
+/**
+ * A chat message as sent by a client: the server determines everything other than the body and
+ * scope
+ */
+export type ChatMessageRequest = {
+  body: string;
+  /** Defaults to the whole town */
+  scope?: ChatScope;
+};
+
+export type DirectMessageID = string;
+/**
+ * A private message from one player to another. Every field is assigned by the server
+ */
+export type DirectMessage = {
+  id: DirectMessageID;
+  from: PlayerID;
+  to: PlayerID;
+  body: string;
+  dateCreated: Date;
+  /** When the server delivered the message to the recipient */
+  dateDelivered?: Date;
+  /** When the recipient acknowledged reading the message */
+  dateRead?: Date;
 };
 
+/**
+ * A direct message as sent by a client
+ */
+export type DirectMessageRequest = {
+  /** Chosen by the client, and included in the response to this request */
+  requestID: string;
+  to: PlayerID;
+  body: string;
+};
+
+export type DirectMessageErrorType =
+  | 'unknownPlayer'
+  | 'offline'
+  | 'blocked'
+  | 'muted'
+  | 'invalidMessage';
+
+/** Why a direct message could not be delivered */
+export interface DirectMessageError {
+  type: DirectMessageErrorType;
+  message: string;
+}
+
+/**
+ * The server's answer to a direct message request: the message as delivered to the recipient, or
+ * why it could not be delivered
+ */
+export type DirectMessageResponse = { requestID: string } & (
+  | { isOK: true; message: DirectMessage }
+  | { isOK: false; error: DirectMessageError }
+);
+
+/** Sent by the recipient of direct messages to acknowledge that they have read them */
+export interface DirectMessageReadReceipt {
+  messageIDs: DirectMessageID[];
+}
+
+/** Stops (or allows again) direct messages from another player to the player who sends it */
+export interface PlayerBlockUpdate {
+  playerID: PlayerID;
+  isBlocked: boolean;
+}
+
+/** The direct messages between the player who receives this and another player, oldest first */
+export interface DirectMessageHistory {
+  playerID: PlayerID;
+  messages: DirectMessage[];
+}
+
+/**
+ * A problem found when validating the payload of an event sent by a client
+ */
+export interface PayloadIssue {
+  /** The path to the offending property within the payload, e.g. "update.elapsedTimeSec" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Sent to a client when the server refuses to process an event that it sent
+ */
+export interface EventRejection {
+  /** The name of the client-to-server event that was rejected */
+  event: keyof ClientToServerEvents;
+  /** Why the event was rejected */
+  message: string;
+  /** If the event's payload was malformed, the problems that were found with it */
+  issues?: PayloadIssue[];
+}
+
 export interface ConversationArea extends Interactable {
   topic?: string;
+  /** The topics that have been set (or cleared) in this area, oldest first */
+  topicHistory?: TopicChange[];
+}
+export interface TopicChange {
+  /** The new topic, or undefined if the topic was cleared */
+  topic?: string;
+  setBy: PlayerID;
+  setAt: Date;
 }
 export interface BoundingBox {
   x: number;
@@ -89,6 +304,47 @@ export interface ViewingArea extends Interactable {
   video?: string;
   isPlaying: boolean;
   elapsedTimeSec: number;
+  /** Set by the map: clients should restart the video when it ends */
+  loop?: boolean;
+  /** The videos waiting to play after the current one, in the order that they will play */
+  queue?: PlaylistItem[];
+  /** The occupants who have voted to skip the current video */
+  skipVotes?: PlayerID[];
+  /** The title of the current video, if the server could find it */
+  title?: string;
+  /** The length of the current video, if known */
+  durationSec?: number;
+}
+
+/** What the server could find out about a video from the service that hosts it */
+export interface MediaMetadata {
+  title?: string;
+  durationSec?: number;
+}
+
+/** A video waiting in the playlist of a viewing area */
+export interface PlaylistItem {
+  id: string;
+  video: string;
+  title?: string;
+  /** The length of the video, if known, so that the server can tell when it ends */
+  durationSec?: number;
+  addedBy: PlayerID;
+  /** The occupants who have upvoted this video; videos with more votes play sooner */
+  votes: PlayerID[];
+}
+
+/**
+ * The state of a viewing area's clock, sent periodically while its video plays so that clients can
+ * correct the drift of their players
+ */
+export interface ViewingAreaPlaybackSync {
+  interactableID: InteractableID;
+  video?: string;
+  isPlaying: boolean;
+  elapsedTimeSec: number;
+  /** The time (in ms since the epoch) on the server at which elapsedTimeSec was the position */
+  serverTime: number;
 }
 
 export type GameStatus = 'IN_PROGRESS' | 'WAITING_TO_START' | 'OVER' | 'WAITING_FOR_PLAYERS';
@@ -239,11 +495,47 @@ export type InteractableCommand =
   | GameMoveCommand<TicTacToeMove>
   | GameMoveCommand<ConnectFourMove>
   | StartGameCommand
-  | LeaveGameCommand;
+  | LeaveGameCommand
+  | PlaylistEnqueueCommand
+  | PlaylistVoteCommand
+  | PlaylistSkipCommand
+  | PlaylistRemoveCommand
+  | PlaylistVideoEndedCommand
+  | SetConversationTopicCommand
+  | ClearConversationTopicCommand;
 export interface ViewingAreaUpdateCommand {
   type: 'ViewingAreaUpdate';
   update: ViewingArea;
 }
+export interface PlaylistEnqueueCommand {
+  type: 'PlaylistEnqueue';
+  video: string;
+}
+export interface PlaylistVoteCommand {
+  type: 'PlaylistVote';
+  itemID: string;
+}
+export interface PlaylistSkipCommand {
+  type: 'PlaylistSkip';
+}
+export interface PlaylistRemoveCommand {
+  type: 'PlaylistRemove';
+  itemID: string;
+}
+/** Reports that a client's player reached the end of the video */
+export interface PlaylistVideoEndedCommand {
+  type: 'PlaylistVideoEnded';
+  /** The video that ended, so that reports from several clients advance the playlist only once */
+  video: string;
+}
+/** Sets the topic of a conversation area, or changes it if it already has one */
+export interface SetConversationTopicCommand {
+  type: 'SetConversationTopic';
+  topic: string;
+}
+export interface ClearConversationTopicCommand {
+  type: 'ClearConversationTopic';
+}
 export interface JoinGameCommand {
   type: 'JoinGame';
 }
@@ -265,6 +557,20 @@ export type InteractableCommandReturnType<CommandType extends InteractableComman
     ? { gameID: string }
     : CommandType extends ViewingAreaUpdateCommand
     ? undefined
+    : CommandType extends PlaylistEnqueueCommand
+    ? { itemID: string }
+    : CommandType extends PlaylistVoteCommand
+    ? undefined
+    : CommandType extends PlaylistSkipCommand
+    ? undefined
+    : CommandType extends PlaylistRemoveCommand
+    ? undefined
+    : CommandType extends PlaylistVideoEndedCommand
+    ? undefined
+    : CommandType extends SetConversationTopicCommand
+    ? undefined
+    : CommandType extends ClearConversationTopicCommand
+    ? undefined
     : CommandType extends GameMoveCommand<TicTacToeMove>
     ? undefined
     : CommandType extends LeaveGameCommand
@@ -279,20 +585,51 @@ export type InteractableCommandResponse<MessageType> = {
 };
 
 export interface ServerToClientEvents {
-  playerMoved: (movedPlayer: Player) => void;
+  /**
+   * The latest movements of the other players near this client's player, sent once per tick. This
+   * replaces the playerMoved event (one event per movement, with the whole player), which the server
+   * no longer sends: clients must listen for playersMoved to see other players move.
+   */
+  playersMoved: (batch: PlayerMovementBatch) => void;
+  /** The server rejected or adjusted a movement of this client's player; this is where the player really is */
+  playerLocationCorrected: (location: PlayerLocation) => void;
   playerDisconnect: (disconnectedPlayer: Player) => void;
   playerJoined: (newPlayer: Player) => void;
+  /** A player's socket dropped; they keep their place in the town while they may reconnect */
+  playerReconnecting: (reconnectingPlayer: Player) => void;
+  /** A player that was reconnecting has resumed their session */
+  playerReconnected: (reconnectedPlayer: Player) => void;
   initialize: (initialData: TownJoinResponse) => void;
   townSettingsUpdated: (update: TownSettingsUpdate) => void;
+  waitlistUpdated: (update: WaitlistUpdate) => void;
   townClosing: () => void;
   chatMessage: (message: ChatMessage) => void;
   interactableUpdate: (interactable: Interactable) => void;
   commandResponse: (response: InteractableCommandResponse) => void;
+  eventRejected: (rejection: EventRejection) => void;
+  playerModerated: (action: ModerationAction) => void;
+  removedFromTown: (notice: RemovalNotice) => void;
+  playerRoleChanged: (player: Player) => void;
+  mapChanged: (change: MapChange) => void;
+  viewingAreaPlaybackSync: (sync: ViewingAreaPlaybackSync) => void;
+  /** A direct message to this client's player */
+  directMessage: (message: DirectMessage) => void;
+  directMessageResponse: (response: DirectMessageResponse) => void;
+  /** The recipient of a direct message from this client's player has read it */
+  directMessageRead: (message: DirectMessage) => void;
+  directMessageHistory: (history: DirectMessageHistory) => void;
 }
 
 export interface ClientToServerEvents {
-  chatMessage: (message: ChatMessage) => void;
+  chatMessage: (message: ChatMessageRequest) => void;
   playerMovement: (movementData: PlayerLocation) => void;
   interactableUpdate: (update: Interactable) => void;
   interactableCommand: (command: InteractableCommand & InteractableCommandBase) => void;
+  setPlayerRole: (update: PlayerRoleUpdate) => void;
+  moderatePlayer: (command: ModerationCommand) => void;
+  directMessage: (message: DirectMessageRequest) => void;
+  directMessageRead: (receipt: DirectMessageReadReceipt) => void;
+  blockPlayer: (update: PlayerBlockUpdate) => void;
+  /** Asks for the direct messages between this client's player and another player */
+  directMessageHistory: (playerID: PlayerID) => void;
 }